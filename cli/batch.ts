@@ -0,0 +1,96 @@
+import { readFileSync } from 'node:fs';
+import type { OptimizeInputs, RecommendedSettings, SchemaError, UnitSystem } from '../src/engine';
+import { csvCell, getRecipeSetpoints, optimizeParameters, parseCsv, RECIPE_SETPOINTS } from '../src/engine';
+import { displayValue, formatTable, formatUnit } from './format';
+import { describeError, InputError, optimizeInputsFromOptions, UsageError } from './jobs';
+
+// Batch planning: one job per CSV row, with columns named like the optimize
+// options (job, material, grade, od or layflat, gauge, rate, line, objective,
+// die). Each row is run on its own - a bad row is reported and the rest of the
+// schedule still comes out.
+
+export const BATCH_COLUMNS = ['job', 'material', 'grade', 'od', 'layflat', 'gauge', 'rate', 'line', 'objective', 'die'];
+
+export interface BatchJob {
+  job: string;
+  inputs?: OptimizeInputs;
+  result?: RecommendedSettings;
+  errors: SchemaError[];
+}
+
+// '-' reads the schedule from stdin
+export function readBatch(path: string): Record<string, string>[] {
+  let text: string;
+  try {
+    text = readFileSync(path === '-' ? 0 : path, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${(error as Error).message}`);
+  }
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new UsageError(`${path} is empty`);
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const unknown = columns.filter((column) => !BATCH_COLUMNS.includes(column));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown column${unknown.length === 1 ? '' : 's'} ${unknown.join(', ')} - use ${BATCH_COLUMNS.join(', ')}`);
+  }
+  return rows.map((row) => Object.fromEntries(columns.map((column, idx) => [column, row[idx] ?? ''])));
+}
+
+export function runBatch(rows: Record<string, string>[], system: UnitSystem): BatchJob[] {
+  return rows.map((row, idx) => {
+    const job = row.job?.trim() || `row ${idx + 2}`;
+    try {
+      const inputs = optimizeInputsFromOptions(row, system);
+      return { job, inputs, result: optimizeParameters(inputs), errors: [] };
+    } catch (error) {
+      if (error instanceof InputError) return { job, errors: error.errors };
+      return { job, errors: [{ path: '', message: (error as Error).message }] };
+    }
+  });
+}
+
+// One line per job: what was asked, the setpoints, and how it rates
+function summarize(jobs: BatchJob[], system: UnitSystem): { header: string[]; rows: string[][] } {
+  const unitHeader = (label: string, unit: string) => (unit ? `${label} (${formatUnit(unit, system)})` : label);
+  const header = [
+    'Job',
+    'Material',
+    unitHeader('OD', 'in'),
+    unitHeader('Gauge', 'mils'),
+    unitHeader('Rate', 'lbs/hr'),
+    'Line',
+    ...RECIPE_SETPOINTS.map((setpoint) => unitHeader(setpoint.label, setpoint.unit)),
+    'Stability',
+    'Confidence',
+    'Status',
+  ];
+
+  const rows = jobs.map(({ job, inputs, result, errors }) => {
+    if (!inputs || !result) {
+      const status = errors.map(describeError).join('; ');
+      return [job, ...Array(header.length - 2).fill(''), `error: ${status}`];
+    }
+    const warnings = result.equipmentWarnings.length;
+    return [
+      job,
+      inputs.grade ?? inputs.material,
+      String(displayValue(result.sizing?.requiredOD ?? inputs.targetOD, 'in', system)),
+      String(displayValue(inputs.targetGauge, 'mils', system)),
+      String(displayValue(result.setpoints?.feasible ? result.setpoints.productionRate : inputs.productionRate, 'lbs/hr', system)),
+      inputs.equipment?.id ?? '',
+      ...getRecipeSetpoints(result).map((setpoint) => String(displayValue(setpoint.value, setpoint.unit, system))),
+      result.bubbleStability.rating,
+      result.confidence,
+      warnings > 0 ? `${warnings} line warning${warnings === 1 ? '' : 's'}` : 'ok',
+    ];
+  });
+  return { header, rows };
+}
+
+export function formatBatch(jobs: BatchJob[], format: 'table' | 'json' | 'csv', system: UnitSystem): string {
+  if (format === 'json') return JSON.stringify(jobs, null, 2);
+  const { header, rows } = summarize(jobs, system);
+  if (format === 'csv') return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+  return formatTable(header, rows).join('\n');
+}
@@ -0,0 +1,48 @@
+import type { DefectType, MaterialType } from '../src/engine';
+import { getAllDefects, getDefectInfo, getFilmMaterials, getGradesForMaterial, getMaterial } from '../src/engine';
+
+// Reference lists for callers picking inputs: the resin families with their
+// grades, and the defects diagnose accepts. Shared by the command line and the
+// HTTP service so both describe the same catalog.
+
+export interface MaterialListing {
+  material: MaterialType;
+  name: string;
+  meltIndex: number; // g/10 min
+  density: number; // g/cc
+  meltTempRange: { min: number; max: number }; // °F
+  grades: { id: string; name: string; meltIndex: number; density: number; comonomer: string }[];
+}
+
+export interface DefectListing {
+  defect: DefectType;
+  name: string;
+  description: string;
+}
+
+export function listMaterials(): MaterialListing[] {
+  return getFilmMaterials().map((material) => {
+    const properties = getMaterial(material);
+    return {
+      material,
+      name: properties.fullName,
+      meltIndex: properties.meltIndex,
+      density: properties.density,
+      meltTempRange: properties.meltTempRange,
+      grades: getGradesForMaterial(material).map(({ id, name, meltIndex, density, comonomer }) => ({
+        id,
+        name,
+        meltIndex,
+        density,
+        comonomer,
+      })),
+    };
+  });
+}
+
+export function listDefects(): DefectListing[] {
+  return getAllDefects().map((defect) => {
+    const { name, description } = getDefectInfo(defect);
+    return { defect, name, description };
+  });
+}
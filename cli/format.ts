@@ -0,0 +1,129 @@
+import type { MultiDiagnoseResult, OptimizeInputs, RecommendedSettings, UnitSystem } from '../src/engine';
+import {
+  buildSetupSheet,
+  getDefectDisplayName,
+  getMaterialLabel,
+  getQuantityForUnit,
+  getUnitLabel,
+  localizeText,
+  toDisplayUnits,
+} from '../src/engine';
+
+// Plain-text reports for a terminal or a log file. The optimize report follows
+// the setup sheet the UI prints, so the line sees the same sections either way.
+
+const WIDTH = 100;
+
+// Engine value given with its imperial unit string, in the chosen system
+export function displayValue(value: number, unit: string, system: UnitSystem): number {
+  const quantity = getQuantityForUnit(unit);
+  return quantity ? toDisplayUnits(value, quantity, system) : value;
+}
+
+// Unit label for a column header
+export function formatUnit(unit: string, system: UnitSystem): string {
+  const quantity = getQuantityForUnit(unit);
+  return quantity ? getUnitLabel(quantity, system) : unit;
+}
+
+// Degrees sit against the figure, other units after a space
+function unitSuffix(unit: string, system: UnitSystem): string {
+  const label = formatUnit(unit, system);
+  if (!label) return '';
+  return label.startsWith('°') ? label : ` ${label}`;
+}
+
+// Word wrap with a hanging indent for continuation lines
+function wrap(text: string, indent: string, width = WIDTH): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && indent.length + current.length + word.length + 1 > width) {
+      lines.push(indent + current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(indent + current);
+  return lines;
+}
+
+function bullet(text: string, indent = '  '): string[] {
+  const [first = '', ...rest] = wrap(text, `${indent}  `);
+  return [`${indent}- ${first.slice(indent.length + 2)}`, ...rest];
+}
+
+// Columns padded to their widest cell
+export function formatTable(header: string[], rows: string[][]): string[] {
+  const widths = header.map((title, col) => Math.max(title.length, ...rows.map((row) => (row[col] ?? '').length)));
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, col) => cell.padEnd(widths[col]))
+      .join('  ')
+      .trimEnd();
+  return [line(header), line(widths.map((width) => '-'.repeat(width))), ...rows.map(line)];
+}
+
+export function formatOptimizeReport(inputs: OptimizeInputs, settings: RecommendedSettings, system: UnitSystem): string {
+  const sheet = buildSetupSheet({
+    settings,
+    inputs,
+    header: { jobNumber: '', customer: '', line: inputs.equipment?.name ?? '', operator: '' },
+    materialLabel: getMaterialLabel(inputs),
+    system,
+  });
+
+  const lines = ['Blown Film Setup', sheet.job.map((item) => `${item.label}: ${item.value}`).join('  |  ')];
+  if (sheet.header.line) lines.push(`Line: ${sheet.header.line}`);
+  for (const section of sheet.sections) {
+    lines.push('', section.title.toUpperCase());
+    if (section.rows.length > 0) {
+      const hasRange = section.rows.some((row) => row.range);
+      const table = hasRange
+        ? formatTable(['Parameter', 'Setpoint', 'Range'], section.rows.map((row) => [row.label, row.value, row.range ?? '']))
+        : formatTable(['Parameter', 'Setpoint'], section.rows.map((row) => [row.label, row.value]));
+      lines.push(...table.map((row) => `  ${row}`));
+    }
+    section.notes.filter(Boolean).forEach((note) => lines.push(...bullet(note)));
+  }
+  lines.push(
+    '',
+    `Bubble stability: ${settings.bubbleStability.rating} (${settings.bubbleStability.score}/100)`,
+    `Confidence: ${settings.confidence} (${settings.confidenceScore}/100)`
+  );
+  return lines.join('\n');
+}
+
+export function formatDiagnoseReport(result: MultiDiagnoseResult, system: UnitSystem): string {
+  const text = (value: string) => localizeText(value, system);
+  const lines: string[] = [];
+  for (const defect of result.defects) {
+    lines.push(defect.defectName.toUpperCase(), ...wrap(text(defect.description), ''), '');
+  }
+
+  lines.push('PROBABLE CAUSES (ranked by likelihood)');
+  result.causes.forEach((cause, idx) => {
+    lines.push('', `${idx + 1}. ${cause.cause} - ${Math.round(cause.score * 100)}% ${cause.probability.toUpperCase()}`);
+    if (result.defects.length > 1) {
+      lines.push(`   Explains: ${cause.explainsDefects.map((defect) => getDefectDisplayName(defect)).join(', ')}`);
+    }
+    lines.push(...wrap(text(cause.explanation), '   '));
+    for (const adjustment of cause.adjustments) {
+      let line = text(adjustment.text);
+      if (adjustment.setpoint) {
+        const { label, current, target, unit } = adjustment.setpoint;
+        const show = (value: number) => displayValue(value, unit, system);
+        const settle = adjustment.change ? `, settle ${adjustment.change.settlingMinutes} min` : '';
+        line += ` [${label} ${show(current)} -> ${show(target.min)}-${show(target.max)}${unitSuffix(unit, system)}${settle}]`;
+      }
+      lines.push(...bullet(line, '   '));
+    }
+  });
+
+  if (result.generalRecommendations.length > 0) {
+    lines.push('', 'GENERAL RECOMMENDATIONS');
+    result.generalRecommendations.forEach((rec) => lines.push(...bullet(text(rec))));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,183 @@
+import { readFileSync } from 'node:fs';
+import type {
+  DefectType,
+  EquipmentProfile,
+  MaterialType,
+  MultiDiagnoseInputs,
+  OptimizeInputs,
+  Quantity,
+  SchemaError,
+  SetpointObjective,
+  UnitSystem,
+} from '../src/engine';
+import {
+  DEFAULT_EQUIPMENT_PROFILES,
+  fromDisplayUnits,
+  getGrade,
+  getGradeMismatch,
+  getMaterial,
+  validateDiagnoseInputs,
+  validateOptimizeInputs,
+} from '../src/engine';
+
+// Command-line options (or batch CSV columns, which use the same names) turned
+// into engine inputs. Values are read in the chosen unit system and converted
+// to imperial; the engine's schema then checks them, and any error is reported
+// against the option that supplied the value.
+
+// As parseArgs returns them; a batch row is the all-string case
+export type OptionValues = Record<string, string | boolean | (string | boolean)[] | undefined>;
+
+// Bad command line - exits 2 with the usage hint
+export class UsageError extends Error {}
+
+export function describeError(error: SchemaError): string {
+  return error.path ? `${error.path} ${error.message}` : error.message;
+}
+
+// Inputs that failed the schema, with the option each error came from
+export class InputError extends Error {
+  errors: SchemaError[];
+
+  constructor(errors: SchemaError[]) {
+    super(errors.map(describeError).join('; '));
+    this.errors = errors;
+  }
+}
+
+const OPTIMIZE_FIELDS: Record<string, string> = {
+  material: '--material',
+  grade: '--grade',
+  targetOD: '--od',
+  'filmSpec.layflatWidth': '--layflat',
+  targetGauge: '--gauge',
+  productionRate: '--rate',
+  objective: '--objective',
+  dieDiameter: '--die',
+  equipment: '--line',
+};
+
+const DIAGNOSE_FIELDS: Record<string, string> = {
+  material: '--material',
+  grade: '--grade',
+  'currentSettings.meltTemp': '--melt-temp',
+  'currentSettings.screwSpeed': '--screw-speed',
+  'currentSettings.lineSpeed': '--line-speed',
+  'currentSettings.dieTemp': '--die-temp',
+  'currentSettings.meteringTemp': '--metering-temp',
+  defects: '--defect',
+};
+
+function text(values: OptionValues, name: string): string | undefined {
+  const given = values[name];
+  const value = Array.isArray(given) ? given[given.length - 1] : given;
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+// Number in display units, converted to imperial; non-numbers are a usage error
+function quantity(values: OptionValues, name: string, unit: Quantity | null, system: UnitSystem): number | undefined {
+  const raw = text(values, name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new UsageError(`--${name} must be a number, got "${raw}"`);
+  return unit ? fromDisplayUnits(value, unit, system) : value;
+}
+
+function reject(errors: SchemaError[], fields: Record<string, string>) {
+  if (errors.length === 0) return;
+  throw new InputError(
+    errors.map((error) => {
+      const option = Object.entries(fields).find(([path]) => error.path === path || error.path.startsWith(`${path}.`));
+      if (!option) return error;
+      return { ...error, path: option[0] === error.path ? option[1] : `${option[1]} (${error.path})` };
+    })
+  );
+}
+
+// A built-in line by id or name, or a line profile saved as JSON
+export function resolveLine(value: string): EquipmentProfile {
+  const builtIn = DEFAULT_EQUIPMENT_PROFILES.find(
+    (profile) => profile.id === value || profile.name.toLowerCase() === value.toLowerCase()
+  );
+  if (builtIn) return builtIn;
+  if (!value.endsWith('.json')) {
+    const known = DEFAULT_EQUIPMENT_PROFILES.map((profile) => profile.id).join(', ');
+    throw new UsageError(`Unknown line "${value}" - use ${known} or a line profile .json file`);
+  }
+  try {
+    return JSON.parse(readFileSync(value, 'utf8')) as EquipmentProfile;
+  } catch (error) {
+    throw new UsageError(`Cannot read line profile ${value}: ${(error as Error).message}`);
+  }
+}
+
+// The family named by --material, or the grade's family when only --grade is given;
+// a grade from another family than --material is refused
+function materialOf(values: OptionValues): MaterialType {
+  const material = text(values, 'material')?.toUpperCase() as MaterialType | undefined;
+  const grade = text(values, 'grade');
+  if (!grade) {
+    if (material) return material;
+    throw new UsageError('--material is required');
+  }
+  const found = getGrade(grade);
+  if (!found) throw new UsageError(`Unknown grade "${grade}" - run 'parameterpath materials' for the grade ids`);
+  const mismatch = material ? getGradeMismatch({ material, grade }) : undefined;
+  if (mismatch) throw new UsageError(`--grade ${grade} ${mismatch} - drop --material or pick a ${material} grade`);
+  return found.family;
+}
+
+export function optimizeInputsFromOptions(values: OptionValues, system: UnitSystem): OptimizeInputs {
+  const layflat = quantity(values, 'layflat', 'length', system);
+  const od = quantity(values, 'od', 'length', system);
+  if (od === undefined && layflat === undefined) throw new UsageError('--od or --layflat is required');
+  const line = text(values, 'line');
+
+  const inputs: OptimizeInputs = {
+    material: materialOf(values),
+    grade: text(values, 'grade'),
+    // A layflat spec sizes the bubble; OD is then only carried for the record
+    targetOD: od ?? (2 * layflat!) / Math.PI,
+    filmSpec: layflat !== undefined ? { type: 'layflat', layflatWidth: layflat } : undefined,
+    targetGauge: quantity(values, 'gauge', 'gauge', system) as number,
+    productionRate: quantity(values, 'rate', 'massRate', system) as number,
+    equipment: line ? resolveLine(line) : undefined,
+    objective: text(values, 'objective') as SetpointObjective | undefined,
+    dieDiameter: quantity(values, 'die', 'length', system),
+  };
+  reject(validateOptimizeInputs(inputs), OPTIMIZE_FIELDS);
+  return inputs;
+}
+
+// Current settings not given default as the Diagnose form does: mid melt range
+// and the material's recommended die and metering zones
+export function diagnoseInputsFromOptions(values: OptionValues, system: UnitSystem): MultiDiagnoseInputs {
+  const material = materialOf(values);
+  // Repeatable and comma separated; "shark skin" and "shark-skin" both name shark_skin
+  const given = values.defect;
+  const defects = [given ?? []]
+    .flat()
+    .flatMap((defect) => (typeof defect === 'string' ? defect.split(',') : []))
+    .map((name) => name.trim().toLowerCase().replace(/[\s-]+/g, '_'))
+    .filter(Boolean);
+  if (defects.length === 0) throw new UsageError('--defect is required');
+
+  const matProps = getMaterial(material);
+  const inputs: MultiDiagnoseInputs = {
+    material,
+    grade: text(values, 'grade'),
+    currentSettings: {
+      meltTemp:
+        quantity(values, 'melt-temp', 'temperature', system) ??
+        (matProps ? matProps.meltTempRange.min + (matProps.meltTempRange.max - matProps.meltTempRange.min) / 2 : 0),
+      screwSpeed: quantity(values, 'screw-speed', null, system) ?? 60,
+      lineSpeed: quantity(values, 'line-speed', 'speed', system) ?? 100,
+      dieTemp: quantity(values, 'die-temp', 'temperature', system) ?? matProps?.barrelTemperatures.die.recommended ?? 0,
+      meteringTemp:
+        quantity(values, 'metering-temp', 'temperature', system) ?? matProps?.barrelTemperatures.metering.recommended,
+    },
+    defects: [...new Set(defects)] as DefectType[],
+  };
+  reject(validateDiagnoseInputs(inputs), DIAGNOSE_FIELDS);
+  return inputs;
+}
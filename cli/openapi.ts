@@ -0,0 +1,168 @@
+import type { JsonSchema } from '../src/engine';
+import { EXCHANGE_SCHEMA_VERSION, EXCHANGE_SCHEMAS } from '../src/engine';
+
+// OpenAPI 3.1 description of the HTTP service. Request and result bodies are
+// the exchange file definitions, so the service, the import/export files and
+// this document cannot drift apart; 3.1 takes JSON Schema 2020-12 as is, only
+// the reference prefix changes.
+
+// Error codes the service answers with, and their HTTP status
+export const API_ERRORS = {
+  invalid_json: 400,
+  invalid_input: 400,
+  not_found: 404,
+  method_not_allowed: 405,
+  payload_too_large: 413,
+  internal_error: 500,
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERRORS;
+
+interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Record<string, unknown>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const SCHEMAS = '#/components/schemas/';
+
+function ref(name: string): JsonSchema {
+  return { $ref: `${SCHEMAS}${name}` };
+}
+
+function json(description: string, schema: JsonSchema) {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+function errors(...codes: ApiErrorCode[]) {
+  return Object.fromEntries(
+    codes.map((code) => [String(API_ERRORS[code]), json(code.replace(/_/g, ' '), ref('error'))])
+  );
+}
+
+// Exchange definitions with their references pointed at components
+function componentSchemas(): Record<string, JsonSchema> {
+  const defs = JSON.stringify(EXCHANGE_SCHEMAS.optimize.$defs);
+  return JSON.parse(defs.replace(/"#\/\$defs\//g, `"${SCHEMAS}`));
+}
+
+const SERVICE_SCHEMAS: Record<string, JsonSchema> = {
+  schemaError: {
+    type: 'object',
+    required: ['path', 'message'],
+    properties: {
+      path: { type: 'string', description: "Dotted path to the value, '' for the body itself" },
+      message: { type: 'string' },
+    },
+  },
+  error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: { type: 'string', enum: Object.keys(API_ERRORS) },
+          message: { type: 'string' },
+          details: { type: 'array', description: 'One entry per rejected value', items: ref('schemaError') },
+        },
+      },
+    },
+  },
+  materialListing: {
+    type: 'object',
+    required: ['material', 'name', 'meltIndex', 'density', 'meltTempRange', 'grades'],
+    properties: {
+      material: ref('material'),
+      name: { type: 'string' },
+      meltIndex: { type: 'number', description: 'g/10 min (190°C/2.16 kg)' },
+      density: { type: 'number', description: 'g/cc' },
+      meltTempRange: {
+        type: 'object',
+        description: '°F',
+        required: ['min', 'max'],
+        properties: { min: { type: 'number' }, max: { type: 'number' } },
+      },
+      grades: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'name', 'meltIndex', 'density', 'comonomer'],
+          properties: {
+            id: ref('grade'),
+            name: { type: 'string' },
+            meltIndex: { type: 'number' },
+            density: { type: 'number' },
+            comonomer: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  defectListing: {
+    type: 'object',
+    required: ['defect', 'name', 'description'],
+    properties: { defect: ref('defect'), name: { type: 'string' }, description: { type: 'string' } },
+  },
+};
+
+export function buildOpenApiDocument(): OpenApiDocument {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'ParameterPath rules engine',
+      version: String(EXCHANGE_SCHEMA_VERSION),
+      description:
+        'Blown film setpoint recommendations and defect diagnosis. Every value is imperial: °F, in, mils, ' +
+        'lbs/hr, PSI, ft/min, CFM. Inputs outside their allowed range are rejected with 400 invalid_input and one detail per value.',
+    },
+    paths: {
+      '/optimize': {
+        post: {
+          summary: 'Recommended settings for a job',
+          operationId: 'optimize',
+          requestBody: { required: true, content: { 'application/json': { schema: ref('optimizeInputs') } } },
+          responses: {
+            200: json('Recommended settings', ref('recommendedSettings')),
+            ...errors('invalid_json', 'payload_too_large', 'invalid_input', 'internal_error'),
+          },
+        },
+      },
+      '/diagnose': {
+        post: {
+          summary: 'Ranked causes and adjustments for one defect, or several seen together',
+          operationId: 'diagnose',
+          requestBody: { required: true, content: { 'application/json': { schema: ref('diagnoseInputs') } } },
+          responses: {
+            200: json('Diagnosis', ref('diagnoseResult')),
+            ...errors('invalid_json', 'payload_too_large', 'invalid_input', 'internal_error'),
+          },
+        },
+      },
+      '/materials': {
+        get: {
+          summary: 'Resin families and their grades',
+          operationId: 'listMaterials',
+          responses: { 200: json('Materials', { type: 'array', items: ref('materialListing') }) },
+        },
+      },
+      '/defects': {
+        get: {
+          summary: 'Defects the diagnosis accepts',
+          operationId: 'listDefects',
+          responses: { 200: json('Defects', { type: 'array', items: ref('defectListing') }) },
+        },
+      },
+      '/openapi.json': {
+        get: {
+          summary: 'This document',
+          operationId: 'openApi',
+          responses: { 200: { description: 'OpenAPI 3.1 document' } },
+        },
+      },
+    },
+    components: { schemas: { ...componentSchemas(), ...SERVICE_SCHEMAS } },
+  };
+}
@@ -0,0 +1,229 @@
+import { parseArgs } from 'node:util';
+import type { ParseArgsConfig } from 'node:util';
+import type { UnitSystem } from '../src/engine';
+import {
+  createDiagnoseExchange,
+  createOptimizeExchange,
+  diagnoseDefects,
+  exchangeToJson,
+  getFilmMaterials,
+  optimizeParameters,
+  SETPOINT_OBJECTIVES,
+} from '../src/engine';
+import { formatBatch, readBatch, runBatch } from './batch';
+import { listDefects, listMaterials } from './catalog';
+import { formatDiagnoseReport, formatOptimizeReport, formatTable } from './format';
+import { createApiServer } from './server';
+import type { OptionValues } from './jobs';
+import { describeError, diagnoseInputsFromOptions, InputError, optimizeInputsFromOptions, UsageError } from './jobs';
+
+// Headless entry point: the same engine as the UI, driven from a shell or a
+// scheduled script. Reports go to stdout, errors to stderr. Exit code 0 when
+// everything ran, 1 when inputs were rejected or a batch row failed, 2 for a
+// command line that could not be understood.
+
+const USAGE = `Usage: parameterpath <command> [options]
+
+Commands
+  optimize    Recommended settings for a job
+  diagnose    Ranked causes and adjustments for one or more defects
+  batch FILE  Optimize every job in a CSV schedule ('-' reads stdin)
+  materials   Resin families and grades
+  defects     Defect names accepted by diagnose
+  serve       JSON API for other systems (/optimize, /diagnose, /materials, /defects, /openapi.json)
+
+optimize
+  --material NAME     ${getFilmMaterials().join(', ')}
+  --grade ID          Resin grade (sets the material when --material is omitted)
+  --od N              Bubble OD (in | mm)
+  --layflat N         Layflat width to size the bubble from instead of OD (in | mm)
+  --gauge N           Film gauge (mils | µm)
+  --rate N            Production rate (lbs/hr | kg/h)
+  --line ID|FILE      line-1, line-2 or a line profile .json file
+  --objective NAME    Solve for ${Object.keys(SETPOINT_OBJECTIVES).join(', ')}
+  --die N             Die diameter to run when no line is given (in | mm)
+
+diagnose
+  --defect NAME       Repeat or comma-separate for defects seen together
+  --material NAME     Resin family (or --grade ID)
+  --melt-temp N       Current settings; omitted ones default from the material
+  --die-temp N
+  --metering-temp N
+  --screw-speed N     RPM
+  --line-speed N      ft/min | m/min
+
+batch
+  Columns: job, material, grade, od, layflat, gauge, rate, line, objective, die
+
+serve
+  --port N            Default 8080
+  --host ADDR         Default 127.0.0.1; 0.0.0.0 to take calls from other machines
+  --cors ORIGIN       Let a browser app at ORIGIN call the API
+
+Common
+  --format table|json   JSON is the versioned exchange document (csv also for batch)
+  --units imperial|metric   Units for values given and printed; JSON stays imperial
+  --help`;
+
+const COMMON: ParseArgsConfig['options'] = {
+  format: { type: 'string', default: 'table' },
+  units: { type: 'string', default: 'imperial' },
+  help: { type: 'boolean', short: 'h' },
+};
+
+const OPTIMIZE: ParseArgsConfig['options'] = {
+  material: { type: 'string' },
+  grade: { type: 'string' },
+  od: { type: 'string' },
+  layflat: { type: 'string' },
+  gauge: { type: 'string' },
+  rate: { type: 'string' },
+  line: { type: 'string' },
+  objective: { type: 'string' },
+  die: { type: 'string' },
+};
+
+const SERVE: ParseArgsConfig['options'] = {
+  port: { type: 'string', default: '8080' },
+  host: { type: 'string', default: '127.0.0.1' },
+  cors: { type: 'string' },
+};
+
+const DIAGNOSE: ParseArgsConfig['options'] = {
+  material: { type: 'string' },
+  grade: { type: 'string' },
+  defect: { type: 'string', multiple: true },
+  'melt-temp': { type: 'string' },
+  'screw-speed': { type: 'string' },
+  'line-speed': { type: 'string' },
+  'die-temp': { type: 'string' },
+  'metering-temp': { type: 'string' },
+};
+
+function parse(args: string[], options: ParseArgsConfig['options']) {
+  try {
+    return parseArgs({ args, options: { ...COMMON, ...options }, allowPositionals: true });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+function unitSystem(values: OptionValues): UnitSystem {
+  if (values.units === 'imperial' || values.units === 'metric') return values.units;
+  throw new UsageError(`--units must be imperial or metric, got "${values.units}"`);
+}
+
+function outputFormat<T extends string>(values: OptionValues, allowed: T[]): T {
+  if (allowed.includes(values.format as T)) return values.format as T;
+  throw new UsageError(`--format must be ${allowed.join(' or ')}, got "${values.format}"`);
+}
+
+// Runs one command and returns its exit code
+function run(argv: string[]): number {
+  const [command, ...args] = argv;
+
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (command === 'optimize') {
+    const { values } = parse(args, OPTIMIZE);
+    if (values.help) return run(['help']);
+    const format = outputFormat(values, ['table', 'json']);
+    const system = unitSystem(values);
+    const inputs = optimizeInputsFromOptions(values, system);
+    const result = optimizeParameters(inputs);
+    console.log(
+      format === 'json'
+        ? exchangeToJson(createOptimizeExchange(inputs, result))
+        : formatOptimizeReport(inputs, result, system)
+    );
+    return 0;
+  }
+
+  if (command === 'diagnose') {
+    const { values } = parse(args, DIAGNOSE);
+    if (values.help) return run(['help']);
+    const format = outputFormat(values, ['table', 'json']);
+    const system = unitSystem(values);
+    const inputs = diagnoseInputsFromOptions(values, system);
+    const result = diagnoseDefects(inputs);
+    console.log(
+      format === 'json' ? exchangeToJson(createDiagnoseExchange(inputs, result)) : formatDiagnoseReport(result, system)
+    );
+    return 0;
+  }
+
+  if (command === 'batch') {
+    const { values, positionals } = parse(args, {});
+    if (values.help) return run(['help']);
+    if (positionals.length !== 1) throw new UsageError('batch takes one CSV file');
+    const format = outputFormat(values, ['table', 'json', 'csv']);
+    const system = unitSystem(values);
+    const jobs = runBatch(readBatch(positionals[0]), system);
+    console.log(formatBatch(jobs, format, system));
+    const failed = jobs.filter((job) => job.errors.length > 0);
+    failed.forEach((job) => job.errors.forEach((error) => console.error(`${job.job}: ${describeError(error)}`)));
+    return failed.length > 0 ? 1 : 0;
+  }
+
+  if (command === 'materials') {
+    const { values } = parse(args, {});
+    const materials = listMaterials();
+    if (outputFormat(values, ['table', 'json']) === 'json') {
+      console.log(JSON.stringify(materials, null, 2));
+    } else {
+      const rows = materials.flatMap((item) => [
+        [item.material, item.name, String(item.meltIndex)],
+        ...item.grades.map((grade) => [`  ${grade.id}`, grade.name, String(grade.meltIndex)]),
+      ]);
+      console.log(formatTable(['Material / grade', 'Name', 'MI'], rows).join('\n'));
+    }
+    return 0;
+  }
+
+  if (command === 'defects') {
+    const { values } = parse(args, {});
+    const defects = listDefects();
+    if (outputFormat(values, ['table', 'json']) === 'json') {
+      console.log(JSON.stringify(defects, null, 2));
+    } else {
+      console.log(formatTable(['Defect', 'Name'], defects.map((item) => [item.defect, item.name])).join('\n'));
+    }
+    return 0;
+  }
+
+  // Keeps running until stopped; the exit code only matters if it cannot listen
+  if (command === 'serve') {
+    const { values } = parse(args, SERVE);
+    if (values.help) return run(['help']);
+    const port = Number(values.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) throw new UsageError(`--port must be 0-65535, got "${values.port}"`);
+    const host = values.host as string;
+    const server = createApiServer({ cors: values.cors as string | undefined, log: (line) => console.log(line) });
+    server.on('error', (error) => {
+      console.error(`parameterpath: cannot serve on ${host}:${port}: ${error.message}`);
+      process.exitCode = 1;
+    });
+    server.listen(port, host, () => console.log(`ParameterPath API on http://${host}:${port} - description at /openapi.json`));
+    process.once('SIGTERM', () => server.close());
+    return 0;
+  }
+
+  throw new UsageError(`Unknown command "${command}"`);
+}
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof InputError) {
+    error.errors.forEach((item) => console.error(`parameterpath: ${describeError(item)}`));
+    process.exitCode = 1;
+  } else if (error instanceof UsageError) {
+    console.error(`parameterpath: ${error.message}\nRun 'parameterpath help' for usage.`);
+    process.exitCode = 2;
+  } else {
+    throw error;
+  }
+}
@@ -0,0 +1,165 @@
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { DiagnoseResult, MultiDiagnoseResult, RecommendedSettings, SchemaError } from '../src/engine';
+import type { MaterialListing } from './catalog';
+import { createApiServer } from './server';
+
+interface ErrorBody {
+  error: { code: string; message: string; details?: SchemaError[] };
+}
+
+const JOB = { material: 'LDPE', targetOD: 20, targetGauge: 1.5, productionRate: 200 };
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = createApiServer({ cors: 'http://dashboard.local' });
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.close();
+  await once(server, 'close');
+});
+
+async function read<T>(response: Response): Promise<T> {
+  return (await response.json()) as T;
+}
+
+function post(path: string, body: string) {
+  return fetch(`${base}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+}
+
+async function expectError(response: Response, status: number, code: string) {
+  expect(response.status).toBe(status);
+  const { error } = await read<ErrorBody>(response);
+  expect(error.code).toBe(code);
+  expect(error.message).toEqual(expect.any(String));
+  return error;
+}
+
+describe('API server', () => {
+  it('answers an optimize request with the recommended settings', async () => {
+    const response = await post('/optimize', JSON.stringify(JOB));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('http://dashboard.local');
+    const settings = await read<RecommendedSettings>(response);
+    expect(settings.barrelTemps.die).toEqual(expect.any(Number));
+    expect(settings.meltPressure.target).toBeGreaterThan(0);
+  });
+
+  it('diagnoses one defect or several seen together', async () => {
+    const current = { meltTemp: 410, screwSpeed: 60, lineSpeed: 100, dieTemp: 410 };
+    const single = await post('/diagnose', JSON.stringify({ material: 'LDPE', currentSettings: current, defect: 'gels' }));
+    expect(single.status).toBe(200);
+    expect((await read<DiagnoseResult>(single)).causes.length).toBeGreaterThan(0);
+
+    const body = { material: 'LDPE', currentSettings: current, defects: ['gels', 'die_lines'] };
+    const multi = await post('/diagnose', JSON.stringify(body));
+    expect(multi.status).toBe(200);
+    expect((await read<MultiDiagnoseResult>(multi)).defects).toHaveLength(2);
+  });
+
+  it('serves the catalog and its own description', async () => {
+    const materials = await read<MaterialListing[]>(await fetch(`${base}/materials`));
+    expect(materials.map((item) => item.material)).toContain('HDPE');
+    const document = await read<{ openapi: string; components: { schemas: Record<string, unknown> } }>(
+      await fetch(`${base}/openapi.json/`)
+    );
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.components.schemas.optimizeInputs).toBeDefined();
+  });
+
+  it('answers HEAD on GET routes without a body', async () => {
+    const response = await fetch(`${base}/defects`, { method: 'HEAD' });
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('');
+  });
+
+  it('rejects a body that is not JSON with 400', async () => {
+    const error = await expectError(await post('/optimize', '{"material": '), 400, 'invalid_json');
+    expect(error.message).toMatch(/^Body is not valid JSON/);
+  });
+
+  it('rejects an empty body with 400', async () => {
+    await expectError(await post('/optimize', ''), 400, 'invalid_json');
+  });
+
+  it('answers an unknown path with 404', async () => {
+    await expectError(await fetch(`${base}/recipes`), 404, 'not_found');
+  });
+
+  it('answers the wrong method with 405 and the allowed one', async () => {
+    const response = await fetch(`${base}/optimize`);
+    await expectError(response, 405, 'method_not_allowed');
+    expect(response.headers.get('allow')).toBe('POST');
+  });
+
+  it('rejects a body over the size limit with 413', async () => {
+    const body = JSON.stringify({ ...JOB, padding: 'x'.repeat(1024 * 1024) });
+    await expectError(await post('/optimize', body), 413, 'payload_too_large');
+  });
+
+  it('rejects inputs outside the schema with 400 and one detail per value', async () => {
+    const body = JSON.stringify({ ...JOB, targetGauge: 0, material: 'PVC' });
+    const error = await expectError(await post('/optimize', body), 400, 'invalid_input');
+    expect(error.details?.map((detail) => detail.path).sort()).toEqual(['material', 'targetGauge']);
+  });
+
+  it('rejects a die diameter, zone temperatures and air temperature outside their process bands', async () => {
+    const body = JSON.stringify({
+      ...JOB,
+      dieDiameter: 0.001,
+      barrelTemps: { feed: -500, die: 5000 },
+      cooling: { airTemp: -400 },
+    });
+    const error = await expectError(await post('/optimize', body), 400, 'invalid_input');
+    expect(error.details).toEqual([
+      { path: 'dieDiameter', message: 'must be at least 1' },
+      { path: 'barrelTemps.feed', message: 'must be at least 100' },
+      { path: 'barrelTemps.die', message: 'must be at most 600' },
+      { path: 'cooling.airTemp', message: 'must be at least 0' },
+    ]);
+  });
+
+  it('rejects a die the target OD cannot be blown from', async () => {
+    const body = JSON.stringify({ ...JOB, targetOD: 30, dieDiameter: 2 });
+    const error = await expectError(await post('/optimize', body), 400, 'invalid_input');
+    expect(error.details).toEqual([{ path: 'dieDiameter', message: 'gives BUR 15 on the 30" OD - must be 1-6' }]);
+  });
+
+  it('runs a die diameter inside the BUR window', async () => {
+    const response = await post('/optimize', JSON.stringify({ ...JOB, targetOD: 30, dieDiameter: 10 }));
+    expect(response.status).toBe(200);
+    const result = await read<{ dieDiameter: number; blowUpRatio: number }>(response);
+    expect(result.dieDiameter).toBe(10);
+    expect(result.blowUpRatio).toBe(3);
+  });
+
+  it('rejects a grade from another family than the material', async () => {
+    const body = JSON.stringify({ ...JOB, material: 'HDPE', grade: 'evoh-32' });
+    const error = await expectError(await post('/optimize', body), 400, 'invalid_input');
+    expect(error.details?.map((detail) => detail.path)).toEqual(['grade']);
+  });
+
+  it('rejects diagnose settings outside the process band', async () => {
+    const body = JSON.stringify({
+      material: 'LDPE',
+      defect: 'gels',
+      currentSettings: { meltTemp: 5000, screwSpeed: 60, lineSpeed: 100, dieTemp: 410 },
+    });
+    const error = await expectError(await post('/diagnose', body), 400, 'invalid_input');
+    expect(error.details).toEqual([{ path: 'currentSettings.meltTemp', message: 'must be at most 600' }]);
+  });
+
+  it('answers a CORS preflight', async () => {
+    const response = await fetch(`${base}/optimize`, { method: 'OPTIONS' });
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-methods')).toBe('POST, OPTIONS');
+  });
+});
@@ -0,0 +1,137 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { DiagnoseInputs, MultiDiagnoseInputs, OptimizeInputs, SchemaError } from '../src/engine';
+import {
+  diagnoseDefect,
+  diagnoseDefects,
+  optimizeParameters,
+  validateDiagnoseInputs,
+  validateOptimizeInputs,
+} from '../src/engine';
+import { listDefects, listMaterials } from './catalog';
+import type { ApiErrorCode } from './openapi';
+import { API_ERRORS, buildOpenApiDocument } from './openapi';
+
+// Self-hosted JSON API over node:http - nothing to install and nothing fetched
+// at runtime, so it runs on a plant-floor box with no internet. Bodies are
+// checked against the exchange schemas before the engine sees them; every
+// failure comes back as { error: { code, message, details? } }.
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface ApiServerOptions {
+  cors?: string; // origin allowed to call from a browser, e.g. the dashboard's
+  log?: (line: string) => void;
+}
+
+// Rejected request - answered with its code's status and the error body
+class ApiError extends Error {
+  code: ApiErrorCode;
+  details?: SchemaError[];
+
+  constructor(code: ApiErrorCode, message: string, details?: SchemaError[]) {
+    super(message);
+    this.code = code;
+    this.details = details;
+  }
+}
+
+interface Route {
+  method: 'GET' | 'POST';
+  handle: (body: unknown) => unknown;
+}
+
+function validated<T>(body: unknown, errors: SchemaError[]): T {
+  if (errors.length > 0) throw new ApiError('invalid_input', 'Inputs do not match the schema - see details', errors);
+  return body as T;
+}
+
+function buildRoutes(): Record<string, Route> {
+  const openApi = buildOpenApiDocument();
+  const materials = listMaterials();
+  const defects = listDefects();
+
+  return {
+    '/optimize': {
+      method: 'POST',
+      handle: (body) => optimizeParameters(validated<OptimizeInputs>(body, validateOptimizeInputs(body))),
+    },
+    // One defect gets the single-defect result, several the correlated one
+    '/diagnose': {
+      method: 'POST',
+      handle: (body) => {
+        const inputs = validated<DiagnoseInputs | MultiDiagnoseInputs>(body, validateDiagnoseInputs(body));
+        return 'defects' in inputs ? diagnoseDefects(inputs) : diagnoseDefect(inputs);
+      },
+    },
+    '/materials': { method: 'GET', handle: () => materials },
+    '/defects': { method: 'GET', handle: () => defects },
+    '/openapi.json': { method: 'GET', handle: () => openApi },
+  };
+}
+
+// The body is read as JSON whatever Content-Type the client sent
+async function readJson(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new ApiError('payload_too_large', `Body is over ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text.trim()) throw new ApiError('invalid_json', 'Request body is empty');
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ApiError('invalid_json', `Body is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+function send(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  response.end(JSON.stringify(body, null, 2));
+}
+
+export function createApiServer({ cors, log = () => {} }: ApiServerOptions = {}): Server {
+  const routes = buildRoutes();
+  const corsHeaders: Record<string, string> = cors
+    ? { 'Access-Control-Allow-Origin': cors, 'Access-Control-Allow-Headers': 'Content-Type', Vary: 'Origin' }
+    : {};
+
+  return createServer(async (request, response) => {
+    const started = Date.now();
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+    const route = routes[path];
+    let status = 200;
+
+    try {
+      if (!route) throw new ApiError('not_found', `No endpoint at ${path} - see /openapi.json`);
+      if (request.method === 'OPTIONS' && cors) {
+        status = 204;
+        response.writeHead(status, { ...corsHeaders, 'Access-Control-Allow-Methods': `${route.method}, OPTIONS` });
+        response.end();
+        return;
+      }
+      if (request.method !== route.method && !(route.method === 'GET' && request.method === 'HEAD')) {
+        throw new ApiError('method_not_allowed', `${path} takes ${route.method}`);
+      }
+      const body = route.method === 'POST' ? await readJson(request) : undefined;
+      send(response, status, route.handle(body), corsHeaders);
+    } catch (error) {
+      const apiError =
+        error instanceof ApiError ? error : new ApiError('internal_error', `Engine failed: ${(error as Error).message}`);
+      status = API_ERRORS[apiError.code];
+      const headers = apiError.code === 'method_not_allowed' && route ? { ...corsHeaders, Allow: route.method } : corsHeaders;
+      send(
+        response,
+        status,
+        { error: { code: apiError.code, message: apiError.message, details: apiError.details } },
+        headers
+      );
+    } finally {
+      log(`${request.method} ${path} ${status} ${Date.now() - started}ms`);
+    }
+  });
+}
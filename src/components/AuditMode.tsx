@@ -0,0 +1,278 @@
+import { useState } from 'react';
+import type { MaterialType, Quantity, RecipeAuditInputs, RecipeAuditResult, RecipeSetpoints } from '../engine';
+import { getFilmMaterials, getMaterial, getGradesForMaterial, auditRecipe } from '../engine';
+import { useEquipmentProfiles } from '../hooks/useEquipmentProfiles';
+import { useUnits } from '../hooks/useUnits';
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+type ScalarSetpoint = Exclude<keyof RecipeSetpoints, 'barrelTemps'>;
+
+// Field, label, and the quantity to convert for metric display
+const SETPOINT_FIELDS: [ScalarSetpoint, string, Quantity | null][] = [
+  ['screwSpeed', 'Screw Speed (RPM)', null],
+  ['lineSpeed', 'Line Speed', 'speed'],
+  ['meltPressure', 'Melt Pressure', 'pressure'],
+  ['blowUpRatio', 'Blow-Up Ratio', null],
+  ['frostLineHeight', 'Frost Line Height', 'length'],
+];
+
+export function AuditMode() {
+  const [inputs, setInputs] = useState<RecipeAuditInputs>({
+    material: 'LDPE',
+    targetOD: 20,
+    targetGauge: 1.5,
+    productionRate: 200,
+    recipe: {
+      barrelTemps: { feed: 305, compression: 350, metering: 390, die: 405 },
+      screwSpeed: 45,
+      lineSpeed: 90,
+      meltPressure: 3200,
+      blowUpRatio: 2.5,
+      frostLineHeight: 24,
+    },
+  });
+  const [results, setResults] = useState<RecipeAuditResult | null>(null);
+
+  const { profiles } = useEquipmentProfiles();
+  const [profileId, setProfileId] = useState('');
+  const units = useUnits();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const equipment = profiles.find((p) => p.id === profileId);
+    setResults(auditRecipe({ ...inputs, equipment }));
+  };
+
+  const updateInput = <K extends keyof RecipeAuditInputs>(field: K, value: RecipeAuditInputs[K]) => {
+    setInputs((prev) => ({ ...prev, [field]: value }));
+    setResults(null);
+  };
+
+  const updateZone = (zone: keyof RecipeSetpoints['barrelTemps'], value: number) => {
+    setInputs((prev) => ({
+      ...prev,
+      recipe: { ...prev.recipe, barrelTemps: { ...prev.recipe.barrelTemps, [zone]: value } },
+    }));
+    setResults(null);
+  };
+
+  const updateSetpoint = (field: ScalarSetpoint, value: number) => {
+    setInputs((prev) => ({ ...prev, recipe: { ...prev.recipe, [field]: value } }));
+    setResults(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-slate-800 mb-4">Job Targets</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Material</label>
+            <select
+              value={inputs.material}
+              onChange={(e) => {
+                setInputs((prev) => ({ ...prev, material: e.target.value as MaterialType, grade: undefined }));
+                setResults(null);
+              }}
+              className={`${inputClass} bg-white`}
+            >
+              {getFilmMaterials().map((mat) => (
+                <option key={mat} value={mat}>
+                  {mat} - {getMaterial(mat).fullName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Resin Grade</label>
+            <select
+              value={inputs.grade ?? ''}
+              onChange={(e) => updateInput('grade', e.target.value || undefined)}
+              className={`${inputClass} bg-white`}
+            >
+              <option value="">Generic {inputs.material}</option>
+              {getGradesForMaterial(inputs.material).map((grade) => (
+                <option key={grade.id} value={grade.id}>
+                  {grade.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Line Profile</label>
+            <select
+              value={profileId}
+              onChange={(e) => {
+                setProfileId(e.target.value);
+                setResults(null);
+              }}
+              className={`${inputClass} bg-white`}
+            >
+              <option value="">Generic line (standard die and screw)</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Target OD ({units.label('length')})</label>
+            <input
+              type="number"
+              value={units.input(inputs.targetOD, 'length')}
+              onChange={(e) => updateInput('targetOD', units.parse(parseFloat(e.target.value) || 0, 'length'))}
+              step="any"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Target Gauge ({units.label('gauge')})</label>
+            <input
+              type="number"
+              value={units.input(inputs.targetGauge, 'gauge')}
+              onChange={(e) => updateInput('targetGauge', units.parse(parseFloat(e.target.value) || 0, 'gauge'))}
+              step="any"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Production Rate ({units.label('massRate')})</label>
+            <input
+              type="number"
+              value={units.input(inputs.productionRate, 'massRate')}
+              onChange={(e) => updateInput('productionRate', units.parse(parseFloat(e.target.value) || 0, 'massRate'))}
+              step="any"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <h3 className="text-md font-medium text-slate-700 mb-3">Recipe Setpoints</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {(['feed', 'compression', 'metering', 'die'] as const).map((zone) => (
+              <div key={zone}>
+                <label className="block text-sm text-slate-600 mb-1 capitalize">{zone} Zone ({units.label('temperature')})
+                </label>
+                <input
+                  type="number"
+                  value={units.input(inputs.recipe.barrelTemps[zone], 'temperature')}
+                  onChange={(e) => updateZone(zone, units.parse(parseFloat(e.target.value) || 0, 'temperature'))}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+            {SETPOINT_FIELDS.map(([field, label, quantity]) => (
+              <div key={field}>
+                <label className="block text-sm text-slate-600 mb-1">
+                  {label}
+                  {quantity && ` (${units.label(quantity)})`}
+                </label>
+                <input
+                  type="number"
+                  value={quantity ? units.input(inputs.recipe[field], quantity) : inputs.recipe[field]}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value) || 0;
+                    updateSetpoint(field, quantity ? units.parse(value, quantity) : value);
+                  }}
+                  step="any"
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          className="mt-6 w-full bg-emerald-600 hover:bg-emerald-700 text-white font-semibold py-3 px-4 rounded-md transition-colors shadow-sm"
+        >
+          Audit Recipe
+        </button>
+      </form>
+
+      {results && <AuditReport results={results} />}
+    </div>
+  );
+}
+
+function AuditReport({ results }: { results: RecipeAuditResult }) {
+  const overallColors = {
+    pass: 'bg-green-100 text-green-800 border-green-200',
+    warn: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+    fail: 'bg-red-100 text-red-800 border-red-200',
+  };
+
+  const statusBadge = {
+    pass: 'bg-green-100 text-green-800',
+    warn: 'bg-yellow-100 text-yellow-800',
+    fail: 'bg-red-100 text-red-800',
+  };
+
+  const overallText = {
+    pass: 'Recipe is within the material window and close to the recommendation',
+    warn: 'Recipe will likely run but some setpoints need a look',
+    fail: 'Recipe has setpoints outside the material window - correct before running',
+  };
+  const units = useUnits();
+
+  return (
+    <div className="space-y-4">
+      <div className={`rounded-lg border p-4 ${overallColors[results.overall]}`}>
+        <div className="flex items-center justify-between">
+          <span className="font-semibold">{overallText[results.overall]}</span>
+          <span className="text-sm">
+            {results.summary.pass} pass, {results.summary.warn} warn, {results.summary.fail} fail
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">Parameter Report</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-2 pr-4">Parameter</th>
+              <th className="py-2 pr-4">Actual</th>
+              <th className="py-2 pr-4">Window</th>
+              <th className="py-2 pr-4">Recommended</th>
+              <th className="py-2 pr-4">Deviation</th>
+              <th className="py-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.checks.map((check) => (
+              <tr key={check.parameter} className="border-b border-slate-100 align-top">
+                <td className="py-2 pr-4 font-medium text-slate-800">{check.parameter}</td>
+                <td className="py-2 pr-4 text-slate-800">
+                  {units.value(check.actual, check.unit)} {units.unit(check.unit)}
+                </td>
+                <td className="py-2 pr-4 text-slate-600">
+                  {units.value(check.window.min, check.unit)}-{units.value(check.window.max, check.unit)}
+                </td>
+                <td className="py-2 pr-4 text-slate-600">
+                  {check.recommended.min === check.recommended.max
+                    ? units.value(check.recommended.target, check.unit)
+                    : `${units.value(check.recommended.min, check.unit)}-${units.value(check.recommended.max, check.unit)}`}
+                </td>
+                <td className="py-2 pr-4 text-slate-600">
+                  {check.deviation > 0 ? '+' : ''}
+                  {units.value(check.deviation, check.unit, true)}
+                </td>
+                <td className="py-2">
+                  <span className={`text-xs font-medium px-2 py-1 rounded-full uppercase ${statusBadge[check.status]}`}>
+                    {check.status}
+                  </span>
+                  <div className="text-xs text-slate-500 mt-1">{units.text(check.message)}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
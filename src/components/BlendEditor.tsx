@@ -0,0 +1,119 @@
+import type { BlendInput, BlendComponent, MaterialType } from '../engine';
+import { getFilmMaterials, getGradesForMaterial } from '../engine';
+
+interface BlendEditorProps {
+  blend: BlendInput;
+  onChange: (blend: BlendInput) => void;
+  accent?: 'blue' | 'red';
+}
+
+const accentClasses = {
+  blue: { focus: 'focus:ring-blue-500 focus:border-blue-500', link: 'text-blue-600 hover:text-blue-800' },
+  red: { focus: 'focus:ring-red-500 focus:border-red-500', link: 'text-red-600 hover:text-red-800' },
+};
+
+export function BlendEditor({ blend, onChange, accent = 'blue' }: BlendEditorProps) {
+  const inputClass = `w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 ${accentClasses[accent].focus}`;
+  const total = blend.components.reduce((sum, c) => sum + c.fraction, 0);
+
+  const updateComponent = (index: number, component: Partial<BlendComponent>) => {
+    onChange({
+      ...blend,
+      components: blend.components.map((c, idx) => (idx === index ? { ...c, ...component } : c)),
+    });
+  };
+
+  const updateAdditive = (field: keyof BlendInput['additives'], value: number) => {
+    onChange({ ...blend, additives: { ...blend.additives, [field]: value } });
+  };
+
+  return (
+    <div className="bg-slate-50 rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-12 gap-2 text-xs font-medium text-slate-500">
+        <div className="col-span-3">Material</div>
+        <div className="col-span-5">Grade</div>
+        <div className="col-span-2">Weight %</div>
+      </div>
+      {blend.components.map((component, idx) => (
+        <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+          <select
+            value={component.material}
+            onChange={(e) => updateComponent(idx, { material: e.target.value as MaterialType, grade: undefined })}
+            className={`col-span-3 bg-white ${inputClass}`}
+          >
+            {getFilmMaterials().map((mat) => (
+              <option key={mat} value={mat}>
+                {mat}
+              </option>
+            ))}
+          </select>
+          <select
+            value={component.grade ?? ''}
+            onChange={(e) => updateComponent(idx, { grade: e.target.value || undefined })}
+            className={`col-span-5 bg-white ${inputClass}`}
+          >
+            <option value="">Generic {component.material}</option>
+            {getGradesForMaterial(component.material).map((grade) => (
+              <option key={grade.id} value={grade.id}>
+                {grade.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={component.fraction}
+            onChange={(e) => updateComponent(idx, { fraction: parseFloat(e.target.value) || 0 })}
+            min={0}
+            max={100}
+            step={5}
+            className={`col-span-2 ${inputClass}`}
+          />
+          <button
+            type="button"
+            onClick={() => onChange({ ...blend, components: blend.components.filter((_, i) => i !== idx) })}
+            disabled={blend.components.length <= 1}
+            className="col-span-2 text-sm text-red-600 hover:text-red-800 disabled:text-slate-300"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => onChange({ ...blend, components: [...blend.components, { material: 'LDPE', fraction: 10 }] })}
+          disabled={blend.components.length >= 5}
+          className={`text-sm font-medium ${accentClasses[accent].link} disabled:text-slate-300`}
+        >
+          + Add resin
+        </button>
+        <span className={`text-sm ${Math.abs(total - 100) > 0.5 ? 'text-red-600' : 'text-slate-500'}`}>
+          Total: {total}% {Math.abs(total - 100) > 0.5 && '(scaled to 100%)'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 pt-2 border-t border-slate-200">
+        {(
+          [
+            ['slip', 'Slip MB (%)'],
+            ['antiblock', 'Antiblock MB (%)'],
+            ['ppa', 'PPA MB (%)'],
+          ] as [keyof BlendInput['additives'], string][]
+        ).map(([field, label]) => (
+          <div key={field}>
+            <label className="block text-sm text-slate-600 mb-1">{label}</label>
+            <input
+              type="number"
+              value={blend.additives[field]}
+              onChange={(e) => updateAdditive(field, parseFloat(e.target.value) || 0)}
+              min={0}
+              max={10}
+              step={0.5}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+import { useState } from 'react';
+import type { MaterialType, CoextrusionInputs, CoextrusionResult, CoexLayer } from '../engine';
+import { getAllMaterials, optimizeCoextrusion, COEX_PRESETS } from '../engine';
+import { useUnits } from '../hooks/useUnits';
+
+export function CoextrusionSetup() {
+  const [inputs, setInputs] = useState<CoextrusionInputs>({
+    layers: COEX_PRESETS[1].layers,
+    targetOD: 20,
+    targetGauge: 2.5,
+    productionRate: 300,
+  });
+
+  const [results, setResults] = useState<CoextrusionResult | null>(null);
+  const units = useUnits();
+
+  const totalPercent = inputs.layers.reduce((sum, layer) => sum + layer.thicknessPercent, 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setResults(optimizeCoextrusion(inputs));
+  };
+
+  const handleInputChange = (field: 'targetOD' | 'targetGauge' | 'productionRate', value: number) => {
+    setInputs((prev) => ({ ...prev, [field]: value }));
+    setResults(null);
+  };
+
+  const updateLayer = (index: number, layer: Partial<CoexLayer>) => {
+    setInputs((prev) => ({
+      ...prev,
+      layers: prev.layers.map((l, idx) => (idx === index ? { ...l, ...layer } : l)),
+    }));
+    setResults(null);
+  };
+
+  const addLayer = () => {
+    setInputs((prev) => ({
+      ...prev,
+      layers: [...prev.layers, { material: 'LLDPE', thicknessPercent: 10 }],
+    }));
+    setResults(null);
+  };
+
+  const removeLayer = (index: number) => {
+    setInputs((prev) => ({ ...prev, layers: prev.layers.filter((_, idx) => idx !== index) }));
+    setResults(null);
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = COEX_PRESETS.find((p) => p.name === name);
+    if (!preset) return;
+    setInputs((prev) => ({ ...prev, layers: preset.layers }));
+    setResults(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-slate-800 mb-4 flex items-center gap-2">
+          <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+          </svg>
+          Coextrusion Structure
+        </h2>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Preset Structure</label>
+          <select
+            defaultValue=""
+            onChange={(e) => applyPreset(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+          >
+            <option value="" disabled>
+              Select a preset...
+            </option>
+            {COEX_PRESETS.map((preset) => (
+              <option key={preset.name} value={preset.name}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-12 gap-2 text-xs font-medium text-slate-500">
+            <div className="col-span-2">Layer</div>
+            <div className="col-span-5">Material</div>
+            <div className="col-span-3">Thickness (%)</div>
+          </div>
+          {inputs.layers.map((layer, idx) => (
+            <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-2 text-sm text-slate-600">
+                {idx === 0 ? 'Outside' : idx === inputs.layers.length - 1 ? 'Inside' : `Layer ${idx + 1}`}
+              </div>
+              <select
+                value={layer.material}
+                onChange={(e) => updateLayer(idx, { material: e.target.value as MaterialType })}
+                className="col-span-5 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+              >
+                {getAllMaterials().map((mat) => (
+                  <option key={mat} value={mat}>
+                    {mat}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={layer.thicknessPercent}
+                onChange={(e) => updateLayer(idx, { thicknessPercent: parseFloat(e.target.value) || 0 })}
+                min={1}
+                max={100}
+                step={1}
+                className="col-span-3 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                type="button"
+                onClick={() => removeLayer(idx)}
+                disabled={inputs.layers.length <= 2}
+                className="col-span-2 text-sm text-red-600 hover:text-red-800 disabled:text-slate-300"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between pt-2">
+            <button
+              type="button"
+              onClick={addLayer}
+              disabled={inputs.layers.length >= 9}
+              className="text-sm font-medium text-blue-600 hover:text-blue-800 disabled:text-slate-300"
+            >
+              + Add layer
+            </button>
+            <span className={`text-sm ${Math.abs(totalPercent - 100) > 0.5 ? 'text-red-600' : 'text-slate-500'}`}>
+              Total: {totalPercent}%
+            </span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              Target OD ({units.label('length')})
+            </label>
+            <input
+              type="number"
+              value={units.input(inputs.targetOD, 'length')}
+              onChange={(e) => handleInputChange('targetOD', units.parse(parseFloat(e.target.value) || 0, 'length'))}
+              min={units.show(1, 'length')}
+              max={units.show(100, 'length')}
+              step="any"
+              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              Total Gauge ({units.label('gauge')})
+            </label>
+            <input
+              type="number"
+              value={units.input(inputs.targetGauge, 'gauge')}
+              onChange={(e) => handleInputChange('targetGauge', units.parse(parseFloat(e.target.value) || 0, 'gauge'))}
+              min={units.show(0.25, 'gauge')}
+              max={units.show(20, 'gauge')}
+              step="any"
+              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              Total Rate ({units.label('massRate')})
+            </label>
+            <input
+              type="number"
+              value={units.input(inputs.productionRate, 'massRate')}
+              onChange={(e) => handleInputChange('productionRate', units.parse(parseFloat(e.target.value) || 0, 'massRate'))}
+              min={units.show(20, 'massRate')}
+              max={units.show(2000, 'massRate')}
+              step="any"
+              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={totalPercent <= 0}
+          className="mt-6 w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-md transition-colors shadow-sm"
+        >
+          Calculate Coextrusion Setup
+        </button>
+      </form>
+
+      {results && <CoextrusionResults results={results} />}
+    </div>
+  );
+}
+
+function StructureWarnings({ warnings }: { warnings: string[] }) {
+  const units = useUnits();
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
+      <h3 className="text-lg font-semibold text-amber-800 mb-3">Structure Warnings</h3>
+      <ul className="space-y-2">
+        {warnings.map((warning, idx) => (
+          <li key={idx} className="flex items-start gap-2 text-amber-900">
+            <span className="text-amber-600 mt-1">•</span>
+            {units.text(warning)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function CoextrusionResults({ results }: { results: CoextrusionResult }) {
+  const units = useUnits();
+  const statusColors = {
+    ok: 'bg-green-100 text-green-800',
+    warning: 'bg-yellow-100 text-yellow-800',
+    fail: 'bg-red-100 text-red-800',
+  };
+
+  // Layers that cannot be run come back with only the reasons
+  const { bubble, dieTemp, lineSpeed } = results;
+  if (!bubble || !dieTemp || !lineSpeed) return <StructureWarnings warnings={results.warnings} />;
+
+  return (
+    <div className="space-y-4">
+      {/* Structure Summary */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">Structure: {results.structure}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Shared Die Temperature</div>
+            <div className="text-xl font-bold text-orange-600">{units.format(dieTemp.recommended, 'temperature')}</div>
+            <div className="text-xs text-slate-500 mt-1">
+              {dieTemp.window
+                ? `Common window: ${units.show(dieTemp.window.min, 'temperature')} - ${units.format(dieTemp.window.max, 'temperature')}`
+                : 'No common window across layers'}
+            </div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Line Speed</div>
+            <div className="text-xl font-bold text-slate-800">{units.format(lineSpeed.recommended, 'speed')}</div>
+            <div className="text-xs text-slate-500 mt-1">
+              Range: {units.show(lineSpeed.min, 'speed')} - {units.show(lineSpeed.max, 'speed')}
+            </div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Blow-Up Ratio</div>
+            <div className="text-xl font-bold text-slate-800">{bubble.blowUpRatio.toFixed(2)}</div>
+            <div className="text-xs text-slate-500 mt-1">Frost line: {units.text(bubble.frostLine.heightRange)}</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Warnings */}
+      {results.warnings.length > 0 && <StructureWarnings warnings={results.warnings} />}
+
+      {/* Per-Extruder Settings */}
+      <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">Extruder Settings by Layer</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-2 pr-4">Layer</th>
+              <th className="py-2 pr-4">Material</th>
+              <th className="py-2 pr-4">Thickness</th>
+              <th className="py-2 pr-4">Rate Share</th>
+              <th className="py-2 pr-4">Feed / Comp / Meter ({units.label('temperature')})</th>
+              <th className="py-2 pr-4">Screw (RPM)</th>
+              <th className="py-2 pr-4">Melt Pressure</th>
+              <th className="py-2 pr-4">Drive</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.extruders.map((extruder) => (
+              <tr key={extruder.layer} className="border-b border-slate-100 text-slate-700">
+                <td className="py-2 pr-4">{extruder.layer}</td>
+                <td className="py-2 pr-4 font-medium">{extruder.material}</td>
+                <td className="py-2 pr-4">
+                  {extruder.thicknessPercent}% ({units.format(extruder.layerGauge, 'gauge')})
+                </td>
+                <td className="py-2 pr-4">
+                  {extruder.rateShare}% ({units.format(extruder.productionRate, 'massRate')})
+                </td>
+                <td className="py-2 pr-4">
+                  {units.show(extruder.barrelTemps.feed, 'temperature')} /{' '}
+                  {units.show(extruder.barrelTemps.compression, 'temperature')} /{' '}
+                  {units.show(extruder.barrelTemps.metering, 'temperature')}
+                </td>
+                <td className="py-2 pr-4">{extruder.screwSpeed.recommended}</td>
+                <td className="py-2 pr-4">{units.format(extruder.meltPressure.target, 'pressure')}</td>
+                <td className="py-2 pr-4">
+                  {units.format(extruder.motorLoad.drivePower, 'power')}{' '}
+                  ({units.format(extruder.motorLoad.specificEnergy, 'specificEnergy')})
+                </td>
+              </tr>
+            ))}
+            {results.unusedLayers.map((unused) => (
+              <tr key={unused.layer} className="border-b border-slate-100 text-slate-500">
+                <td className="py-2 pr-4">{unused.layer}</td>
+                <td className="py-2 pr-4 font-medium">{unused.material}</td>
+                <td className="py-2 pr-4">0%</td>
+                <td className="py-2 pr-4" colSpan={5}>
+                  Not run - a 0% layer carries no melt
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Die Temperature Checks */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">Die Temperature Check by Layer</h3>
+        <ul className="space-y-2">
+          {results.layerChecks.map((check) => (
+            <li key={check.layer} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-slate-700">
+                Layer {check.layer} ({check.material}, {units.show(check.dieRange.min, 'temperature')}-
+                {units.format(check.dieRange.max, 'temperature')}): {units.text(check.message)}
+              </span>
+              <span className={`px-2 py-1 text-xs font-medium rounded-full uppercase ${statusColors[check.status]}`}>
+                {check.status}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Bubble Stability */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">
+          Bubble & Cooling
+          <span className="ml-2 px-2 py-1 text-xs font-medium rounded-full capitalize bg-slate-100 text-slate-700">
+            {bubble.bubbleStability.rating}
+          </span>
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Air Ring Lip Gap</div>
+            <div className="text-sm font-semibold text-slate-800">{units.text(bubble.airRing.lipGap)}</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Cooling Capacity</div>
+            <div className="text-sm font-semibold text-slate-800">{units.text(bubble.airRing.coolingCapacity)}</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">IBC</div>
+            <div className="text-sm font-semibold text-slate-800">{units.text(bubble.ibc.airFlow)}</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import type { ExchangeDocument, ExchangeImport, ExchangeKind } from '../engine';
+import { EXCHANGE_SCHEMAS, EXCHANGE_SCHEMA_VERSION, exchangeToCsv, exchangeToJson, importExchange } from '../engine';
+import { useUnits } from '../hooks/useUnits';
+import { downloadFile } from './download';
+
+interface DataExchangeProps {
+  kind: ExchangeKind;
+  document: ExchangeDocument | null; // current inputs and result, when there is one to export
+  onLoad: (document: ExchangeDocument) => void;
+}
+
+export function DataExchange({ kind, document, onLoad }: DataExchangeProps) {
+  const units = useUnits();
+  const [imported, setImported] = useState<(ExchangeImport & { filename: string }) | null>(null);
+
+  const basename = `parameterpath-${kind}-${new Date().toISOString().slice(0, 10)}`;
+
+  const handleFile = async (file: File) => {
+    setImported({ ...importExchange(await file.text()), filename: file.name });
+  };
+
+  const display = (value: number | string, unit: string) => {
+    if (typeof value === 'string') return units.text(value);
+    return unit ? `${units.value(value, unit)} ${units.unit(unit)}` : `${value}`;
+  };
+
+  const otherKind = imported?.document && imported.document.schema !== `parameterpath.${kind}`;
+  const changed = imported?.comparison.filter((row) => row.changed).length ?? 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-slate-800 mb-1">Data Exchange</h3>
+      <p className="text-sm text-slate-600 mb-4">
+        Hand inputs and results to MES or quality systems as JSON or a field/value CSV (schema v
+        {EXCHANGE_SCHEMA_VERSION}, imperial units), or read a file back and check it against the current rules
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          disabled={!document}
+          onClick={() => document && downloadFile(`${basename}.json`, exchangeToJson(document), 'application/json')}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white text-sm font-semibold py-2 px-4 rounded-md transition-colors"
+        >
+          Export JSON
+        </button>
+        <button
+          type="button"
+          disabled={!document}
+          onClick={() => document && downloadFile(`${basename}.csv`, exchangeToCsv(document), 'text/csv')}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white text-sm font-semibold py-2 px-4 rounded-md transition-colors"
+        >
+          Export CSV
+        </button>
+        <label className="bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-sm font-semibold py-2 px-4 rounded-md cursor-pointer">
+          Import file
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() =>
+            downloadFile(
+              `parameterpath-${kind}.v${EXCHANGE_SCHEMA_VERSION}.schema.json`,
+              JSON.stringify(EXCHANGE_SCHEMAS[kind], null, 2),
+              'application/schema+json'
+            )
+          }
+          className="text-xs text-blue-600 hover:text-blue-800"
+        >
+          Download schema
+        </button>
+      </div>
+      {!document && <p className="text-xs text-slate-500 mt-2">Run the analysis to export its result</p>}
+
+      {imported && (
+        <div className="mt-4 overflow-x-auto">
+          <div className="text-sm font-medium text-slate-700 mb-2">
+            {imported.filename} ({imported.format.toUpperCase()})
+          </div>
+
+          {imported.errors.length > 0 ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm font-semibold text-red-800 mb-2">Does not match the schema</p>
+              <ul className="text-sm text-red-900 space-y-1">
+                {imported.errors.map((error, idx) => (
+                  <li key={idx}>
+                    <span className="font-mono">{error.path || 'file'}</span> {error.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : otherKind ? (
+            <p className="text-sm text-yellow-700">
+              This is a {imported.document!.schema.replace('parameterpath.', '')} file - import it in that mode
+            </p>
+          ) : (
+            <>
+              <p className={`text-sm mb-2 ${imported.matches ? 'text-green-700' : 'text-yellow-700'}`}>
+                {imported.matches
+                  ? 'Valid - the stored result matches the current rules'
+                  : `Valid - ${changed} value${changed === 1 ? '' : 's'} differ from a re-run with the current rules`}
+              </p>
+              <table className="w-full text-sm mb-4">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-4">{kind === 'optimize' ? 'Setpoint' : 'Cause'}</th>
+                    <th className="py-2 pr-4">Stored</th>
+                    <th className="py-2">Current Rules</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {imported.comparison.map((row, idx) => (
+                    <tr key={idx} className={`border-b border-slate-100 ${row.changed ? 'bg-yellow-50' : ''}`}>
+                      <td className="py-2 pr-4">{row.label}</td>
+                      <td className={`py-2 pr-4 ${row.changed ? 'text-slate-500' : ''}`}>
+                        {display(row.stored, row.unit)}
+                      </td>
+                      <td className={`py-2 ${row.changed ? 'font-semibold text-yellow-800' : ''}`}>
+                        {display(row.current, row.unit)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                type="button"
+                onClick={() => onLoad(imported.document!)}
+                className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold py-2 px-4 rounded-md transition-colors"
+              >
+                Load job
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
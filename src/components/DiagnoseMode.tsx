@@ -1,42 +1,116 @@
 import { useState } from 'react';
-import type { MaterialType, DefectType, DiagnoseInputs, DiagnoseResult } from '../engine';
-import { getAllMaterials, getMaterial, getAllDefects, getDefectDisplayName, diagnoseDefect } from '../engine';
+import type {
+  Quantity,
+  MaterialType,
+  BlendInput,
+  DefectType,
+  ExchangeDocument,
+  LineMeasurements,
+  MultiDiagnoseInputs,
+  MultiDiagnoseResult,
+} from '../engine';
+import {
+  getFilmMaterials,
+  getMaterial,
+  getGradesForMaterial,
+  resolveMaterial,
+  getAllDefects,
+  getDefectDisplayName,
+  diagnoseDefects,
+  createDiagnoseExchange,
+  DEFAULT_BLEND,
+} from '../engine';
+import { BlendEditor } from './BlendEditor';
+import { DataExchange } from './DataExchange';
+import { useUnits } from '../hooks/useUnits';
+
+type NumericMeasurement = Exclude<keyof LineMeasurements, 'ibcRunning'>;
+
+// Field, label, and the quantity to convert (or a fixed unit label)
+const MEASUREMENT_FIELDS: [NumericMeasurement, string, Quantity | string][] = [
+  ['meltPressure', 'Melt Pressure', 'pressure'],
+  ['meltPressureSwing', 'Pressure Swing p-p', 'pressure'],
+  ['motorLoad', 'Motor Load', '%'],
+  ['blowUpRatio', 'BUR', ''],
+  ['dieDiameter', 'Die Diameter', 'length'],
+  ['frostLineHeight', 'Frost Line Height', 'length'],
+  ['airRingVariation', 'Air Ring Velocity Spread', '%'],
+  ['nipPressure', 'Nip Pressure', 'pressure'],
+  ['resinMoisture', 'Resin Moisture', '%'],
+  ['ambientHumidity', 'Ambient Humidity', '% RH'],
+];
+
+const CONVERTED_QUANTITIES: string[] = ['pressure', 'length'];
 
 export function DiagnoseMode() {
-  const [inputs, setInputs] = useState<DiagnoseInputs>({
+  const [inputs, setInputs] = useState<MultiDiagnoseInputs>({
     material: 'LDPE',
     currentSettings: {
       meltTemp: 390,
       screwSpeed: 60,
       lineSpeed: 100,
       dieTemp: 400,
+      meteringTemp: 390,
     },
-    defect: 'melt_fracture',
+    defects: ['melt_fracture'],
   });
 
-  const [results, setResults] = useState<DiagnoseResult | null>(null);
+  const [results, setResults] = useState<MultiDiagnoseResult | null>(null);
+  const [showMeasurements, setShowMeasurements] = useState(false);
+  const [showExchange, setShowExchange] = useState(false);
+  const units = useUnits();
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const diagnosis = diagnoseDefect(inputs);
+    const diagnosis = diagnoseDefects(inputs);
     setResults(diagnosis);
   };
 
-  const updateMaterial = (material: MaterialType) => {
-    const matProps = getMaterial(material);
+  // An imported file is re-run with the current rules; a single-defect file becomes a one-item list
+  const handleImport = (document: ExchangeDocument) => {
+    if (document.schema !== 'parameterpath.diagnose') return;
+    const imported = document.inputs;
+    const loaded: MultiDiagnoseInputs = {
+      material: imported.material,
+      grade: imported.grade,
+      blend: imported.blend,
+      currentSettings: imported.currentSettings,
+      measurements: imported.measurements,
+      defects: 'defects' in imported ? imported.defects : [imported.defect],
+    };
+    setInputs(loaded);
+    setShowMeasurements(Boolean(loaded.measurements));
+    setResults(diagnoseDefects(loaded));
+  };
+
+  const updateMaterial = (material: MaterialType, grade?: string, blend?: BlendInput) => {
+    const matProps = resolveMaterial({ material, grade, blend }).properties;
     setInputs((prev) => ({
       ...prev,
       material,
+      grade,
+      blend,
       currentSettings: {
         ...prev.currentSettings,
         meltTemp: matProps.meltTempRange.min + (matProps.meltTempRange.max - matProps.meltTempRange.min) / 2,
         dieTemp: matProps.barrelTemperatures.die.recommended,
+        meteringTemp: matProps.barrelTemperatures.metering.recommended,
       },
     }));
     setResults(null);
   };
 
-  const updateSetting = (field: keyof DiagnoseInputs['currentSettings'], value: number) => {
+  const toggleDefect = (defect: DefectType) => {
+    setInputs((prev) => ({
+      ...prev,
+      defects: prev.defects.includes(defect)
+        ? prev.defects.filter((d) => d !== defect)
+        : [...prev.defects, defect],
+    }));
+    setResults(null);
+  };
+
+  const updateSetting = (field: keyof MultiDiagnoseInputs['currentSettings'], value: number) => {
     setInputs((prev) => ({
       ...prev,
       currentSettings: { ...prev.currentSettings, [field]: value },
@@ -44,6 +118,14 @@ export function DiagnoseMode() {
     setResults(null);
   };
 
+  const updateMeasurement = <K extends keyof LineMeasurements>(field: K, value: LineMeasurements[K]) => {
+    setInputs((prev) => ({
+      ...prev,
+      measurements: { ...prev.measurements, [field]: value },
+    }));
+    setResults(null);
+  };
+
   return (
     <div className="space-y-6">
       <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6">
@@ -55,55 +137,104 @@ export function DiagnoseMode() {
         </h2>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-slate-700 mb-1">
-              Material
+          <div className="md:col-span-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <input
+                type="checkbox"
+                checked={Boolean(inputs.blend)}
+                onChange={(e) =>
+                  updateMaterial(inputs.material, undefined, e.target.checked ? DEFAULT_BLEND : undefined)
+                }
+                className="rounded border-slate-300"
+              />
+              Resin blend (percent mixture with additive masterbatches)
             </label>
-            <select
-              value={inputs.material}
-              onChange={(e) => updateMaterial(e.target.value as MaterialType)}
-              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-red-500 focus:border-red-500 bg-white"
-            >
-              {getAllMaterials().map((mat) => (
-                <option key={mat} value={mat}>
-                  {mat} - {getMaterial(mat).fullName}
-                </option>
-              ))}
-            </select>
           </div>
 
-          <div>
+          {inputs.blend ? (
+            <div className="md:col-span-2">
+              <BlendEditor
+                blend={inputs.blend}
+                accent="red"
+                onChange={(blend) => {
+                  setInputs((prev) => ({ ...prev, blend }));
+                  setResults(null);
+                }}
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Material
+                </label>
+                <select
+                  value={inputs.material}
+                  onChange={(e) => updateMaterial(e.target.value as MaterialType)}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-red-500 focus:border-red-500 bg-white"
+                >
+                  {getFilmMaterials().map((mat) => (
+                    <option key={mat} value={mat}>
+                      {mat} - {getMaterial(mat).fullName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Resin Grade
+                </label>
+                <select
+                  value={inputs.grade ?? ''}
+                  onChange={(e) => updateMaterial(inputs.material, e.target.value || undefined)}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-red-500 focus:border-red-500 bg-white"
+                >
+                  <option value="">Generic {inputs.material}</option>
+                  {getGradesForMaterial(inputs.material).map((grade) => (
+                    <option key={grade.id} value={grade.id}>
+                      {grade.name} ({grade.meltIndex} MI)
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+
+          <div className="md:col-span-2">
             <label className="block text-sm font-medium text-slate-700 mb-1">
-              Observed Defect
+              Observed Defects
             </label>
-            <select
-              value={inputs.defect}
-              onChange={(e) => {
-                setInputs((prev) => ({ ...prev, defect: e.target.value as DefectType }));
-                setResults(null);
-              }}
-              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-red-500 focus:border-red-500 bg-white"
-            >
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
               {getAllDefects().map((defect) => (
-                <option key={defect} value={defect}>
+                <label key={defect} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={inputs.defects.includes(defect)}
+                    onChange={() => toggleDefect(defect)}
+                    className="rounded border-slate-300"
+                  />
                   {getDefectDisplayName(defect)}
-                </option>
+                </label>
               ))}
-            </select>
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              Select every defect you see - causes shared between them are ranked higher
+            </p>
           </div>
         </div>
 
         <div className="mt-6">
           <h3 className="text-md font-medium text-slate-700 mb-3">Current Operating Settings</h3>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
             <div>
               <label className="block text-sm text-slate-600 mb-1">
-                Melt Temp (°F)
+                Melt Temp ({units.label('temperature')})
               </label>
               <input
                 type="number"
-                value={inputs.currentSettings.meltTemp}
-                onChange={(e) => updateSetting('meltTemp', parseFloat(e.target.value) || 0)}
+                value={units.input(inputs.currentSettings.meltTemp, 'temperature')}
+                onChange={(e) => updateSetting('meltTemp', units.parse(parseFloat(e.target.value) || 0, 'temperature'))}
                 className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
               />
             </div>
@@ -120,48 +251,134 @@ export function DiagnoseMode() {
             </div>
             <div>
               <label className="block text-sm text-slate-600 mb-1">
-                Line Speed (ft/min)
+                Line Speed ({units.label('speed')})
+              </label>
+              <input
+                type="number"
+                value={units.input(inputs.currentSettings.lineSpeed, 'speed')}
+                onChange={(e) => updateSetting('lineSpeed', units.parse(parseFloat(e.target.value) || 0, 'speed'))}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">
+                Die Temp ({units.label('temperature')})
               </label>
               <input
                 type="number"
-                value={inputs.currentSettings.lineSpeed}
-                onChange={(e) => updateSetting('lineSpeed', parseFloat(e.target.value) || 0)}
+                value={units.input(inputs.currentSettings.dieTemp, 'temperature')}
+                onChange={(e) => updateSetting('dieTemp', units.parse(parseFloat(e.target.value) || 0, 'temperature'))}
                 className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
               />
             </div>
             <div>
               <label className="block text-sm text-slate-600 mb-1">
-                Die Temp (°F)
+                Metering Zone ({units.label('temperature')})
               </label>
               <input
                 type="number"
-                value={inputs.currentSettings.dieTemp}
-                onChange={(e) => updateSetting('dieTemp', parseFloat(e.target.value) || 0)}
+                value={units.input(inputs.currentSettings.meteringTemp, 'temperature')}
+                onChange={(e) => updateSetting('meteringTemp', units.parse(parseFloat(e.target.value) || 0, 'temperature'))}
                 className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
               />
             </div>
           </div>
         </div>
 
+        <div className="mt-6">
+          <button
+            type="button"
+            onClick={() => setShowMeasurements((prev) => !prev)}
+            className="text-sm font-medium text-red-600 hover:text-red-800"
+          >
+            {showMeasurements ? 'Hide measured line state' : '+ Add measured line state (optional)'}
+          </button>
+          {showMeasurements && (
+            <>
+              <p className="text-xs text-slate-500 mt-1 mb-3">
+                Measured values confirm or rule out causes - leave blank what you have not measured
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {MEASUREMENT_FIELDS.map(([field, label, unit]) => {
+                  const quantity = CONVERTED_QUANTITIES.includes(unit) ? (unit as Quantity) : undefined;
+                  const unitLabel = quantity ? units.label(quantity) : unit;
+                  return (
+                  <div key={field}>
+                    <label className="block text-sm text-slate-600 mb-1">
+                      {label}
+                      {unitLabel && ` (${unitLabel})`}
+                    </label>
+                    <input
+                      type="number"
+                      value={(quantity ? units.input(inputs.measurements?.[field], quantity) : inputs.measurements?.[field]) ?? ''}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        updateMeasurement(
+                          field,
+                          e.target.value === '' ? undefined : quantity ? units.parse(value, quantity) : value
+                        );
+                      }}
+                      step="any"
+                      className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    />
+                  </div>
+                  );
+                })}
+                <div>
+                  <label className="block text-sm text-slate-600 mb-1">IBC</label>
+                  <select
+                    value={inputs.measurements?.ibcRunning === undefined ? '' : String(inputs.measurements.ibcRunning)}
+                    onChange={(e) =>
+                      updateMeasurement('ibcRunning', e.target.value === '' ? undefined : e.target.value === 'true')
+                    }
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-red-500 focus:border-red-500 bg-white"
+                  >
+                    <option value="">Not recorded</option>
+                    <option value="true">Running</option>
+                    <option value="false">Off</option>
+                  </select>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
         <button
           type="submit"
-          className="mt-6 w-full bg-red-600 hover:bg-red-700 text-white font-semibold py-3 px-4 rounded-md transition-colors shadow-sm"
+          disabled={inputs.defects.length === 0}
+          className="mt-6 w-full disabled:bg-slate-400 bg-red-600 hover:bg-red-700 text-white font-semibold py-3 px-4 rounded-md transition-colors shadow-sm"
+        >
+          {inputs.defects.length > 1 ? `Diagnose ${inputs.defects.length} Defects` : 'Diagnose Defect'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowExchange((prev) => !prev)}
+          className="text-xs text-blue-600 hover:text-blue-800 mt-2"
         >
-          Diagnose Defect
+          {showExchange ? 'Hide import / export' : 'Import / export (JSON, CSV)'}
         </button>
       </form>
 
+      {showExchange && (
+        <DataExchange
+          kind="diagnose"
+          document={results ? createDiagnoseExchange(inputs, results) : null}
+          onLoad={handleImport}
+        />
+      )}
+
       {results && <DiagnosisDisplay results={results} />}
     </div>
   );
 }
 
-function DiagnosisDisplay({ results }: { results: DiagnoseResult }) {
+function DiagnosisDisplay({ results }: { results: MultiDiagnoseResult }) {
   const probabilityColors = {
     high: 'border-l-red-500 bg-red-50',
     medium: 'border-l-yellow-500 bg-yellow-50',
     low: 'border-l-slate-400 bg-slate-50',
   };
+  const units = useUnits();
 
   const probabilityBadge = {
     high: 'bg-red-100 text-red-800',
@@ -171,11 +388,13 @@ function DiagnosisDisplay({ results }: { results: DiagnoseResult }) {
 
   return (
     <div className="space-y-4">
-      {/* Defect Description */}
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h3 className="text-xl font-semibold text-slate-800 mb-2">{results.defectName}</h3>
-        <p className="text-slate-600">{results.description}</p>
-      </div>
+      {/* Defect Descriptions */}
+      {results.defects.map((defect) => (
+        <div key={defect.defect} className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-xl font-semibold text-slate-800 mb-2">{defect.defectName}</h3>
+          <p className="text-slate-600">{units.text(defect.description)}</p>
+        </div>
+      ))}
 
       {/* Probable Causes */}
       <div className="bg-white rounded-lg shadow-md p-6">
@@ -194,10 +413,28 @@ function DiagnosisDisplay({ results }: { results: DiagnoseResult }) {
               <div className="flex items-center justify-between mb-2">
                 <h4 className="font-semibold text-slate-800">{cause.cause}</h4>
                 <span className={`text-xs font-medium px-2 py-1 rounded-full ${probabilityBadge[cause.probability]}`}>
-                  {cause.probability.toUpperCase()} probability
+                  {Math.round(cause.score * 100)}% - {cause.probability.toUpperCase()}
                 </span>
               </div>
-              <p className="text-sm text-slate-600 mb-3">{cause.explanation}</p>
+              {results.defects.length > 1 && (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  <span className="text-xs text-slate-500">Explains:</span>
+                  {cause.explainsDefects.map((defect) => (
+                    <span key={defect} className="text-xs px-2 py-0.5 rounded-full bg-white border border-slate-300 text-slate-700">
+                      {getDefectDisplayName(defect)}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <p className="text-sm text-slate-600 mb-3">{units.text(cause.explanation)}</p>
+              <div className="text-xs text-slate-600 mb-3">
+                <div>Prior {Math.round(cause.prior * 100)}% → score {Math.round(cause.score * 100)}%</div>
+                {cause.evidence.map((item) => (
+                  <div key={item.signal} className={item.observed ? 'text-slate-800' : 'text-slate-500'}>
+                    {item.observed ? '▲' : '▼'} {units.text(item.detail)} (×{item.ratio})
+                  </div>
+                ))}
+              </div>
               <div className="bg-white bg-opacity-50 rounded-md p-3">
                 <h5 className="text-sm font-medium text-slate-700 mb-2">Recommended Adjustments:</h5>
                 <ul className="space-y-1">
@@ -206,7 +443,19 @@ function DiagnosisDisplay({ results }: { results: DiagnoseResult }) {
                       <svg className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                       </svg>
-                      {adj}
+                      <span>
+                        {units.text(adj.text)}
+                        {adj.setpoint && (
+                          <span className="ml-2 inline-block text-xs font-medium px-2 py-0.5 rounded-full bg-white border border-slate-300 text-slate-800">
+                            {adj.setpoint.label} {units.value(adj.setpoint.current, adj.setpoint.unit)} →{' '}
+                            {units.value(adj.setpoint.target.min, adj.setpoint.unit)}-
+                            {units.value(adj.setpoint.target.max, adj.setpoint.unit)}
+                            {adj.setpoint.unit.startsWith('°') ? '' : ' '}
+                            {units.unit(adj.setpoint.unit)}
+                            {adj.change && `, settle ${adj.change.settlingMinutes} min`}
+                          </span>
+                        )}
+                      </span>
                     </li>
                   ))}
                 </ul>
@@ -228,7 +477,7 @@ function DiagnosisDisplay({ results }: { results: DiagnoseResult }) {
           {results.generalRecommendations.map((rec, idx) => (
             <li key={idx} className="flex items-start gap-2 text-green-900">
               <span className="text-green-600 mt-1">•</span>
-              {rec}
+              {units.text(rec)}
             </li>
           ))}
         </ul>
@@ -0,0 +1,66 @@
+import type { DieInventoryItem } from '../engine';
+import { useUnits } from '../hooks/useUnits';
+
+interface DieInventoryEditorProps {
+  dies: DieInventoryItem[];
+  onSave: (die: DieInventoryItem) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export function DieInventoryEditor({ dies, onSave, onDelete }: DieInventoryEditorProps) {
+  const units = useUnits();
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-slate-800 mb-4">Die Inventory</h3>
+      <div className="space-y-2">
+        <div className="grid grid-cols-12 gap-2 text-xs font-medium text-slate-500">
+          <div className="col-span-5">Name</div>
+          <div className="col-span-3">Diameter ({units.label('length')})</div>
+          <div className="col-span-3">Gap ({units.label('dieGap')})</div>
+        </div>
+        {dies.map((die) => (
+          <div key={die.id} className="grid grid-cols-12 gap-2 items-center">
+            <input
+              type="text"
+              value={die.name}
+              onChange={(e) => onSave({ ...die, name: e.target.value })}
+              className={`col-span-5 ${inputClass}`}
+            />
+            <input
+              type="number"
+              value={units.input(die.diameter, 'length')}
+              onChange={(e) => onSave({ ...die, diameter: units.parse(parseFloat(e.target.value) || 0, 'length') })}
+              step="any"
+              className={`col-span-3 ${inputClass}`}
+            />
+            <input
+              type="number"
+              value={units.input(die.gap, 'dieGap')}
+              onChange={(e) => onSave({ ...die, gap: units.parse(parseFloat(e.target.value) || 0, 'dieGap') })}
+              step="any"
+              className={`col-span-3 ${inputClass}`}
+            />
+            <button
+              type="button"
+              onClick={() => onDelete(die.id)}
+              className="col-span-1 text-sm text-red-600 hover:text-red-800"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onSave({ id: `die-${Date.now()}`, name: 'New die', diameter: 6, gap: 40 })}
+        className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-800"
+      >
+        + Add die
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import { useState } from 'react';
+import type { AirRingType, EquipmentProfile } from '../engine';
+import {
+  AIR_RING_TYPES,
+  DEFAULT_LAND_LENGTH,
+  DEFAULT_MOTOR_VOLTAGE,
+  estimateSpecificOutput,
+  getDefaultAdapter,
+} from '../engine';
+import { useUnits } from '../hooks/useUnits';
+
+interface EquipmentProfileEditorProps {
+  profiles: EquipmentProfile[];
+  onSave: (profile: EquipmentProfile) => void;
+  onDelete: (id: string) => void;
+}
+
+function createBlankProfile(): EquipmentProfile {
+  const screwDiameter = 2.5;
+  const specificOutput = estimateSpecificOutput(screwDiameter);
+  return {
+    id: `line-${Date.now()}`,
+    name: 'New line',
+    extruder: {
+      screwDiameter,
+      lengthToDiameter: 24,
+      specificOutput: [
+        { rpm: 20, lbsPerHrPerRpm: specificOutput },
+        { rpm: 100, lbsPerHrPerRpm: specificOutput },
+      ],
+      maxRPM: 100,
+      motorHP: 40,
+    },
+    die: { diameter: 6, gap: 40 },
+    airRing: 'single-lip',
+  };
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export function EquipmentProfileEditor({ profiles, onSave, onDelete }: EquipmentProfileEditorProps) {
+  const [draft, setDraft] = useState<EquipmentProfile | null>(null);
+  const units = useUnits();
+
+  const updateExtruder = (field: keyof Omit<EquipmentProfile['extruder'], 'specificOutput'>, value: number) => {
+    setDraft((prev) => prev && { ...prev, extruder: { ...prev.extruder, [field]: value } });
+  };
+
+  const updateDie = (field: keyof EquipmentProfile['die'], value: number) => {
+    setDraft((prev) => prev && { ...prev, die: { ...prev.die, [field]: value } });
+  };
+
+  const updateAdapter = (field: keyof NonNullable<EquipmentProfile['adapter']>, value: number) => {
+    setDraft(
+      (prev) =>
+        prev && {
+          ...prev,
+          adapter: { ...(prev.adapter ?? getDefaultAdapter(prev.extruder.screwDiameter)), [field]: value },
+        }
+    );
+  };
+
+  const updateCurvePoint = (index: number, field: 'rpm' | 'lbsPerHrPerRpm', value: number) => {
+    setDraft(
+      (prev) =>
+        prev && {
+          ...prev,
+          extruder: {
+            ...prev.extruder,
+            specificOutput: prev.extruder.specificOutput.map((point, idx) =>
+              idx === index ? { ...point, [field]: value } : point
+            ),
+          },
+        }
+    );
+  };
+
+  const addCurvePoint = () => {
+    setDraft(
+      (prev) =>
+        prev && {
+          ...prev,
+          extruder: {
+            ...prev.extruder,
+            specificOutput: [
+              ...prev.extruder.specificOutput,
+              { rpm: prev.extruder.maxRPM, lbsPerHrPerRpm: estimateSpecificOutput(prev.extruder.screwDiameter) },
+            ],
+          },
+        }
+    );
+  };
+
+  const removeCurvePoint = (index: number) => {
+    setDraft(
+      (prev) =>
+        prev && {
+          ...prev,
+          extruder: {
+            ...prev.extruder,
+            specificOutput: prev.extruder.specificOutput.filter((_, idx) => idx !== index),
+          },
+        }
+    );
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    onSave(draft);
+    setDraft(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-slate-800 mb-4">Line Equipment Profiles</h3>
+
+      <ul className="space-y-2 mb-4">
+        {profiles.map((profile) => (
+          <li key={profile.id} className="flex items-center justify-between bg-slate-50 rounded-md px-4 py-2">
+            <div>
+              <div className="font-medium text-slate-800">{profile.name}</div>
+              <div className="text-xs text-slate-500">
+                {units.format(profile.extruder.screwDiameter, 'length')} {profile.extruder.lengthToDiameter}:1,{' '}
+                {profile.extruder.maxRPM} RPM, {units.format(profile.extruder.motorHP, 'power')} -{' '}
+                {units.format(profile.die.diameter, 'length')} die, {units.format(profile.die.gap, 'dieGap')} gap -{' '}
+                {AIR_RING_TYPES[profile.airRing].name}
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <button type="button" onClick={() => setDraft(profile)} className="text-sm text-blue-600 hover:text-blue-800">
+                Edit
+              </button>
+              <button type="button" onClick={() => onDelete(profile.id)} className="text-sm text-red-600 hover:text-red-800">
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {!draft && (
+        <button
+          type="button"
+          onClick={() => setDraft(createBlankProfile())}
+          className="text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          + New profile
+        </button>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSave} className="border-t border-slate-200 pt-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Profile Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Screw Diameter ({units.label('length')})</label>
+              <input
+                type="number"
+                value={units.input(draft.extruder.screwDiameter, 'length')}
+                onChange={(e) => updateExtruder('screwDiameter', units.parse(parseFloat(e.target.value) || 0, 'length'))}
+                step="any"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">L/D Ratio</label>
+              <input
+                type="number"
+                value={draft.extruder.lengthToDiameter}
+                onChange={(e) => updateExtruder('lengthToDiameter', parseFloat(e.target.value) || 0)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Max Screw Speed (RPM)</label>
+              <input
+                type="number"
+                value={draft.extruder.maxRPM}
+                onChange={(e) => updateExtruder('maxRPM', parseFloat(e.target.value) || 0)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Motor ({units.label('power')})</label>
+              <input
+                type="number"
+                value={units.input(draft.extruder.motorHP, 'power')}
+                onChange={(e) => updateExtruder('motorHP', units.parse(parseFloat(e.target.value) || 0, 'power'))}
+                step="any"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Motor Voltage (V)</label>
+              <input
+                type="number"
+                value={draft.extruder.motorVoltage ?? DEFAULT_MOTOR_VOLTAGE}
+                onChange={(e) => updateExtruder('motorVoltage', parseFloat(e.target.value) || 0)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Die Diameter ({units.label('length')})</label>
+              <input
+                type="number"
+                value={units.input(draft.die.diameter, 'length')}
+                onChange={(e) => updateDie('diameter', units.parse(parseFloat(e.target.value) || 0, 'length'))}
+                step="any"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Die Gap ({units.label('dieGap')})</label>
+              <input
+                type="number"
+                value={units.input(draft.die.gap, 'dieGap')}
+                onChange={(e) => updateDie('gap', units.parse(parseFloat(e.target.value) || 0, 'dieGap'))}
+                step="any"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Die Land Length ({units.label('length')})</label>
+              <input
+                type="number"
+                value={units.input(draft.die.landLength ?? DEFAULT_LAND_LENGTH, 'length')}
+                onChange={(e) => updateDie('landLength', units.parse(parseFloat(e.target.value) || 0, 'length'))}
+                step="any"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Adapter Bore ({units.label('length')})</label>
+              <input
+                type="number"
+                value={units.input((draft.adapter ?? getDefaultAdapter(draft.extruder.screwDiameter)).diameter, 'length')}
+                onChange={(e) => updateAdapter('diameter', units.parse(parseFloat(e.target.value) || 0, 'length'))}
+                step="any"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Adapter Length ({units.label('length')})</label>
+              <input
+                type="number"
+                value={units.input((draft.adapter ?? getDefaultAdapter(draft.extruder.screwDiameter)).length, 'length')}
+                onChange={(e) => updateAdapter('length', units.parse(parseFloat(e.target.value) || 0, 'length'))}
+                step="any"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Air Ring</label>
+              <select
+                value={draft.airRing}
+                onChange={(e) => setDraft({ ...draft, airRing: e.target.value as AirRingType })}
+                className={`${inputClass} bg-white`}
+              >
+                {(Object.keys(AIR_RING_TYPES) as AirRingType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {AIR_RING_TYPES[type].name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-medium text-slate-700 mb-2">Specific Output Curve</div>
+            <div className="space-y-2">
+              {draft.extruder.specificOutput.map((point, idx) => (
+                <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    type="number"
+                    value={point.rpm}
+                    onChange={(e) => updateCurvePoint(idx, 'rpm', parseFloat(e.target.value) || 0)}
+                    className={`col-span-4 ${inputClass}`}
+                  />
+                  <span className="col-span-1 text-sm text-slate-500">RPM</span>
+                  <input
+                    type="number"
+                    value={units.input(point.lbsPerHrPerRpm, 'specificOutput')}
+                    onChange={(e) =>
+                      updateCurvePoint(idx, 'lbsPerHrPerRpm', units.parse(parseFloat(e.target.value) || 0, 'specificOutput'))
+                    }
+                    step="any"
+                    className={`col-span-4 ${inputClass}`}
+                  />
+                  <span className="col-span-2 text-sm text-slate-500">{units.label('specificOutput')}</span>
+                  <button
+                    type="button"
+                    onClick={() => removeCurvePoint(idx)}
+                    disabled={draft.extruder.specificOutput.length <= 1}
+                    className="col-span-1 text-sm text-red-600 hover:text-red-800 disabled:text-slate-300"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={addCurvePoint}
+              className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              + Add point
+            </button>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-md transition-colors shadow-sm"
+            >
+              Save Profile
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="text-slate-600 hover:text-slate-800 py-2 px-4"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import type { FilmSpec } from '../engine';
+import { useUnits } from '../hooks/useUnits';
+
+type SizeBy = 'od' | FilmSpec['type'];
+
+interface FilmSpecEditorProps {
+  targetOD: number;
+  filmSpec?: FilmSpec;
+  onTargetODChange: (od: number) => void;
+  onFilmSpecChange: (spec: FilmSpec | undefined) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const SIZE_BY_OPTIONS: [SizeBy, string][] = [
+  ['od', 'Bubble OD'],
+  ['layflat', 'Layflat width'],
+  ['gusseted', 'Gusseted tube'],
+  ['sheet', 'Slit sheet'],
+];
+
+// Starting spec when switching to a spec type, matched to the current OD where it can be
+function createSpec(type: FilmSpec['type'], targetOD: number): FilmSpec {
+  switch (type) {
+    case 'layflat':
+      return { type, layflatWidth: Math.round((Math.PI * targetOD) / 2) };
+    case 'gusseted':
+      return { type, faceWidth: 18, gussetDepth: 6 };
+    case 'sheet':
+      return { type, sheetWidth: 40, sheets: 2, edgeTrim: 1 };
+  }
+}
+
+export function FilmSpecEditor({ targetOD, filmSpec, onTargetODChange, onFilmSpecChange }: FilmSpecEditorProps) {
+  const units = useUnits();
+  const sizeBy: SizeBy = filmSpec ? filmSpec.type : 'od';
+
+  const lengthInput = (label: string, value: number, onChange: (value: number) => void, hint?: string) => (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-1">
+        {label} ({units.label('length')})
+      </label>
+      <input
+        type="number"
+        value={units.input(value, 'length')}
+        onChange={(e) => onChange(units.parse(parseFloat(e.target.value) || 0, 'length'))}
+        min={0}
+        step="any"
+        className={inputClass}
+      />
+      {hint && <p className="text-xs text-slate-500 mt-1">{hint}</p>}
+    </div>
+  );
+
+  return (
+    <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Size From</label>
+        <select
+          value={sizeBy}
+          onChange={(e) => {
+            const value = e.target.value as SizeBy;
+            onFilmSpecChange(value === 'od' ? undefined : createSpec(value, targetOD));
+          }}
+          className={`${inputClass} bg-white`}
+        >
+          {SIZE_BY_OPTIONS.map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-slate-500 mt-1">
+          {filmSpec ? 'Bubble OD and die are worked back from the spec' : 'Bubble diameter'}
+        </p>
+      </div>
+
+      {!filmSpec && lengthInput('Target OD', targetOD, onTargetODChange)}
+
+      {filmSpec?.type === 'layflat' &&
+        lengthInput('Layflat Width', filmSpec.layflatWidth, (layflatWidth) =>
+          onFilmSpecChange({ ...filmSpec, layflatWidth })
+        )}
+
+      {filmSpec?.type === 'gusseted' && (
+        <>
+          {lengthInput('Face Width', filmSpec.faceWidth, (faceWidth) => onFilmSpecChange({ ...filmSpec, faceWidth }))}
+          {lengthInput(
+            'Gusset Depth',
+            filmSpec.gussetDepth,
+            (gussetDepth) => onFilmSpecChange({ ...filmSpec, gussetDepth }),
+            'Full open width of one gusset'
+          )}
+        </>
+      )}
+
+      {filmSpec?.type === 'sheet' && (
+        <>
+          {lengthInput('Sheet Width', filmSpec.sheetWidth, (sheetWidth) => onFilmSpecChange({ ...filmSpec, sheetWidth }))}
+          {lengthInput(
+            'Edge Trim',
+            filmSpec.edgeTrim,
+            (edgeTrim) => onFilmSpecChange({ ...filmSpec, edgeTrim }),
+            'Trimmed off each sheet edge'
+          )}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Sheets per Tube</label>
+            <select
+              value={filmSpec.sheets}
+              onChange={(e) => onFilmSpecChange({ ...filmSpec, sheets: e.target.value === '1' ? 1 : 2 })}
+              className={`${inputClass} bg-white`}
+            >
+              <option value={2}>2 - both folds slit</option>
+              <option value={1}>1 - one fold slit, opened flat</option>
+            </select>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import type { FilmTargets } from '../engine';
+
+interface FilmTargetsEditorProps {
+  targets: FilmTargets;
+  onChange: (targets: FilmTargets) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export function FilmTargetsEditor({ targets, onChange }: FilmTargetsEditorProps) {
+  // Blank fields drop the target
+  const numberInput = (label: string, field: 'minDart' | 'maxHaze' | 'maxCOF', placeholder: string, step: string) => (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+      <input
+        type="number"
+        value={targets[field] ?? ''}
+        onChange={(e) =>
+          onChange({ ...targets, [field]: e.target.value === '' ? undefined : parseFloat(e.target.value) })
+        }
+        placeholder={placeholder}
+        min={0}
+        step={step}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-50 rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {numberInput('Minimum Dart (g)', 'minDart', 'No target', '10')}
+        {numberInput('Maximum Haze (%)', 'maxHaze', 'No target', '0.5')}
+        {numberInput('Maximum COF', 'maxCOF', 'No target', '0.05')}
+        <div className="flex items-end pb-2">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+            <input
+              type="checkbox"
+              checked={targets.balancedTear ?? false}
+              onChange={(e) => onChange({ ...targets, balancedTear: e.target.checked || undefined })}
+              className="rounded border-slate-300"
+            />
+            Balanced MD/TD tear
+          </label>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        Die, die temperature and air ring flow are searched within the material windows to meet the targets
+      </p>
+    </div>
+  );
+}
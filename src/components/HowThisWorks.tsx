@@ -68,9 +68,10 @@ export function HowThisWorks() {
           <div className="border-l-4 border-blue-500 pl-4">
             <h4 className="font-medium text-slate-800">Material Database</h4>
             <p className="text-sm text-slate-600">
-              Processing windows for HDPE, LDPE, LLDPE, and EVOH based on published data from
+              Processing windows for HDPE, LDPE, LLDPE, EVOH and tie resins based on published data from
               resin manufacturers and plastics engineering references. Includes temperature ranges,
-              pressure limits, and material-specific considerations.
+              pressure limits, and material-specific considerations. A grade catalog shifts each
+              family window by melt index, so fractional-melt grades run hotter and at higher pressure.
             </p>
           </div>
 
@@ -80,14 +81,25 @@ export function HowThisWorks() {
               Parameters are calculated using fundamental relationships: output rate vs. screw speed
               (specific output), dimensional requirements (blow-up ratio, layflat), and thermal requirements
               (melt pressure, cooling capacity). These relationships are well-established in extrusion science.
+              Frost line height comes from a heat balance on the bubble: the melt cools by convection to the
+              air ring (and IBC) until it reaches the resin's crystallization temperature, which also sets the
+              highest rate the air ring can cool. Melt pressure and die shear come from a Carreau viscosity per
+              material, shifted to the melt temperature, applied to the adapter and die geometry; melt fracture
+              risk compares the wall shear stress in the die gap with the stress at which shark skin sets in.
+              Film properties follow from the draw: drawdown stretches the melt MD and BUR stretches it TD,
+              and the orientation left when it freezes at the frost line sets the tear balance, dart and haze.
             </p>
           </div>
 
           <div className="border-l-4 border-red-500 pl-4">
             <h4 className="font-medium text-slate-800">Defect-Cause Matrix</h4>
             <p className="text-sm text-slate-600">
-              A comprehensive troubleshooting database mapping defects to their most likely causes,
-              ranked by probability. Each cause includes specific corrective actions based on
+              A comprehensive troubleshooting database mapping defects to their most likely causes.
+              Each cause carries a prior weight and likelihood ratios tied to process variables
+              (melt and die temperature, screw speed, resin grade, additive levels, and any measured
+              line state such as melt pressure, motor load, BUR, frost line, air ring spread and moisture); your current
+              settings update the priors with Bayes' rule into a normalized score, and the evidence
+              behind each score is listed. Each cause includes specific corrective actions based on
               process engineering principles and industry experience.
             </p>
           </div>
@@ -98,7 +110,7 @@ export function HowThisWorks() {
           <ul className="text-sm text-amber-800 space-y-2">
             <li>• Recommendations are starting points - always verify with your specific equipment</li>
             <li>• Actual optimal settings depend on screw design, die geometry, and other equipment specifics</li>
-            <li>• Material grades within the same polymer family may have different processing requirements</li>
+            <li>• Grade catalog values are typical data-sheet figures - check the supplier sheet for your lot</li>
             <li>• This tool does not replace the judgment of an experienced process engineer</li>
             <li>• Always follow your facility's safety procedures when adjusting parameters</li>
           </ul>
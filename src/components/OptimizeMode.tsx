@@ -1,8 +1,48 @@
 import { useState } from 'react';
-import type { MaterialType, OptimizeInputs, RecommendedSettings } from '../engine';
-import { getAllMaterials, getMaterial, optimizeParameters } from '../engine';
+import type {
+  CoolingSetup,
+  EquipmentProfile,
+  ExchangeDocument,
+  MaterialType,
+  OptimizeInputs,
+  RecipeOverrides,
+  RecipeVersion,
+  RecommendedSettings,
+  SavedRecipe,
+  SensitivityReport,
+  SetpointObjective,
+} from '../engine';
+import {
+  getFilmMaterials,
+  getMaterial,
+  getGradesForMaterial,
+  getGrade,
+  getMaterialLabel,
+  optimizeParameters,
+  analyzeSensitivity,
+  createOptimizeExchange,
+  DEFAULT_BLEND,
+  SETPOINT_OBJECTIVES,
+} from '../engine';
+import { CoextrusionSetup } from './CoextrusionSetup';
+import { EquipmentProfileEditor } from './EquipmentProfileEditor';
+import { BlendEditor } from './BlendEditor';
+import { FilmSpecEditor } from './FilmSpecEditor';
+import { DieInventoryEditor } from './DieInventoryEditor';
+import { FilmTargetsEditor } from './FilmTargetsEditor';
+import { SensitivityTornado } from './SensitivityTornado';
+import { RecipeManager } from './RecipeManager';
+import { SetupSheetExport } from './SetupSheetExport';
+import { DataExchange } from './DataExchange';
+import { useEquipmentProfiles } from '../hooks/useEquipmentProfiles';
+import { useDieInventory } from '../hooks/useDieInventory';
+import { useRecipes } from '../hooks/useRecipes';
+import { useUnits } from '../hooks/useUnits';
+
+type Structure = 'monolayer' | 'coextrusion';
 
 export function OptimizeMode() {
+  const [structure, setStructure] = useState<Structure>('monolayer');
   const [inputs, setInputs] = useState<OptimizeInputs>({
     material: 'LDPE',
     targetOD: 20,
@@ -11,20 +51,107 @@ export function OptimizeMode() {
   });
 
   const [results, setResults] = useState<RecommendedSettings | null>(null);
+  const [sensitivity, setSensitivity] = useState<SensitivityReport | null>(null);
+
+  const { profiles, saveProfile, deleteProfile } = useEquipmentProfiles();
+  const units = useUnits();
+  const [profileId, setProfileId] = useState('');
+  const [jobProfile, setJobProfile] = useState<EquipmentProfile | undefined>(); // a loaded job's line, not saved
+  const [showProfiles, setShowProfiles] = useState(false);
+  const { dies, saveDie, deleteDie } = useDieInventory();
+  const [chooseDie, setChooseDie] = useState(false);
+  const [showInventory, setShowInventory] = useState(false);
+  const { recipes, saveRecipe, deleteRecipe } = useRecipes();
+  const [showRecipes, setShowRecipes] = useState(false);
+  const [lastJob, setLastJob] = useState<OptimizeInputs | null>(null); // inputs behind the shown results
+  const [loadedRecipe, setLoadedRecipe] = useState<{ name: string; version: RecipeVersion } | undefined>();
+  const [showExchange, setShowExchange] = useState(false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const optimized = optimizeParameters(inputs);
-    setResults(optimized);
+    const equipment = jobProfile?.id === profileId ? jobProfile : profiles.find((p) => p.id === profileId);
+    const jobInputs = { ...inputs, equipment, dieInventory: chooseDie ? dies : undefined };
+    setResults(optimizeParameters(jobInputs));
+    setSensitivity(analyzeSensitivity(jobInputs));
+    setLastJob(jobInputs);
+  };
+
+  const handleSaveRecipe = (name: string, overrides: RecipeOverrides, notes: string) => {
+    if (!results || !lastJob) return;
+    saveRecipe(name, { inputs: lastJob, settings: results, overrides, notes });
+  };
+
+  // Put a job's inputs back in the form and show the settings it was stored with. Its line
+  // profile runs with the job but is not added to the saved profiles; sensitivity waits
+  // for the job to be run again.
+  const restoreJob = (jobInputs: OptimizeInputs, settings: RecommendedSettings) => {
+    const { equipment, dieInventory } = jobInputs;
+    setInputs({ ...jobInputs, equipment: undefined, dieInventory: undefined });
+    setJobProfile(equipment);
+    setProfileId(equipment?.id ?? '');
+    setChooseDie(Boolean(dieInventory));
+    setResults(settings);
+    setSensitivity(null);
+    setLastJob(jobInputs);
   };
 
-  const handleInputChange = (field: keyof OptimizeInputs, value: string | number) => {
+  // A saved version shows the recommendation it was saved with
+  const handleLoadRecipe = (recipe: SavedRecipe, version: RecipeVersion) => {
+    restoreJob(version.inputs, version.settings);
+    setLoadedRecipe({ name: recipe.name, version });
+  };
+
+  // An imported file shows its stored result; the import panel compares it with the current rules
+  const handleImport = (document: ExchangeDocument) => {
+    if (document.schema !== 'parameterpath.optimize') return;
+    restoreJob(document.inputs, document.result);
+    setLoadedRecipe(undefined);
+  };
+
+  const handleInputChange = <K extends keyof OptimizeInputs>(field: K, value: OptimizeInputs[K]) => {
     setInputs((prev) => ({ ...prev, [field]: value }));
     setResults(null);
   };
 
+  const handleCoolingChange = <K extends keyof CoolingSetup>(field: K, value: CoolingSetup[K]) => {
+    setInputs((prev) => ({ ...prev, cooling: { ...prev.cooling, [field]: value } }));
+    setResults(null);
+  };
+
+  const handleMaterialChange = (material: MaterialType) => {
+    setInputs((prev) => ({ ...prev, material, grade: undefined }));
+    setResults(null);
+  };
+
+  const structureToggle = (
+    <div className="bg-white rounded-lg shadow-sm p-1 inline-flex">
+      {(['monolayer', 'coextrusion'] as Structure[]).map((option) => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => setStructure(option)}
+          className={`px-4 py-2 rounded-md text-sm font-medium capitalize transition-all ${
+            structure === option ? 'bg-blue-600 text-white shadow-sm' : 'text-slate-600 hover:bg-slate-100'
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (structure === 'coextrusion') {
+    return (
+      <div className="space-y-6">
+        {structureToggle}
+        <CoextrusionSetup />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
+      {structureToggle}
       <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6">
         <h2 className="text-xl font-semibold text-slate-800 mb-4 flex items-center gap-2">
           <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -35,69 +162,249 @@ export function OptimizeMode() {
         </h2>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-slate-700 mb-1">
-              Material
+          <div className="md:col-span-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <input
+                type="checkbox"
+                checked={Boolean(inputs.blend)}
+                onChange={(e) => handleInputChange('blend', e.target.checked ? DEFAULT_BLEND : undefined)}
+                className="rounded border-slate-300"
+              />
+              Resin blend (percent mixture with additive masterbatches)
             </label>
-            <select
-              value={inputs.material}
-              onChange={(e) => handleInputChange('material', e.target.value as MaterialType)}
-              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
-            >
-              {getAllMaterials().map((mat) => (
-                <option key={mat} value={mat}>
-                  {mat} - {getMaterial(mat).fullName}
-                </option>
-              ))}
-            </select>
           </div>
 
+          {inputs.blend ? (
+            <div className="md:col-span-2">
+              <BlendEditor blend={inputs.blend} onChange={(blend) => handleInputChange('blend', blend)} />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Material
+                </label>
+                <select
+                  value={inputs.material}
+                  onChange={(e) => handleMaterialChange(e.target.value as MaterialType)}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                >
+                  {getFilmMaterials().map((mat) => (
+                    <option key={mat} value={mat}>
+                      {mat} - {getMaterial(mat).fullName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Resin Grade
+                </label>
+                <select
+                  value={inputs.grade ?? ''}
+                  onChange={(e) => handleInputChange('grade', e.target.value || undefined)}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                >
+                  <option value="">Generic {inputs.material} ({getMaterial(inputs.material).meltIndex} MI)</option>
+                  {getGradesForMaterial(inputs.material).map((grade) => (
+                    <option key={grade.id} value={grade.id}>
+                      {grade.name} ({grade.meltIndex} MI, {grade.density} g/cc)
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500 mt-1">
+                  {inputs.grade ? getGrade(inputs.grade)?.comonomer : 'Family-typical processing window'}
+                </p>
+              </div>
+            </>
+          )}
+
+          <FilmSpecEditor
+            targetOD={inputs.targetOD}
+            filmSpec={inputs.filmSpec}
+            onTargetODChange={(od) => handleInputChange('targetOD', od)}
+            onFilmSpecChange={(spec) => handleInputChange('filmSpec', spec)}
+          />
+
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-1">
-              Target OD (inches)
+              Target Gauge ({units.label('gauge')})
             </label>
             <input
               type="number"
-              value={inputs.targetOD}
-              onChange={(e) => handleInputChange('targetOD', parseFloat(e.target.value) || 0)}
-              min={1}
-              max={100}
-              step={0.5}
+              value={units.input(inputs.targetGauge, 'gauge')}
+              onChange={(e) => handleInputChange('targetGauge', units.parse(parseFloat(e.target.value) || 0, 'gauge'))}
+              min={units.show(0.25, 'gauge')}
+              max={units.show(20, 'gauge')}
+              step="any"
               className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             />
-            <p className="text-xs text-slate-500 mt-1">Bubble diameter</p>
+            <p className="text-xs text-slate-500 mt-1">
+              {units.system === 'metric' ? 'Film thickness' : 'Film thickness (1 mil = 0.001")'}
+            </p>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-1">
-              Target Gauge (mils)
+              Line Profile
             </label>
-            <input
-              type="number"
-              value={inputs.targetGauge}
-              onChange={(e) => handleInputChange('targetGauge', parseFloat(e.target.value) || 0)}
-              min={0.25}
-              max={20}
-              step={0.25}
-              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            />
-            <p className="text-xs text-slate-500 mt-1">Film thickness (1 mil = 0.001")</p>
+            <select
+              value={profileId}
+              onChange={(e) => {
+                setProfileId(e.target.value);
+                setResults(null);
+              }}
+              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              <option value="">Generic line (standard die and screw)</option>
+              {jobProfile && <option value={jobProfile.id}>{jobProfile.name} (from the loaded job)</option>}
+              {profiles
+                .filter((profile) => profile.id !== jobProfile?.id)
+                .map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setShowProfiles((prev) => !prev)}
+              className="text-xs text-blue-600 hover:text-blue-800 mt-1"
+            >
+              {showProfiles ? 'Hide profile manager' : 'Manage line profiles'}
+            </button>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-1">
-              Production Rate (lbs/hr)
+              Production Rate ({units.label('massRate')})
             </label>
             <input
               type="number"
-              value={inputs.productionRate}
-              onChange={(e) => handleInputChange('productionRate', parseFloat(e.target.value) || 0)}
-              min={20}
-              max={1000}
-              step={10}
+              value={units.input(inputs.productionRate, 'massRate')}
+              onChange={(e) => handleInputChange('productionRate', units.parse(parseFloat(e.target.value) || 0, 'massRate'))}
+              min={units.show(20, 'massRate')}
+              max={units.show(1000, 'massRate')}
+              step="any"
               className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             />
           </div>
+
+          <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Air Ring Flow ({units.label('airFlow')})
+              </label>
+              <input
+                type="number"
+                value={units.input(inputs.cooling?.airFlow, 'airFlow') ?? ''}
+                onChange={(e) =>
+                  handleCoolingChange(
+                    'airFlow',
+                    e.target.value === '' ? undefined : units.parse(parseFloat(e.target.value), 'airFlow')
+                  )
+                }
+                placeholder="Typical for air ring"
+                step="any"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Cooling Air Temp ({units.label('temperature')})
+              </label>
+              <input
+                type="number"
+                value={units.input(inputs.cooling?.airTemp, 'temperature') ?? ''}
+                onChange={(e) =>
+                  handleCoolingChange(
+                    'airTemp',
+                    e.target.value === '' ? undefined : units.parse(parseFloat(e.target.value), 'temperature')
+                  )
+                }
+                placeholder={`${units.show(70, 'temperature')} (ambient)`}
+                step="any"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">IBC</label>
+              <select
+                value={inputs.cooling?.ibc === undefined ? '' : String(inputs.cooling.ibc)}
+                onChange={(e) => handleCoolingChange('ibc', e.target.value === '' ? undefined : e.target.value === 'true')}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+              >
+                <option value="">Per air ring type</option>
+                <option value="true">Running</option>
+                <option value="false">Off</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <input
+                type="checkbox"
+                checked={chooseDie}
+                onChange={(e) => {
+                  setChooseDie(e.target.checked);
+                  setResults(null);
+                }}
+                className="rounded border-slate-300"
+              />
+              Choose the die from the plant's die inventory ({dies.length} dies)
+            </label>
+            <button
+              type="button"
+              onClick={() => setShowInventory((prev) => !prev)}
+              className="text-xs text-blue-600 hover:text-blue-800 mt-1"
+            >
+              {showInventory ? 'Hide die inventory' : 'Manage die inventory'}
+            </button>
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <input
+                type="checkbox"
+                checked={Boolean(inputs.filmTargets)}
+                onChange={(e) => handleInputChange('filmTargets', e.target.checked ? {} : undefined)}
+                className="rounded border-slate-300"
+              />
+              Film property targets (dart, haze, tear balance, COF)
+            </label>
+          </div>
+
+          {inputs.filmTargets && (
+            <div className="md:col-span-2">
+              <FilmTargetsEditor
+                targets={inputs.filmTargets}
+                onChange={(targets) => handleInputChange('filmTargets', targets)}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Setpoint Optimization</label>
+            <select
+              value={inputs.objective ?? ''}
+              onChange={(e) => handleInputChange('objective', (e.target.value || undefined) as SetpointObjective | undefined)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+            >
+              <option value="">Rule-based settings</option>
+              {(Object.keys(SETPOINT_OBJECTIVES) as SetpointObjective[]).map((objective) => (
+                <option key={objective} value={objective}>
+                  {SETPOINT_OBJECTIVES[objective].name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">
+              {inputs.objective
+                ? 'Solves for rate, die, die temperature and air flow within the material and line limits'
+                : 'One pass through the processing rules'}
+            </p>
+          </div>
         </div>
 
         <button
@@ -106,20 +413,117 @@ export function OptimizeMode() {
         >
           Calculate Optimal Parameters
         </button>
+        <button
+          type="button"
+          onClick={() => setShowRecipes((prev) => !prev)}
+          className="text-xs text-blue-600 hover:text-blue-800 mt-2"
+        >
+          {showRecipes ? 'Hide saved recipes' : `Saved recipes (${recipes.length})`}
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowExchange((prev) => !prev)}
+          className="text-xs text-blue-600 hover:text-blue-800 mt-2 ml-4"
+        >
+          {showExchange ? 'Hide import / export' : 'Import / export (JSON, CSV)'}
+        </button>
       </form>
 
-      {results && <ResultsDisplay results={results} material={inputs.material} />}
+      {showProfiles && (
+        <EquipmentProfileEditor
+          profiles={profiles}
+          onSave={(profile) => {
+            saveProfile(profile);
+            setResults(null);
+          }}
+          onDelete={(id) => {
+            deleteProfile(id);
+            if (id === profileId) setProfileId('');
+            setResults(null);
+          }}
+        />
+      )}
+
+      {showInventory && (
+        <DieInventoryEditor
+          dies={dies}
+          onSave={(die) => {
+            saveDie(die);
+            setResults(null);
+          }}
+          onDelete={(id) => {
+            deleteDie(id);
+            setResults(null);
+          }}
+        />
+      )}
+
+      {showRecipes && (
+        <RecipeManager
+          key={loadedRecipe ? `${loadedRecipe.name}:${loadedRecipe.version.version}` : 'new'}
+          recipes={recipes}
+          results={results}
+          loaded={loadedRecipe}
+          onSave={handleSaveRecipe}
+          onLoad={handleLoadRecipe}
+          onDelete={deleteRecipe}
+        />
+      )}
+
+      {showExchange && (
+        <DataExchange
+          kind="optimize"
+          document={results && lastJob ? createOptimizeExchange(lastJob, results) : null}
+          onLoad={handleImport}
+        />
+      )}
+
+      {results && (
+        <ResultsDisplay results={results} materialLabel={getMaterialLabel(lastJob ?? inputs)} />
+      )}
+
+      {results && lastJob && (
+        <SetupSheetExport
+          key={lastJob.equipment?.id ?? 'generic'}
+          results={results}
+          inputs={lastJob}
+          materialLabel={getMaterialLabel(lastJob ?? inputs)}
+        />
+      )}
+
+      {results && sensitivity && <SensitivityTornado report={sensitivity} />}
     </div>
   );
 }
 
-function ResultsDisplay({ results, material }: { results: RecommendedSettings; material: MaterialType }) {
+function ResultsDisplay({ results, materialLabel }: { results: RecommendedSettings; materialLabel: string }) {
+  const units = useUnits();
   const confidenceColors = {
     high: 'bg-green-100 text-green-800 border-green-200',
     medium: 'bg-yellow-100 text-yellow-800 border-yellow-200',
     low: 'bg-red-100 text-red-800 border-red-200',
   };
 
+  const shearRiskColors = {
+    low: 'text-green-700',
+    moderate: 'text-yellow-700',
+    high: 'text-red-700',
+  };
+
+  // Solver objective in the chosen units: output, energy per mass, score or scrap %
+  const formatObjective = (value: number, unit: string) => {
+    if (unit === 'lbs/hr') return units.format(value, 'massRate');
+    if (unit === 'kWh/lb') return units.format(value, 'specificEnergy');
+    return unit === 'score' ? `${value} / 100` : `${value}%`;
+  };
+
+  const clarityColors = {
+    high: 'text-green-700',
+    good: 'text-green-700',
+    fair: 'text-yellow-700',
+    poor: 'text-red-700',
+  };
+
   return (
     <div className="space-y-4">
       {/* Confidence Indicator */}
@@ -130,19 +534,39 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
         </div>
       </div>
 
+      {/* Equipment Limits */}
+      {results.equipmentWarnings.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-red-800 mb-3 flex items-center gap-2">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+            </svg>
+            Equipment Limits
+          </h3>
+          <ul className="space-y-2">
+            {results.equipmentWarnings.map((warning, idx) => (
+              <li key={idx} className="flex items-start gap-2 text-red-900">
+                <span className="text-red-600 mt-1">•</span>
+                {units.text(warning)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Barrel Temperatures */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
           <svg className="w-5 h-5 text-orange-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 18.657A8 8 0 016.343 7.343S7 9 9 10c0-2 .5-5 2.986-7C14 5 16.09 5.777 17.656 7.343A7.975 7.975 0 0120 13a7.975 7.975 0 01-2.343 5.657z" />
           </svg>
-          Barrel Zone Temperatures (°F)
+          Barrel Zone Temperatures ({units.label('temperature')})
         </h3>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           {Object.entries(results.barrelTemps).map(([zone, temp]) => (
             <div key={zone} className="bg-slate-50 rounded-lg p-4 text-center">
               <div className="text-sm text-slate-600 capitalize">{zone}</div>
-              <div className="text-2xl font-bold text-orange-600">{temp}°</div>
+              <div className="text-2xl font-bold text-orange-600">{units.show(temp, 'temperature')}°</div>
             </div>
           ))}
         </div>
@@ -159,13 +583,13 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
           />
           <ParameterCard
             label="Line Speed"
-            value={`${results.lineSpeed.recommended} ft/min`}
-            range={`${results.lineSpeed.min} - ${results.lineSpeed.max}`}
+            value={units.format(results.lineSpeed.recommended, 'speed')}
+            range={`${units.show(results.lineSpeed.min, 'speed')} - ${units.show(results.lineSpeed.max, 'speed')}`}
           />
           <ParameterCard
             label="Melt Pressure Target"
-            value={`${results.meltPressure.target} PSI`}
-            range={`${results.meltPressure.min} - ${results.meltPressure.max}`}
+            value={units.format(results.meltPressure.target, 'pressure')}
+            range={`${units.show(results.meltPressure.min, 'pressure')} - ${units.show(results.meltPressure.max, 'pressure')}`}
           />
           <ParameterCard
             label="Blow-Up Ratio"
@@ -175,6 +599,370 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
         </div>
       </div>
 
+      {/* Die Shear */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">Die Shear &amp; Melt Fracture</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Die Gap</div>
+            <div className="text-lg font-semibold text-slate-800">{units.format(results.dieShear.dieGap, 'dieGap')}</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Wall Shear Rate</div>
+            <div className="text-lg font-semibold text-slate-800">{results.dieShear.wallShearRate} 1/s</div>
+            <div className="text-xs text-slate-500">
+              Apparent {results.dieShear.apparentShearRate} 1/s, viscosity {results.dieShear.viscosity} Pa·s at{' '}
+              {units.format(results.dieShear.meltTemp, 'temperature')}
+            </div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Wall Shear Stress</div>
+            <div className={`text-lg font-semibold ${shearRiskColors[results.dieShear.risk]}`}>
+              {units.format(results.dieShear.wallShearStress, 'pressure')}
+            </div>
+            <div className="text-xs text-slate-500 capitalize">{results.dieShear.risk} melt fracture risk</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Melt Fracture Onset</div>
+            <div className="text-lg font-semibold text-slate-800">
+              {units.format(results.dieShear.criticalShearStress, 'pressure')}
+            </div>
+            <div className="text-xs text-slate-500">Stress ratio {results.dieShear.stressRatio.toFixed(2)}</div>
+          </div>
+        </div>
+        <p className="text-xs text-slate-500 mt-3">
+          Head pressure drops: screen pack {units.format(results.meltPressure.drops.screenPack, 'pressure')}, adapter{' '}
+          {units.format(results.meltPressure.drops.adapter, 'pressure')}, die body{' '}
+          {units.format(results.meltPressure.drops.dieBody, 'pressure')}, lip land{' '}
+          {units.format(results.meltPressure.drops.dieLand, 'pressure')}
+        </p>
+        {results.dieShear.warning && (
+          <p className={`text-sm mt-4 ${shearRiskColors[results.dieShear.risk]}`}>{units.text(results.dieShear.warning)}</p>
+        )}
+      </div>
+
+      {/* Drive & Energy */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">Drive Load &amp; Energy</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Drive Power</div>
+            <div
+              className={`text-lg font-semibold ${
+                results.motorLoad.loadPercent !== undefined && results.motorLoad.loadPercent > 100
+                  ? 'text-red-700'
+                  : 'text-slate-800'
+              }`}
+            >
+              {units.format(results.motorLoad.drivePower, 'power')}
+            </div>
+            <div className="text-xs text-slate-500">
+              {results.motorLoad.ratedHP
+                ? `${results.motorLoad.loadPercent}% of the ${units.format(results.motorLoad.ratedHP, 'power')} motor`
+                : 'At the screw shaft'}
+            </div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Motor Current</div>
+            <div className="text-lg font-semibold text-slate-800">{results.motorLoad.amps} A</div>
+            <div className="text-xs text-slate-500">At {results.motorLoad.voltage} V three-phase</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Electrical Power</div>
+            <div className="text-lg font-semibold text-slate-800">{results.motorLoad.electricalPower} kW</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Specific Energy</div>
+            <div className="text-lg font-semibold text-slate-800">
+              {units.format(results.motorLoad.specificEnergy, 'specificEnergy')}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Film Properties */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">Predicted Film Properties</h3>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Orientation (MD/TD)</div>
+            <div
+              className={`text-lg font-semibold ${
+                results.filmProperties.balance === 'balanced' ? 'text-green-700' : 'text-yellow-700'
+              }`}
+            >
+              {results.filmProperties.orientationBalance}
+            </div>
+            <div className="text-xs text-slate-500">
+              {results.filmProperties.balance} - DDR {results.filmProperties.drawdownRatio}, BUR{' '}
+              {results.filmProperties.blowUpRatio}
+            </div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Dart Impact</div>
+            <div className="text-lg font-semibold text-slate-800">{results.filmProperties.dartImpact} g</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Elmendorf Tear</div>
+            <div className="text-lg font-semibold text-slate-800">
+              {results.filmProperties.tearMD} / {results.filmProperties.tearTD} g
+            </div>
+            <div className="text-xs text-slate-500">MD / TD</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Haze</div>
+            <div className={`text-lg font-semibold ${clarityColors[results.filmProperties.clarity]}`}>
+              {results.filmProperties.haze}%
+            </div>
+            <div className="text-xs text-slate-500 capitalize">{results.filmProperties.clarity} clarity</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">COF</div>
+            <div className="text-lg font-semibold text-slate-800">{results.filmProperties.cof}</div>
+            <div className="text-xs text-slate-500">Kinetic, film to film</div>
+          </div>
+        </div>
+        {results.filmProperties.notes.length > 0 && (
+          <ul className="text-sm text-slate-600 mt-4 space-y-1">
+            {results.filmProperties.notes.map((note, idx) => (
+              <li key={idx}>{units.text(note)}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Optimized Setpoints */}
+      {results.setpoints && (
+        <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+          <h3 className="text-lg font-semibold text-slate-800 mb-1">Optimized Setpoints</h3>
+          <p className={`text-sm mb-4 ${results.setpoints.feasible ? 'text-slate-600' : 'text-red-700'}`}>
+            {SETPOINT_OBJECTIVES[results.setpoints.objective].name}
+            {results.setpoints.feasible
+              ? ` within every constraint - best of ${results.setpoints.evaluations} evaluated setpoints`
+              : ' - no setpoints meet every constraint, so the rule-based setpoints are kept at the requested rate; below is the closest point found'}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-600">Objective</div>
+              <div className="text-lg font-semibold text-slate-800">
+                {formatObjective(results.setpoints.value, results.setpoints.unit)}
+              </div>
+              <div className="text-xs text-slate-500">
+                {formatObjective(results.setpoints.baseline, results.setpoints.unit)} rule-based
+                {results.setpoints.baselineFeasible ? '' : ' (out of limits)'}
+              </div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-600">Production Rate</div>
+              <div className="text-lg font-semibold text-slate-800">
+                {units.format(results.setpoints.productionRate, 'massRate')}
+              </div>
+              <div className="text-xs text-slate-500">{results.setpoints.screwSpeed} RPM</div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-600">Die</div>
+              <div className="text-lg font-semibold text-slate-800">
+                {units.format(results.setpoints.dieDiameter, 'length')}
+              </div>
+              <div className="text-xs text-slate-500">BUR {results.setpoints.blowUpRatio}</div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-600">Die Zone</div>
+              <div className="text-lg font-semibold text-slate-800">
+                {units.format(results.setpoints.dieTemp, 'temperature')}
+              </div>
+            </div>
+            <div className="bg-slate-50 rounded-lg p-4">
+              <div className="text-sm text-slate-600">Air Ring Flow</div>
+              <div className="text-lg font-semibold text-slate-800">
+                {units.format(results.setpoints.airFlow, 'airFlow')}
+              </div>
+              <div className="text-xs text-slate-500">
+                Frost line ~{units.format(results.setpoints.frostLineHeight, 'length')}
+              </div>
+            </div>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-4">Constraint</th>
+                <th className="py-2 pr-4">Value</th>
+                <th className="py-2 pr-4">Limit</th>
+                <th className="py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.setpoints.constraints.map((constraint, idx) => (
+                <tr key={idx} className="border-b border-slate-100">
+                  <td className="py-2 pr-4">{constraint.name}</td>
+                  <td className="py-2 pr-4">
+                    {units.value(constraint.value, constraint.unit)} {units.unit(constraint.unit)}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {constraint.kind === 'max' ? '≤' : '≥'} {units.value(constraint.limit, constraint.unit)}{' '}
+                    {units.unit(constraint.unit)}
+                  </td>
+                  <td
+                    className={`py-2 ${
+                      !constraint.satisfied ? 'text-red-700' : constraint.active ? 'text-yellow-700' : 'text-green-700'
+                    }`}
+                  >
+                    {!constraint.satisfied ? 'Violated' : constraint.active ? 'Active' : 'OK'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {results.setpoints.activeConstraints.length > 0 && (
+            <p className="text-sm text-slate-600 mt-4">
+              Held at the optimum by: {results.setpoints.activeConstraints.map((c) => units.text(c)).join('; ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Film Targets */}
+      {results.filmTargets && (
+        <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+          <h3 className="text-lg font-semibold text-slate-800 mb-1">Film Targets</h3>
+          <p className={`text-sm mb-4 ${results.filmTargets.met ? 'text-green-700' : 'text-red-700'}`}>
+            {results.filmTargets.met ? 'All targets met' : 'Not every target can be met'} on the{' '}
+            {units.format(results.filmTargets.dieDiameter, 'length')} die at BUR {results.filmTargets.blowUpRatio}, die
+            zone {units.format(results.filmTargets.dieTemp, 'temperature')}, air ring{' '}
+            {units.format(results.filmTargets.airFlow, 'airFlow')} (frost line ~
+            {units.format(results.filmTargets.frostLineHeight, 'length')}) - best of {results.filmTargets.evaluated}{' '}
+            settings
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-4">Target</th>
+                <th className="py-2 pr-4">Predicted</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2">Binding</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.filmTargets.checks.map((check) => (
+                <tr key={check.target} className="border-b border-slate-100 align-top">
+                  <td className="py-2 pr-4">{check.label}</td>
+                  <td className="py-2 pr-4">{check.value}</td>
+                  <td className={`py-2 pr-4 ${check.met ? 'text-green-700' : 'text-red-700'}`}>
+                    {check.met ? 'Met' : check.achievable ? 'Conflicts' : 'Not reachable'}
+                  </td>
+                  <td className="py-2 text-xs">{check.binding ? units.text(check.binding) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {results.filmTargets.conflicts.length > 0 && (
+            <ul className="text-sm text-red-700 mt-4 space-y-1">
+              {results.filmTargets.conflicts.map((conflict, idx) => (
+                <li key={idx}>{conflict}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Die Selection */}
+      {results.dieSelection && (
+        <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+          <h3 className="text-lg font-semibold text-slate-800 mb-1">Die Selection</h3>
+          <p className="text-sm text-slate-600 mb-4">{units.text(results.dieSelection.reason)}</p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-4">Die</th>
+                <th className="py-2 pr-4">BUR</th>
+                <th className="py-2 pr-4">Stability</th>
+                <th className="py-2 pr-4">Output ({units.label('outputPerLength')})</th>
+                <th className="py-2 pr-4">Frost Line</th>
+                <th className="py-2 pr-4">Score</th>
+                <th className="py-2">Issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.dieSelection.ranked.map((ranked) => (
+                <tr
+                  key={ranked.die.id}
+                  className={`border-b border-slate-100 align-top ${
+                    ranked.die.id === results.dieSelection?.selected.die.id
+                      ? 'bg-blue-50 font-medium'
+                      : ranked.feasible
+                        ? ''
+                        : 'text-slate-400'
+                  }`}
+                >
+                  <td className="py-2 pr-4">{units.text(ranked.die.name)}</td>
+                  <td className="py-2 pr-4">
+                    {ranked.blowUpRatio.toFixed(2)} <span className="text-xs text-slate-500">({ranked.scores.blowUpRatio})</span>
+                  </td>
+                  <td className="py-2 pr-4">{ranked.scores.stability}</td>
+                  <td className="py-2 pr-4">
+                    {units.show(ranked.outputPerInch, 'outputPerLength')}{' '}
+                    <span className="text-xs text-slate-500">({ranked.scores.output})</span>
+                  </td>
+                  <td className="py-2 pr-4">
+                    ~{units.format(ranked.frostLineHeight.expected, 'length')}{' '}
+                    <span className="text-xs text-slate-500">({ranked.scores.frostLine})</span>
+                  </td>
+                  <td className="py-2 pr-4">{ranked.total}</td>
+                  <td className="py-2 text-xs">{ranked.issues.map((issue) => units.text(issue)).join('; ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Die Sizing */}
+      {results.sizing && (
+        <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+          <h3 className="text-lg font-semibold text-slate-800 mb-1">Die Sizing</h3>
+          <p className="text-sm text-slate-600 mb-4">
+            Required layflat {units.format(results.sizing.requiredLayflat, 'length')} (bubble OD{' '}
+            {units.format(results.sizing.requiredOD, 'length')}) - recommendation built on the{' '}
+            {units.format(results.sizing.selected.dieDiameter, 'length')} die
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-4">Die ({units.label('length')})</th>
+                <th className="py-2 pr-4">BUR</th>
+                <th className="py-2 pr-4">Bubble OD</th>
+                <th className="py-2 pr-4">Layflat</th>
+                <th className="py-2 pr-4">Trim</th>
+                <th className="py-2 pr-4">Trim ({units.label('massRate')})</th>
+                <th className="py-2">Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.sizing.candidates.map((candidate) => (
+                <tr
+                  key={candidate.dieDiameter}
+                  className={`border-b border-slate-100 ${
+                    candidate.dieDiameter === results.sizing?.selected.dieDiameter
+                      ? 'bg-blue-50 font-medium'
+                      : candidate.feasible
+                        ? ''
+                        : 'text-slate-400'
+                  }`}
+                >
+                  <td className="py-2 pr-4">{units.show(candidate.dieDiameter, 'length')}</td>
+                  <td className="py-2 pr-4">{candidate.blowUpRatio.toFixed(2)}</td>
+                  <td className="py-2 pr-4">{units.show(candidate.bubbleOD, 'length')}</td>
+                  <td className="py-2 pr-4">{units.show(candidate.layflatWidth, 'length')}</td>
+                  <td className="py-2 pr-4">{candidate.trimWaste}%</td>
+                  <td className="py-2 pr-4">{units.show(candidate.trimRate, 'massRate')}</td>
+                  <td className="py-2">{units.text(candidate.note)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Air Ring Settings */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
@@ -186,15 +974,15 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="bg-slate-50 rounded-lg p-4">
             <div className="text-sm text-slate-600">Lip Gap</div>
-            <div className="text-lg font-semibold text-slate-800">{results.airRing.lipGap}</div>
+            <div className="text-lg font-semibold text-slate-800">{units.text(results.airRing.lipGap)}</div>
           </div>
           <div className="bg-slate-50 rounded-lg p-4">
             <div className="text-sm text-slate-600">Air Velocity</div>
-            <div className="text-lg font-semibold text-slate-800">{results.airRing.airVelocity}</div>
+            <div className="text-lg font-semibold text-slate-800">{units.text(results.airRing.airVelocity)}</div>
           </div>
           <div className="bg-slate-50 rounded-lg p-4">
             <div className="text-sm text-slate-600">Cooling Capacity</div>
-            <div className="text-lg font-semibold text-slate-800">{results.airRing.coolingCapacity}</div>
+            <div className="text-lg font-semibold text-slate-800">{units.text(results.airRing.coolingCapacity)}</div>
           </div>
         </div>
       </div>
@@ -210,13 +998,72 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="bg-slate-50 rounded-lg p-4">
             <div className="text-sm text-slate-600">Recommended Height</div>
-            <div className="text-lg font-semibold text-slate-800">{results.frostLine.heightRange}</div>
+            <div className="text-lg font-semibold text-slate-800">{units.text(results.frostLine.heightRange)}</div>
           </div>
           <div className="bg-slate-50 rounded-lg p-4">
             <div className="text-sm text-slate-600">Material Note</div>
-            <div className="text-sm text-slate-700">{results.frostLine.notes}</div>
+            <div className="text-sm text-slate-700">{units.text(results.frostLine.notes)}</div>
           </div>
         </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Cooling-Limited Rate</div>
+            <div className={`text-lg font-semibold ${results.cooling.rateAchievable ? 'text-green-700' : 'text-red-700'}`}>
+              {units.format(results.cooling.maxCoolingRate, 'massRate')}
+            </div>
+            <div className="text-xs text-slate-500">
+              {results.cooling.rateAchievable ? 'Rate target is achievable' : 'Rate target exceeds cooling'}
+            </div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Air</div>
+            <div className="text-lg font-semibold text-slate-800">
+              {units.format(results.cooling.airFlow, 'airFlow')} at {units.format(results.cooling.airTemp, 'temperature')}
+            </div>
+            <div className="text-xs text-slate-500">{results.cooling.ibc ? 'With IBC' : 'No IBC'}</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Heat Transfer</div>
+            <div className="text-lg font-semibold text-slate-800">
+              {units.show(results.cooling.heatTransferCoefficient, 'heatTransfer')}
+            </div>
+            <div className="text-xs text-slate-500">{units.label('heatTransfer')}</div>
+          </div>
+          <div className="bg-slate-50 rounded-lg p-4">
+            <div className="text-sm text-slate-600">Freezes At</div>
+            <div className="text-lg font-semibold text-slate-800">
+              {units.format(results.cooling.crystallizationTemp, 'temperature')}
+            </div>
+            <div className="text-xs text-slate-500">Crystallization temperature</div>
+          </div>
+        </div>
+
+        {results.cooling.profile.length > 0 && (
+          <div className="mt-4 overflow-x-auto">
+            <div className="text-sm font-medium text-slate-700 mb-2">Bubble Profile (die to frost line)</div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-1 pr-4">Height ({units.label('length')})</th>
+                  <th className="py-1 pr-4">Film Temp ({units.label('temperature')})</th>
+                  <th className="py-1 pr-4">Diameter ({units.label('length')})</th>
+                  <th className="py-1">Thickness ({units.label('gauge')})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.cooling.profile.map((point) => (
+                  <tr key={point.height} className="border-b border-slate-100 text-slate-700">
+                    <td className="py-1 pr-4">{units.show(point.height, 'length')}</td>
+                    <td className="py-1 pr-4">{units.show(point.temperature, 'temperature')}</td>
+                    <td className="py-1 pr-4">{units.show(point.diameter, 'length')}</td>
+                    <td className="py-1">{units.show(point.thickness, 'gauge')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
 
       {/* Nip Roller Settings */}
@@ -230,15 +1077,15 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="bg-slate-50 rounded-lg p-4">
             <div className="text-sm text-slate-600">Speed</div>
-            <div className="text-sm font-semibold text-slate-800">{results.nipRollers.speed}</div>
+            <div className="text-sm font-semibold text-slate-800">{units.text(results.nipRollers.speed)}</div>
           </div>
           <div className="bg-slate-50 rounded-lg p-4">
             <div className="text-sm text-slate-600">Pressure</div>
-            <div className="text-sm font-semibold text-slate-800">{results.nipRollers.pressure}</div>
+            <div className="text-sm font-semibold text-slate-800">{units.text(results.nipRollers.pressure)}</div>
           </div>
           <div className="bg-slate-50 rounded-lg p-4">
             <div className="text-sm text-slate-600">Temperature</div>
-            <div className="text-sm font-semibold text-slate-800">{results.nipRollers.temperature}</div>
+            <div className="text-sm font-semibold text-slate-800">{units.text(results.nipRollers.temperature)}</div>
           </div>
         </div>
       </div>
@@ -259,11 +1106,11 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="bg-white rounded-lg p-4 border border-slate-200">
             <div className="text-sm text-slate-600">Air Flow</div>
-            <div className="text-sm font-semibold text-slate-800">{results.ibc.airFlow}</div>
+            <div className="text-sm font-semibold text-slate-800">{units.text(results.ibc.airFlow)}</div>
           </div>
           <div className="bg-white rounded-lg p-4 border border-slate-200">
             <div className="text-sm text-slate-600">Notes</div>
-            <div className="text-sm text-slate-700">{results.ibc.notes}</div>
+            <div className="text-sm text-slate-700">{units.text(results.ibc.notes)}</div>
           </div>
         </div>
       </div>
@@ -279,18 +1126,18 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
           <div className="bg-slate-50 rounded-lg p-4">
             <div className="text-sm text-slate-600">Target Variation</div>
-            <div className="text-lg font-semibold text-slate-800">{results.gaugeControl.targetVariation}</div>
+            <div className="text-lg font-semibold text-slate-800">{units.text(results.gaugeControl.targetVariation)}</div>
           </div>
           <div className="bg-slate-50 rounded-lg p-4">
             <div className="text-sm text-slate-600">Estimated Die Gap</div>
-            <div className="text-lg font-semibold text-slate-800">{results.gaugeControl.dieGapSetting}</div>
+            <div className="text-lg font-semibold text-slate-800">{units.text(results.gaugeControl.dieGapSetting)}</div>
           </div>
         </div>
         <ul className="space-y-1">
           {results.gaugeControl.recommendations.map((rec, idx) => (
             <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
               <span className="text-indigo-500 mt-0.5">•</span>
-              {rec}
+              {units.text(rec)}
             </li>
           ))}
         </ul>
@@ -326,7 +1173,7 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
               {results.bubbleStability.factors.map((factor, idx) => (
                 <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
                   <span className="text-slate-400 mt-0.5">•</span>
-                  {factor}
+                  {units.text(factor)}
                 </li>
               ))}
             </ul>
@@ -339,7 +1186,7 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
               {results.bubbleStability.recommendations.map((rec, idx) => (
                 <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
                   <span className="text-green-500 mt-0.5">→</span>
-                  {rec}
+                  {units.text(rec)}
                 </li>
               ))}
             </ul>
@@ -359,7 +1206,7 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
           {results.criticalParameters.map((param, idx) => (
             <li key={idx} className="flex items-start gap-2 text-amber-900">
               <span className="text-amber-600 mt-1">•</span>
-              {param}
+              {units.text(param)}
             </li>
           ))}
         </ul>
@@ -371,13 +1218,13 @@ function ResultsDisplay({ results, material }: { results: RecommendedSettings; m
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
-          Notes for {material}
+          Notes for {materialLabel}
         </h3>
         <ul className="space-y-2">
           {results.notes.map((note, idx) => (
             <li key={idx} className="flex items-start gap-2 text-blue-900">
               <span className="text-blue-600 mt-1">•</span>
-              {note}
+              {units.text(note)}
             </li>
           ))}
         </ul>
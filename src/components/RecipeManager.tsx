@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import type { RecipeDiffRow, RecipeOverrides, RecipeVersion, RecommendedSettings, SavedRecipe } from '../engine';
+import { diffRecipeVersions, getQuantityForUnit, getRecipeSetpoints } from '../engine';
+import { useUnits } from '../hooks/useUnits';
+
+interface RecipeManagerProps {
+  recipes: SavedRecipe[];
+  results: RecommendedSettings | null; // the recommendation a new version is saved with
+  loaded?: { name: string; version: RecipeVersion };
+  onSave: (name: string, overrides: RecipeOverrides, notes: string) => void;
+  onLoad: (recipe: SavedRecipe, version: RecipeVersion) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// "recipeId:version" for the compare selects
+function versionKey(recipe: SavedRecipe, version: RecipeVersion): string {
+  return `${recipe.id}:${version.version}`;
+}
+
+function findVersion(recipes: SavedRecipe[], key: string) {
+  for (const recipe of recipes) {
+    const version = recipe.versions.find((v) => versionKey(recipe, v) === key);
+    if (version) return { recipe, version };
+  }
+  return undefined;
+}
+
+export function RecipeManager({ recipes, results, loaded, onSave, onLoad, onDelete }: RecipeManagerProps) {
+  const units = useUnits();
+  const [name, setName] = useState(loaded?.name ?? '');
+  const [notes, setNotes] = useState(loaded?.version.notes ?? '');
+  const [overrides, setOverrides] = useState<RecipeOverrides>(loaded?.version.overrides ?? {});
+
+  // Compare the two latest saves of the loaded recipe by default
+  const loadedRecipe = recipes.find((r) => r.name === loaded?.name);
+  const latest = loadedRecipe?.versions[loadedRecipe.versions.length - 1];
+  const previous = loadedRecipe?.versions[loadedRecipe.versions.length - 2];
+  const [compareA, setCompareA] = useState(loadedRecipe && previous ? versionKey(loadedRecipe, previous) : '');
+  const [compareB, setCompareB] = useState(loadedRecipe && latest ? versionKey(loadedRecipe, latest) : '');
+
+  const existing = recipes.find((r) => r.name.trim().toLowerCase() === name.trim().toLowerCase());
+  const nextVersion = existing ? existing.versions[existing.versions.length - 1].version + 1 : 1;
+
+  const display = (value: number | string, unit: string) => {
+    if (typeof value === 'string') return units.text(value);
+    return unit ? `${units.value(value, unit)} ${units.unit(unit)}` : `${value}`;
+  };
+
+  // Override inputs are typed in the chosen units and kept imperial
+  const overrideInput = (value: number | undefined, unit: string) => {
+    const quantity = getQuantityForUnit(unit);
+    return quantity ? units.input(value, quantity) : value;
+  };
+  const parseOverride = (value: number, unit: string) => {
+    const quantity = getQuantityForUnit(unit);
+    return quantity ? units.parse(value, quantity) : value;
+  };
+
+  const a = findVersion(recipes, compareA);
+  const b = findVersion(recipes, compareB);
+  const diff = a && b ? diffRecipeVersions(a.version, b.version) : undefined;
+
+  const versionOptions = recipes.flatMap((recipe) =>
+    recipe.versions.map((version) => (
+      <option key={versionKey(recipe, version)} value={versionKey(recipe, version)}>
+        {recipe.name} v{version.version}
+      </option>
+    ))
+  );
+
+  const diffRows = (rows: RecipeDiffRow[]) =>
+    rows.map((row, idx) => (
+      <tr key={idx} className={`border-b border-slate-100 ${row.changed ? 'bg-yellow-50' : ''}`}>
+        <td className="py-2 pr-4">{row.label}</td>
+        <td className={`py-2 pr-4 ${row.changed ? 'text-slate-500' : ''}`}>{display(row.before, row.unit)}</td>
+        <td className={`py-2 ${row.changed ? 'font-semibold text-yellow-800' : ''}`}>
+          {display(row.after, row.unit)}
+        </td>
+      </tr>
+    ));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-800 mb-4">Saved Recipes</h3>
+        {results ? (
+          <div className="bg-slate-50 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Recipe Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. 30in LLDPE liner"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={1}
+                  placeholder="Why this version, what was seen on the line"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-4">Setpoint</th>
+                    <th className="py-2 pr-4">Recommended</th>
+                    <th className="py-2">Operator Override</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {getRecipeSetpoints(results, overrides).map((setpoint) => (
+                    <tr key={setpoint.key} className="border-b border-slate-100">
+                      <td className="py-2 pr-4">{setpoint.label}</td>
+                      <td className="py-2 pr-4">{display(setpoint.recommended, setpoint.unit)}</td>
+                      <td className="py-1">
+                        <input
+                          type="number"
+                          value={overrideInput(overrides[setpoint.key], setpoint.unit) ?? ''}
+                          onChange={(e) =>
+                            setOverrides((prev) => ({
+                              ...prev,
+                              [setpoint.key]:
+                                e.target.value === ''
+                                  ? undefined
+                                  : parseOverride(parseFloat(e.target.value), setpoint.unit),
+                            }))
+                          }
+                          placeholder="As recommended"
+                          step="any"
+                          className={`${inputClass} max-w-40 ${setpoint.overridden ? 'ring-1 ring-yellow-400' : ''}`}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <button
+              type="button"
+              disabled={!name.trim()}
+              onClick={() => onSave(name, overrides, notes)}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white text-sm font-semibold py-2 px-4 rounded-md transition-colors"
+            >
+              {existing ? `Save as ${existing.name} v${nextVersion}` : 'Save recipe'}
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-600">Calculate a recommendation to save it as a recipe.</p>
+        )}
+      </div>
+
+      {recipes.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-4">Recipe</th>
+                <th className="py-2 pr-4">Version</th>
+                <th className="py-2 pr-4">Saved</th>
+                <th className="py-2 pr-4">Notes</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {recipes.flatMap((recipe) =>
+                [...recipe.versions].reverse().map((version, idx) => (
+                  <tr key={versionKey(recipe, version)} className="border-b border-slate-100">
+                    <td className="py-2 pr-4 font-medium text-slate-800">{idx === 0 ? recipe.name : ''}</td>
+                    <td className="py-2 pr-4">v{version.version}</td>
+                    <td className="py-2 pr-4 text-slate-600">{new Date(version.savedAt).toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-slate-600">{version.notes}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => onLoad(recipe, version)}
+                        className="text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        Load
+                      </button>
+                      {idx === 0 && (
+                        <button
+                          type="button"
+                          onClick={() => onDelete(recipe.id)}
+                          className="text-xs text-red-600 hover:text-red-800 ml-3"
+                        >
+                          Delete recipe
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {recipes.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-slate-700 mb-2">Compare</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <select value={compareA} onChange={(e) => setCompareA(e.target.value)} className={`${inputClass} bg-white`}>
+              <option value="">Select a version</option>
+              {versionOptions}
+            </select>
+            <select value={compareB} onChange={(e) => setCompareB(e.target.value)} className={`${inputClass} bg-white`}>
+              <option value="">Select a version</option>
+              {versionOptions}
+            </select>
+          </div>
+
+          {a && b && diff && (
+            <div className="overflow-x-auto">
+              <p className="text-sm text-slate-600 mb-2">
+                {diff.changes === 0
+                  ? 'No inputs or setpoints differ'
+                  : `${diff.changes} difference${diff.changes === 1 ? '' : 's'} in inputs and setpoints`}
+                {diff.notesChanged ? ' - notes changed' : ''}
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 border-b border-slate-200">
+                    <th className="py-2 pr-4"></th>
+                    <th className="py-2 pr-4">
+                      {a.recipe.name} v{a.version.version}
+                    </th>
+                    <th className="py-2">
+                      {b.recipe.name} v{b.version.version}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td colSpan={3} className="pt-3 pb-1 text-xs font-semibold text-slate-500 uppercase">
+                      Inputs
+                    </td>
+                  </tr>
+                  {diffRows(diff.inputs)}
+                  <tr>
+                    <td colSpan={3} className="pt-3 pb-1 text-xs font-semibold text-slate-500 uppercase">
+                      Setpoints
+                    </td>
+                  </tr>
+                  {diffRows(diff.setpoints)}
+                  {diff.notesChanged && (
+                    <tr className="bg-yellow-50">
+                      <td className="py-2 pr-4">Notes</td>
+                      <td className="py-2 pr-4 text-slate-500">{a.version.notes}</td>
+                      <td className="py-2 text-yellow-800">{b.version.notes}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import type { SensitivityChart, SensitivityReport } from '../engine';
+import { useUnits } from '../hooks/useUnits';
+
+interface SensitivityTornadoProps {
+  report: SensitivityReport;
+}
+
+export function SensitivityTornado({ report }: SensitivityTornadoProps) {
+  const units = useUnits();
+  const percent = Math.round(report.step * 100);
+  const zoneStep = units.format(report.zoneTempStep, 'temperatureDelta');
+
+  const display = (chart: SensitivityChart, value: number) =>
+    chart.unit ? `${units.value(value, chart.unit)} ${units.unit(chart.unit)}` : `${value}`;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-slate-800 mb-1">Sensitivity (±{percent}%, zones ±{zoneStep})</h3>
+      <p className="text-sm text-slate-600 mb-2">
+        Rate, OD and gauge are stepped {percent}% down and up with the rest of the setup held. Zone temperatures move a
+        fixed {zoneStep} rather than {percent}%, since a share of a temperature setpoint depends on the scale it is read
+        in. Most fragile to:{' '}
+        <span className="font-semibold text-slate-800">{report.mostFragileTo.label}</span>
+      </p>
+      <div className="flex items-center gap-4 text-xs text-slate-500 mb-4">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-sm bg-blue-400" /> Step down
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-sm bg-orange-400" /> Step up
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {report.charts.map((chart) => {
+          // Bars are scaled to the widest swing in this chart, from the base value at the centre;
+          // the down step sits above the up step so both show when they swing the same way
+          const widest = Math.max(
+            ...chart.bars.map((bar) => Math.max(Math.abs(bar.low - chart.base), Math.abs(bar.high - chart.base)))
+          );
+          const bar = (value: number, position: string) => {
+            const width = widest > 0 ? (Math.abs(value - chart.base) / widest) * 50 : 0;
+            const side = value < chart.base ? { right: '50%' } : { left: '50%' };
+            return <div className={`absolute h-1/2 ${position}`} style={{ ...side, width: `${width}%` }} />;
+          };
+
+          return (
+            <div key={chart.output} className="bg-slate-50 rounded-lg p-4">
+              <div className="flex justify-between items-baseline mb-3">
+                <div className="text-sm font-medium text-slate-700">{chart.label}</div>
+                <div className="text-xs text-slate-500">Base {display(chart, chart.base)}</div>
+              </div>
+              {widest === 0 ? (
+                <p className="text-xs text-slate-500">No input moves this result at these steps</p>
+              ) : (
+                <div className="space-y-1">
+                  {chart.bars.map((b) => (
+                    <div key={b.factor} className="flex items-center gap-2 text-xs">
+                      <div className="w-28 shrink-0 text-slate-600">{b.label}</div>
+                      <div className="relative flex-1 h-4">
+                        {bar(b.low, 'top-0 bg-blue-400')}
+                        {bar(b.high, 'top-1/2 bg-orange-400')}
+                        <div className="absolute top-0 bottom-0 left-1/2 w-px bg-slate-400" />
+                      </div>
+                      <div className="w-32 shrink-0 text-right text-slate-500">
+                        {b.low === b.high ? '—' : `${display(chart, b.low)} / ${display(chart, b.high)}`}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {report.notes.length > 0 && (
+        <ul className="text-sm text-slate-600 mt-4 space-y-1">
+          {report.notes.map((note, idx) => (
+            <li key={idx}>{units.text(note)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import type { OptimizeInputs, RecommendedSettings, SetupSheetHeader } from '../engine';
+import { buildSetupSheet, renderSetupSheetPdf } from '../engine';
+import { useUnits } from '../hooks/useUnits';
+import { downloadFile } from './download';
+
+interface SetupSheetExportProps {
+  results: RecommendedSettings;
+  inputs: OptimizeInputs; // as run, with the line profile
+  materialLabel: string;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export function SetupSheetExport({ results, inputs, materialLabel }: SetupSheetExportProps) {
+  const units = useUnits();
+  const [header, setHeader] = useState<SetupSheetHeader>({
+    jobNumber: '',
+    customer: '',
+    line: inputs.equipment?.name ?? '',
+    operator: '',
+  });
+
+  // The PDF is built in the browser and handed over as a download
+  const handleDownload = () => {
+    const sheet = buildSetupSheet({ settings: results, inputs, header, materialLabel, system: units.system });
+    const filename = `setup-sheet-${header.jobNumber.trim().replace(/[^\w-]+/g, '-') || 'job'}.pdf`;
+    downloadFile(filename, renderSetupSheetPdf(sheet), 'application/pdf');
+  };
+
+  const field = (label: string, key: keyof SetupSheetHeader) => (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+      <input
+        type="text"
+        value={header[key]}
+        onChange={(e) => setHeader((prev) => ({ ...prev, [key]: e.target.value }))}
+        placeholder="Blank to fill in by hand"
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-slate-800 mb-1">Setup Sheet</h3>
+      <p className="text-sm text-slate-600 mb-4">
+        Printable sheet for the line with every setpoint, a box to record the actual value and sign-off
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        {field('Job #', 'jobNumber')}
+        {field('Customer', 'customer')}
+        {field('Line', 'line')}
+        {field('Operator', 'operator')}
+      </div>
+      <button
+        type="button"
+        onClick={handleDownload}
+        className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold py-2 px-4 rounded-md transition-colors"
+      >
+        Download PDF
+      </button>
+    </div>
+  );
+}
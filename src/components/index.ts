@@ -1,3 +1,4 @@
 export { OptimizeMode } from './OptimizeMode';
 export { DiagnoseMode } from './DiagnoseMode';
+export { AuditMode } from './AuditMode';
 export { HowThisWorks } from './HowThisWorks';
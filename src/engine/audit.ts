@@ -0,0 +1,183 @@
+import type {
+  AuditStatus,
+  RecipeAuditCheck,
+  RecipeAuditInputs,
+  RecipeAuditResult,
+} from './types';
+import { resolveMaterial } from './materials';
+import { optimizeParameters } from './optimizer';
+import { shiftPressureToTemp } from './rheology';
+
+// Recipe audit: checks a recipe received from elsewhere against the material
+// processing window and against what the optimizer recommends for the same targets.
+
+interface ParameterCheck {
+  parameter: string;
+  unit: string;
+  actual: number;
+  window: { min: number; max: number };
+  windowName: string;
+  recommended: { min: number; max: number; target: number };
+  tolerance: number; // how far past a limit still counts as a warning
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Units go on every figure so the text can be localized for metric display
+function withUnit(figure: string, unit: string): string {
+  if (unit === '°F') return `${figure}°F`;
+  if (unit === 'in') return `${figure}"`;
+  return `${figure} ${unit}`.trim();
+}
+
+function formatAmount(value: number, unit: string): string {
+  return withUnit(String(round(value)), unit);
+}
+
+function formatRange(range: { min: number; max: number }, unit: string): string {
+  return withUnit(`${range.min}-${range.max}`, unit);
+}
+
+// Grade one parameter: outside the window fails (or warns if only just outside),
+// inside the window but away from the recommendation warns
+function checkParameter(check: ParameterCheck): RecipeAuditCheck {
+  const { actual, window, recommended, tolerance, unit } = check;
+  const deviation = round(actual - recommended.target);
+  let status: AuditStatus;
+  let message: string;
+
+  if (actual < window.min || actual > window.max) {
+    const below = actual < window.min;
+    const beyond = below ? window.min - actual : actual - window.max;
+    status = beyond > tolerance ? 'fail' : 'warn';
+    message = `${formatAmount(beyond, unit)} ${below ? 'below' : 'above'} the ${check.windowName} (${formatRange(window, unit)})`;
+  } else if (actual < recommended.min - tolerance || actual > recommended.max + tolerance) {
+    status = 'warn';
+    message = `Within the ${check.windowName} but ${formatAmount(Math.abs(deviation), unit)} ${
+      deviation > 0 ? 'above' : 'below'
+    } the recommended ${
+      recommended.min === recommended.max ? formatAmount(recommended.target, unit) : formatRange(recommended, unit)
+    }`;
+  } else {
+    status = 'pass';
+    message = `Within the ${check.windowName} and the recommendation`;
+  }
+
+  return {
+    parameter: check.parameter,
+    actual,
+    unit,
+    window,
+    recommended,
+    deviation,
+    status,
+    message,
+  };
+}
+
+export function auditRecipe(inputs: RecipeAuditInputs): RecipeAuditResult {
+  const { recipe, ...optimizeInputs } = inputs;
+  const materialProps = resolveMaterial(optimizeInputs).properties;
+  const recommended = optimizeParameters(optimizeInputs);
+  const materialWindow = `${materialProps.name} window`;
+  const point = (value: number) => ({ min: round(value), max: round(value), target: round(value) });
+
+  // Expected head pressure follows the recipe's own die temperature
+  const meltPressure = {
+    min: recommended.meltPressure.min,
+    max: recommended.meltPressure.max,
+    target:
+      Math.round(
+        shiftPressureToTemp(
+          recommended.meltPressure.target,
+          materialProps,
+          recommended.barrelTemps.die,
+          recipe.barrelTemps.die
+        ) / 50
+      ) * 50,
+  };
+
+  const zones = ['feed', 'compression', 'metering', 'die'] as const;
+  const checks: RecipeAuditCheck[] = zones.map((zone) =>
+    checkParameter({
+      parameter: `${zone.charAt(0).toUpperCase()}${zone.slice(1)} zone`,
+      unit: '°F',
+      actual: recipe.barrelTemps[zone],
+      window: {
+        min: materialProps.barrelTemperatures[zone].min,
+        max: materialProps.barrelTemperatures[zone].max,
+      },
+      windowName: materialWindow,
+      recommended: point(recommended.barrelTemps[zone]),
+      tolerance: 10,
+    })
+  );
+
+  checks.push(
+    checkParameter({
+      parameter: 'Screw speed',
+      unit: 'RPM',
+      actual: recipe.screwSpeed,
+      window: materialProps.screwSpeedRange,
+      windowName: materialWindow,
+      recommended: {
+        min: recommended.screwSpeed.min,
+        max: recommended.screwSpeed.max,
+        target: recommended.screwSpeed.recommended,
+      },
+      tolerance: recommended.screwSpeed.recommended * 0.1,
+    }),
+    checkParameter({
+      parameter: 'Melt pressure',
+      unit: 'PSI',
+      actual: recipe.meltPressure,
+      window: materialProps.meltPressureRange,
+      windowName: materialWindow,
+      recommended: meltPressure,
+      tolerance: meltPressure.target * 0.1,
+    }),
+    checkParameter({
+      parameter: 'Blow-up ratio',
+      unit: '',
+      actual: recipe.blowUpRatio,
+      window: materialProps.blowUpRatioRange,
+      windowName: materialWindow,
+      recommended: point(recommended.blowUpRatio),
+      tolerance: 0.2,
+    }),
+    // Line speed is fixed by rate, OD and gauge - off the mass balance means off gauge
+    checkParameter({
+      parameter: 'Line speed',
+      unit: 'ft/min',
+      actual: recipe.lineSpeed,
+      window: { min: recommended.lineSpeed.min, max: recommended.lineSpeed.max },
+      windowName: 'mass-balance range for this rate, OD and gauge',
+      recommended: {
+        min: recommended.lineSpeed.min,
+        max: recommended.lineSpeed.max,
+        target: recommended.lineSpeed.recommended,
+      },
+      tolerance: recommended.lineSpeed.recommended * 0.1,
+    }),
+    checkParameter({
+      parameter: 'Frost line height',
+      unit: 'in',
+      actual: recipe.frostLineHeight,
+      window: recommended.frostLine.heightInches,
+      windowName: 'frost line range for this die',
+      recommended: {
+        ...recommended.frostLine.heightInches,
+        target: round((recommended.frostLine.heightInches.min + recommended.frostLine.heightInches.max) / 2),
+      },
+      tolerance: recommended.frostLine.heightInches.max * 0.1,
+    })
+  );
+
+  const summary: Record<AuditStatus, number> = { pass: 0, warn: 0, fail: 0 };
+  checks.forEach((check) => summary[check.status]++);
+  const overall: AuditStatus = summary.fail > 0 ? 'fail' : summary.warn > 0 ? 'warn' : 'pass';
+
+  return { overall, summary, checks, recommended };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { CoexLayer } from './types';
+import { COEX_PRESETS, optimizeCoextrusion } from './coextrusion';
+import { EXCHANGE_SCHEMAS } from './exchange';
+import { getAllMaterials, getFilmMaterials } from './materials';
+
+function run(layers: CoexLayer[]) {
+  return optimizeCoextrusion({ layers, targetOD: 20, targetGauge: 2, productionRate: 300 });
+}
+
+describe('optimizeCoextrusion', () => {
+  it.each(COEX_PRESETS.map((preset) => [preset.name, preset.layers] as const))('runs the %s preset', (_name, layers) => {
+    const result = run(layers);
+    expect(result.extruders).toHaveLength(layers.length);
+    expect(result.bubble).toBeDefined();
+    expect(result.extruders.reduce((sum, extruder) => sum + extruder.thicknessPercent, 0)).toBeCloseTo(100, 0);
+  });
+
+  it('rejects a structure with no layers instead of failing', () => {
+    const result = run([]);
+    expect(result.extruders).toEqual([]);
+    expect(result.bubble).toBeUndefined();
+    expect(result.warnings).toEqual(['Add at least one layer to the structure']);
+  });
+
+  it('rejects layers that add up to 0%', () => {
+    const result = run([
+      { material: 'LLDPE', thicknessPercent: 0 },
+      { material: 'LDPE', thicknessPercent: 0 },
+    ]);
+    expect(result.bubble).toBeUndefined();
+    expect(result.warnings).toEqual(['Layer thicknesses add up to 0% - give at least one layer a thickness']);
+  });
+
+  it('names each layer with a negative or missing thickness', () => {
+    const result = run([
+      { material: 'LLDPE', thicknessPercent: 60 },
+      { material: 'LDPE', thicknessPercent: -10 },
+      { material: 'LLDPE', thicknessPercent: NaN },
+    ]);
+    expect(result.bubble).toBeUndefined();
+    expect(result.warnings).toEqual([
+      'Layer 2 (LDPE) needs a thickness of 0% or more',
+      'Layer 3 (LLDPE) needs a thickness of 0% or more',
+    ]);
+  });
+
+  it('leaves 0% layers out and lists them as unused', () => {
+    const result = run([
+      { material: 'LLDPE', thicknessPercent: 50 },
+      { material: 'TIE', thicknessPercent: 0 },
+      { material: 'LDPE', thicknessPercent: 50 },
+    ]);
+    expect(result.structure).toBe('LLDPE/LDPE');
+    expect(result.extruders.map((extruder) => extruder.layer)).toEqual([1, 3]);
+    expect(result.layerChecks.map((check) => check.layer)).toEqual([1, 3]);
+    expect(result.unusedLayers).toEqual([{ layer: 2, material: 'TIE' }]);
+    expect(result.warnings.some((warning) => warning.startsWith('Layer 2'))).toBe(false);
+  });
+
+  it('warns when only tie layers carry thickness', () => {
+    const result = run([
+      { material: 'TIE', thicknessPercent: 100 },
+      { material: 'LLDPE', thicknessPercent: 0 },
+    ]);
+    expect(result.warnings).toContain('Tie layers only bond other layers - the structure needs a film resin layer');
+  });
+});
+
+describe('tie resin', () => {
+  it('is a coextrusion layer choice but not a film material', () => {
+    expect(getAllMaterials()).toContain('TIE');
+    expect(getFilmMaterials()).not.toContain('TIE');
+  });
+
+  it('is not accepted as the material of an optimize job', () => {
+    const material = EXCHANGE_SCHEMAS.optimize.$defs?.material;
+    expect(material?.enum).toEqual(getFilmMaterials());
+  });
+});
@@ -0,0 +1,283 @@
+import type {
+  CoexDieCheck,
+  CoexExtruderSettings,
+  CoexLayer,
+  CoextrusionInputs,
+  CoextrusionResult,
+  MaterialType,
+} from './types';
+import { getFilmMaterials, getMaterial } from './materials';
+import { calculateLineSpeed, getMaterialDensity, optimizeParameters } from './optimizer';
+
+// Multi-layer blown film setup built on the monolayer optimizer.
+// Each layer is run through optimizeParameters at its own share of the output,
+// then the shared die temperature is reconciled across all layers.
+
+export const COEX_PRESETS: { name: string; layers: CoexLayer[] }[] = [
+  {
+    name: '3-layer LLDPE/LDPE/LLDPE',
+    layers: [
+      { material: 'LLDPE', thicknessPercent: 25 },
+      { material: 'LDPE', thicknessPercent: 50 },
+      { material: 'LLDPE', thicknessPercent: 25 },
+    ],
+  },
+  {
+    name: '5-layer barrier LLDPE/TIE/EVOH/TIE/LLDPE',
+    layers: [
+      { material: 'LLDPE', thicknessPercent: 40 },
+      { material: 'TIE', thicknessPercent: 5 },
+      { material: 'EVOH', thicknessPercent: 10 },
+      { material: 'TIE', thicknessPercent: 5 },
+      { material: 'LLDPE', thicknessPercent: 40 },
+    ],
+  },
+  {
+    name: '7-layer barrier LLDPE/LDPE/TIE/EVOH/TIE/LDPE/LLDPE',
+    layers: [
+      { material: 'LLDPE', thicknessPercent: 20 },
+      { material: 'LDPE', thicknessPercent: 15 },
+      { material: 'TIE', thicknessPercent: 5 },
+      { material: 'EVOH', thicknessPercent: 10 },
+      { material: 'TIE', thicknessPercent: 5 },
+      { material: 'LDPE', thicknessPercent: 15 },
+      { material: 'LLDPE', thicknessPercent: 20 },
+    ],
+  },
+];
+
+// A layer as entered, numbered from the outside in
+type NumberedLayer = CoexLayer & { layer: number };
+
+// Layers thinner than this are difficult to keep continuous around the die
+const MIN_LAYER_GAUGE = 0.08; // mils
+
+// Reasons the layers cannot be run at all: nothing to extrude, or thicknesses
+// that cannot be scaled to a structure
+function validateLayers(layers: CoexLayer[]): string[] {
+  if (layers.length === 0) return ['Add at least one layer to the structure'];
+  const errors = layers
+    .map((layer, idx) =>
+      Number.isFinite(layer.thicknessPercent) && layer.thicknessPercent >= 0
+        ? undefined
+        : `Layer ${idx + 1} (${layer.material}) needs a thickness of 0% or more`
+    )
+    .filter((error): error is string => error !== undefined);
+  if (errors.length === 0 && layers.every((layer) => layer.thicknessPercent === 0)) {
+    errors.push('Layer thicknesses add up to 0% - give at least one layer a thickness');
+  }
+  return errors;
+}
+
+// Scale layer percentages so they sum to 100
+function normalizeLayers<T extends CoexLayer>(layers: T[]): T[] {
+  const total = layers.reduce((sum, layer) => sum + layer.thicknessPercent, 0);
+  return layers.map((layer) => ({
+    ...layer,
+    thicknessPercent: (layer.thicknessPercent / total) * 100,
+  }));
+}
+
+// Mass share of each layer (thickness share weighted by density)
+function calculateRateShares(layers: CoexLayer[]): number[] {
+  const weights = layers.map(
+    (layer) => layer.thicknessPercent * getMaterialDensity(getMaterial(layer.material))
+  );
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map((w) => w / total);
+}
+
+// Average density of the structure, weighted by layer thickness
+function calculateStructureDensity(layers: CoexLayer[]): number {
+  return layers.reduce(
+    (sum, layer) => sum + (layer.thicknessPercent / 100) * getMaterialDensity(getMaterial(layer.material)),
+    0
+  );
+}
+
+// Shared die temperature: the overlap of every layer's die window
+function calculateDieTemp(
+  layers: CoexLayer[]
+): { window: { min: number; max: number } | null; recommended: number } {
+  const dieWindows = layers.map((layer) => getMaterial(layer.material).barrelTemperatures.die);
+  const overlapMin = Math.max(...dieWindows.map((w) => w.min));
+  const overlapMax = Math.min(...dieWindows.map((w) => w.max));
+
+  // Start from the thickness-weighted average of each layer's preferred die temp
+  const weighted = layers.reduce(
+    (sum, layer, idx) => sum + (layer.thicknessPercent / 100) * dieWindows[idx].recommended,
+    0
+  );
+
+  if (overlapMin > overlapMax) {
+    return { window: null, recommended: Math.round(weighted) };
+  }
+
+  return {
+    window: { min: overlapMin, max: overlapMax },
+    recommended: Math.round(Math.max(overlapMin, Math.min(weighted, overlapMax))),
+  };
+}
+
+// Check the shared die temperature against what each layer can tolerate
+function checkLayerDieTemps(layers: NumberedLayer[], dieTemp: number): CoexDieCheck[] {
+  return layers.map((layer) => {
+    const range = getMaterial(layer.material).barrelTemperatures.die;
+    const dieRange = { min: range.min, max: range.max };
+    let status: CoexDieCheck['status'];
+    let message: string;
+
+    if (dieTemp > range.max) {
+      status = dieTemp - range.max > 10 ? 'fail' : 'warning';
+      message = `Die ${dieTemp - range.max}°F above ${layer.material} limit - risk of degradation`;
+    } else if (dieTemp < range.min) {
+      status = range.min - dieTemp > 10 ? 'fail' : 'warning';
+      message = `Die ${range.min - dieTemp}°F below ${layer.material} minimum - risk of poor flow and interfacial instability`;
+    } else if (dieTemp - range.min < 5 || range.max - dieTemp < 5) {
+      status = 'warning';
+      message = `Die within ${layer.material} window but close to its limit`;
+    } else {
+      status = 'ok';
+      message = `Die within ${layer.material} window`;
+    }
+
+    return { layer: layer.layer, material: layer.material, dieRange, status, message };
+  });
+}
+
+// Flag structural problems in the layer arrangement
+function checkStructure(layers: NumberedLayer[], totalGauge: number, rawTotal: number): string[] {
+  const warnings: string[] = [];
+  const isPolyolefin = (material: MaterialType) =>
+    material === 'HDPE' || material === 'LDPE' || material === 'LLDPE';
+
+  if (Math.abs(rawTotal - 100) > 0.5) {
+    warnings.push(
+      `Layer thicknesses add up to ${rawTotal.toFixed(1)}% - scaled to 100% for calculation`
+    );
+  }
+
+  layers.forEach((layer, idx) => {
+    const layerGauge = (layer.thicknessPercent / 100) * totalGauge;
+    if (layerGauge < MIN_LAYER_GAUGE) {
+      warnings.push(
+        `Layer ${layer.layer} (${layer.material}) is only ${layerGauge.toFixed(3)} mils - difficult to keep continuous`
+      );
+    }
+
+    if (layer.material === 'EVOH') {
+      const neighbors = [layers[idx - 1], layers[idx + 1]].filter(Boolean);
+      if (neighbors.some((neighbor) => isPolyolefin(neighbor.material))) {
+        warnings.push(
+          `Layer ${layer.layer} (EVOH) is directly against a polyolefin - add a tie layer to prevent delamination`
+        );
+      }
+    }
+  });
+
+  if (layers[0].material === 'EVOH' || layers[layers.length - 1].material === 'EVOH') {
+    warnings.push('EVOH as a skin layer absorbs moisture and loses barrier - bury it in the structure');
+  }
+  if (!layers.some((layer) => getFilmMaterials().includes(layer.material))) {
+    warnings.push('Tie layers only bond other layers - the structure needs a film resin layer');
+  }
+
+  return warnings;
+}
+
+export function optimizeCoextrusion(inputs: CoextrusionInputs): CoextrusionResult {
+  const errors = validateLayers(inputs.layers);
+  if (errors.length > 0) {
+    return {
+      structure: inputs.layers.map((layer) => layer.material).join('/'),
+      extruders: [],
+      layerChecks: [],
+      unusedLayers: [],
+      warnings: errors,
+    };
+  }
+
+  const rawTotal = inputs.layers.reduce((sum, layer) => sum + layer.thicknessPercent, 0);
+  // A 0% layer carries no melt, so it is left out of the structure and its
+  // extruder is not set up
+  const numbered = inputs.layers.map((layer, idx) => ({ ...layer, layer: idx + 1 }));
+  const unusedLayers = numbered
+    .filter((layer) => layer.thicknessPercent === 0)
+    .map(({ layer, material }) => ({ layer, material }));
+  const layers = normalizeLayers(numbered.filter((layer) => layer.thicknessPercent > 0));
+  const rateShares = calculateRateShares(layers);
+
+  const extruders: CoexExtruderSettings[] = layers.map((layer, idx) => {
+    const layerGauge = (layer.thicknessPercent / 100) * inputs.targetGauge;
+    const layerRate = inputs.productionRate * rateShares[idx];
+    const layerSettings = optimizeParameters({
+      material: layer.material,
+      targetOD: inputs.targetOD,
+      targetGauge: layerGauge,
+      productionRate: layerRate,
+    });
+
+    return {
+      layer: layer.layer,
+      material: layer.material,
+      thicknessPercent: Math.round(layer.thicknessPercent * 10) / 10,
+      layerGauge: Math.round(layerGauge * 1000) / 1000,
+      rateShare: Math.round(rateShares[idx] * 1000) / 10,
+      productionRate: Math.round(layerRate),
+      barrelTemps: {
+        feed: layerSettings.barrelTemps.feed,
+        compression: layerSettings.barrelTemps.compression,
+        metering: layerSettings.barrelTemps.metering,
+      },
+      screwSpeed: layerSettings.screwSpeed,
+      meltPressure: layerSettings.meltPressure,
+      motorLoad: layerSettings.motorLoad,
+    };
+  });
+
+  const dieTemp = calculateDieTemp(layers);
+  const layerChecks = checkLayerDieTemps(layers, dieTemp.recommended);
+  const warnings = checkStructure(layers, inputs.targetGauge, rawTotal);
+
+  if (!dieTemp.window) {
+    warnings.unshift(
+      'No die temperature satisfies every layer - consider a different structure or a die with independently heated layer channels'
+    );
+  }
+
+  // Bubble, cooling and take-off settings follow the thickest layer
+  const structural = layers.reduce((thickest, layer) =>
+    layer.thicknessPercent > thickest.thicknessPercent ? layer : thickest
+  );
+  const bubbleSettings = optimizeParameters({
+    material: structural.material,
+    targetOD: inputs.targetOD,
+    targetGauge: inputs.targetGauge,
+    productionRate: inputs.productionRate,
+  });
+
+  const lineSpeed = calculateLineSpeed(
+    inputs.productionRate,
+    inputs.targetOD,
+    inputs.targetGauge,
+    calculateStructureDensity(layers)
+  );
+
+  return {
+    structure: layers.map((layer) => layer.material).join('/'),
+    extruders,
+    dieTemp,
+    layerChecks,
+    unusedLayers,
+    lineSpeed,
+    bubble: {
+      blowUpRatio: bubbleSettings.blowUpRatio,
+      airRing: bubbleSettings.airRing,
+      frostLine: bubbleSettings.frostLine,
+      ibc: bubbleSettings.ibc,
+      gaugeControl: bubbleSettings.gaugeControl,
+      bubbleStability: bubbleSettings.bubbleStability,
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,131 @@
+import type { AirRingType, BubbleProfilePoint, CoolingPrediction, CoolingSetup, MaterialProperties } from './types';
+import { AIR_RING_TYPES } from './equipment';
+
+// Bubble cooling: a heat balance on the film between the die and the frost line.
+// The melt loses heat by forced convection to the air ring (plus IBC inside the
+// bubble) and freezes where it cools through the material's crystallization
+// temperature. Film heat capacity per foot scales with rate, so the frost line
+// rises in proportion to output - which also gives the cooling-limited rate.
+
+const DEFAULT_AIR_TEMP = 70; // °F
+
+// External film coefficient from air ring flow per foot of die circumference,
+// h = H_PER_FLOW x (CFM/ft)^0.8 - about 10 BTU/hr·ft²·°F for a dual-lip ring
+const H_PER_FLOW = 0.063;
+const FLOW_EXPONENT = 0.8;
+
+// IBC exchanges air inside the bubble, adding to the outside coefficient
+const IBC_SHARE = 0.5;
+
+// PE melt conductivity - thick film near the die cools slower through its own wall
+const MELT_CONDUCTIVITY = 0.14; // BTU/hr·ft·°F
+
+const TEMPERATURE_STEPS = 100;
+const PROFILE_POINTS = 10;
+
+interface BubbleCoolingInputs {
+  productionRate: number; // lbs/hr
+  meltTemp: number; // °F at the die exit
+  dieDiameter: number; // inches
+  dieGap: number; // mils
+  bubbleOD: number; // inches
+  gauge: number; // mils
+  materialProps: MaterialProperties;
+  airRing: AirRingType;
+  setup?: CoolingSetup;
+}
+
+function round(value: number, decimals = 0): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// Practical frost line range for a die: 3-6x die diameter, scaled by material
+export function getFrostLineWindow(dieDiameter: number, materialProps: MaterialProperties): { min: number; max: number } {
+  const factor = materialProps.frostLineHeightFactor;
+  return { min: Math.round(dieDiameter * 3 * factor), max: Math.round(dieDiameter * 6 * factor) };
+}
+
+export function predictCooling(inputs: BubbleCoolingInputs): CoolingPrediction {
+  const { productionRate, meltTemp, dieDiameter, bubbleOD, gauge, materialProps } = inputs;
+  const ring = AIR_RING_TYPES[inputs.airRing];
+  const airFlow = inputs.setup?.airFlow ?? Math.round(ring.airFlowPerInch * Math.PI * dieDiameter);
+  const airTemp = inputs.setup?.airTemp ?? DEFAULT_AIR_TEMP;
+  const ibc = inputs.setup?.ibc ?? ring.ibc;
+  const crystallizationTemp = materialProps.crystallizationTemp;
+  const dieGap = Math.max(inputs.dieGap, gauge);
+
+  const flowPerFoot = airFlow / ((Math.PI * dieDiameter) / 12);
+  const outside = H_PER_FLOW * Math.pow(flowPerFoot, FLOW_EXPONENT);
+  const h = outside * (ibc ? 1 + IBC_SHARE : 1);
+
+  const maxFrostLineHeight = getFrostLineWindow(dieDiameter, materialProps).max;
+  const heatLoad = productionRate * materialProps.specificHeat * (meltTemp - crystallizationTemp);
+
+  // Air at or above the crystallization temperature cannot freeze the bubble
+  if (airTemp >= crystallizationTemp || meltTemp <= crystallizationTemp) {
+    return {
+      airFlow,
+      airTemp,
+      ibc,
+      heatTransferCoefficient: round(h, 1),
+      heatLoad: Math.round(heatLoad),
+      crystallizationTemp,
+      frostLineHeight: 0,
+      maxFrostLineHeight,
+      maxCoolingRate: 0,
+      rateAchievable: meltTemp <= crystallizationTemp,
+      profile: [],
+    };
+  }
+
+  // Step down in temperature from the melt to the crystallization point. The
+  // bubble expands and draws down as it cools, so diameter and thickness move
+  // from die to final values with the fraction of cooling done.
+  const shape = (fraction: number) => ({
+    diameter: dieDiameter + (bubbleOD - dieDiameter) * fraction,
+    thickness: (dieGap * gauge) / (gauge + fraction * (dieGap - gauge)),
+  });
+  const dT = (meltTemp - crystallizationTemp) / TEMPERATURE_STEPS;
+  const profile: BubbleProfilePoint[] = [];
+  let height = 0;
+
+  for (let step = 0; step <= TEMPERATURE_STEPS; step++) {
+    const temperature = meltTemp - step * dT;
+    if (step % (TEMPERATURE_STEPS / PROFILE_POINTS) === 0) {
+      const { diameter, thickness } = shape(step / TEMPERATURE_STEPS);
+      profile.push({
+        height: round(height, 1),
+        temperature: Math.round(temperature),
+        diameter: round(diameter, 1),
+        thickness: round(thickness, 1),
+      });
+    }
+    if (step === TEMPERATURE_STEPS) break;
+
+    // Heat balance over the step: rate x cp x dT = U x area x (T - air)
+    const mid = temperature - dT / 2;
+    const { diameter, thickness } = shape((step + 0.5) / TEMPERATURE_STEPS);
+    const wall = thickness / 1000 / 12 / (2 * MELT_CONDUCTIVITY);
+    const u = 1 / (1 / h + wall);
+    const perimeter = (Math.PI * diameter) / 12; // ft
+    height += ((productionRate * materialProps.specificHeat * dT) / (u * perimeter * (mid - airTemp))) * 12;
+  }
+
+  // Frost line height is proportional to rate, so scale to the highest practical frost line
+  const maxCoolingRate = height > 0 ? (productionRate * maxFrostLineHeight) / height : 0;
+
+  return {
+    airFlow,
+    airTemp,
+    ibc,
+    heatTransferCoefficient: round(h, 1),
+    heatLoad: Math.round(heatLoad),
+    crystallizationTemp,
+    frostLineHeight: round(height, 1),
+    maxFrostLineHeight,
+    maxCoolingRate: Math.round(maxCoolingRate),
+    rateAchievable: height <= maxFrostLineHeight,
+    profile,
+  };
+}
@@ -1,4 +1,4 @@
-import type { DefectType, DefectCause } from './types';
+import type { DefectType, DefectCause, RootCause } from './types';
 
 interface DefectInfo {
   name: string;
@@ -7,8 +7,27 @@ interface DefectInfo {
   generalRecommendations: string[];
 }
 
+// Shared root causes that show up under more than one defect
+export const ROOT_CAUSES: Record<RootCause, string> = {
+  excessive_output: 'Excessive output rate',
+  low_melt_temp: 'Melt or die temperature too low',
+  overheating: 'Melt temperature too high / degradation',
+  unsteady_extrusion: 'Unsteady extruder output or melt temperature',
+  die_temp_variation: 'Die temperature variation',
+  cooling_imbalance: 'Air ring / cooling imbalance',
+  bur_frost_line: 'BUR or frost line out of balance',
+  contamination: 'Contamination',
+  screen_pack: 'Screen pack damage',
+  moisture: 'Moisture in material',
+  additives: 'Additive issues (bloom, dispersion, volatiles)',
+  resin_grade: 'Resin grade / melt strength',
+  web_tension: 'Winding and web tension',
+};
+
 // Defect-cause matrix based on blown film troubleshooting guides
-// and polymer processing fundamentals
+// and polymer processing fundamentals.
+// Priors are relative weights within a defect; likelihood ratios scale a cause
+// up when its signal is seen in the current settings (or down when checked and absent).
 
 export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
   melt_fracture: {
@@ -18,42 +37,68 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Excessive output rate',
-        probability: 'high',
-        adjustments: [
-          'Reduce screw speed by 10-20%',
-          'Decrease line speed proportionally',
-          'Consider larger die gap',
+        rootCause: 'excessive_output',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'screw_speed_high', ratio: 3 },
+          { signal: 'fractional_melt_grade', ratio: 1.5 },
+          { signal: 'no_ppa', ratio: 1.5 },
+          { signal: 'melt_pressure_high', ratio: 2 },
+          { signal: 'motor_load_high', ratio: 2 },
+        ],
+        adjustments: [
+          {
+            text: 'Reduce screw speed by 10-20%',
+            change: { parameter: 'screwSpeed', direction: 'decrease', magnitude: { min: 10, max: 20 }, unit: '%', settlingMinutes: 10 },
+          },
+          {
+            text: 'Decrease line speed proportionally',
+            change: { parameter: 'lineSpeed', direction: 'decrease', magnitude: { min: 10, max: 20 }, unit: '%', settlingMinutes: 10 },
+          },
+          { text: 'Consider larger die gap' },
         ],
         explanation:
           'High throughput increases wall shear stress beyond the critical value for the polymer.',
       },
       {
         cause: 'Melt temperature too low',
-        probability: 'high',
+        rootCause: 'low_melt_temp',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'melt_temp_low', ratio: 3, ratioIfAbsent: 0.5 },
+          { signal: 'die_temp_low', ratio: 2, ratioIfAbsent: 0.7 },
+          { signal: 'motor_load_high', ratio: 1.5 },
+        ],
         adjustments: [
-          'Increase metering zone temp by 10-20°F',
-          'Increase die temp by 10-15°F',
-          'Allow stabilization time (10-15 min)',
+          {
+            text: 'Increase metering zone temp by 10-20°F',
+            change: { parameter: 'meteringTemp', direction: 'increase', magnitude: { min: 10, max: 20 }, unit: '°F', settlingMinutes: 15 },
+          },
+          {
+            text: 'Increase die temp by 10-15°F',
+            change: { parameter: 'dieTemp', direction: 'increase', magnitude: { min: 10, max: 15 }, unit: '°F', settlingMinutes: 15 },
+          },
+          { text: 'Allow stabilization time (10-15 min)' },
         ],
         explanation:
           'Lower temperatures increase melt viscosity, raising shear stress at the die wall.',
       },
       {
         cause: 'Die land length insufficient',
-        probability: 'medium',
+        prior: 0.15,
         adjustments: [
-          'Use die with longer land length (8:1 to 15:1 L/D ratio)',
-          'If not possible, reduce output rate further',
+          { text: 'Use die with longer land length (8:1 to 15:1 L/D ratio)' },
+          { text: 'If not possible, reduce output rate further' },
         ],
         explanation:
           'Short die lands do not allow enough stress relaxation before the melt exits.',
       },
       {
         cause: 'Sharp die entry angle',
-        probability: 'medium',
+        prior: 0.15,
         adjustments: [
-          'Consider die with streamlined entry geometry',
-          'Reduce output as a workaround',
+          { text: 'Consider die with streamlined entry geometry' },
+          { text: 'Reduce output as a workaround' },
         ],
         explanation:
           'Abrupt flow constrictions create extensional stress concentrations.',
@@ -73,31 +118,55 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Die lip temperature too low',
-        probability: 'high',
+        rootCause: 'low_melt_temp',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'die_temp_low', ratio: 3, ratioIfAbsent: 0.5 },
+          { signal: 'melt_temp_low', ratio: 1.5 },
+        ],
         adjustments: [
-          'Increase die zone temperature by 5-15°F',
-          'Check die heater band functionality',
-          'Ensure uniform die lip temperature',
+          {
+            text: 'Increase die zone temperature by 5-15°F',
+            change: { parameter: 'dieTemp', direction: 'increase', magnitude: { min: 5, max: 15 }, unit: '°F', settlingMinutes: 15 },
+          },
+          { text: 'Check die heater band functionality' },
+          { text: 'Ensure uniform die lip temperature' },
         ],
         explanation:
           'Cool die lips increase local viscosity and stress at the exit point.',
       },
       {
         cause: 'Output rate near critical limit',
-        probability: 'high',
+        rootCause: 'excessive_output',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'screw_speed_high', ratio: 3 },
+          { signal: 'no_ppa', ratio: 1.5 },
+          { signal: 'melt_pressure_high', ratio: 2 },
+          { signal: 'motor_load_high', ratio: 1.5 },
+        ],
         adjustments: [
-          'Reduce screw speed by 5-15%',
-          'Monitor surface quality as you adjust',
+          {
+            text: 'Reduce screw speed by 5-15%',
+            change: { parameter: 'screwSpeed', direction: 'decrease', magnitude: { min: 5, max: 15 }, unit: '%', settlingMinutes: 10 },
+          },
+          { text: 'Monitor surface quality as you adjust' },
         ],
         explanation:
           'Operating near the critical shear rate threshold causes intermittent surface defects.',
       },
       {
         cause: 'Resin grade not suited for application',
-        probability: 'medium',
+        rootCause: 'resin_grade',
+        prior: 0.2,
+        likelihoods: [
+          { signal: 'fractional_melt_grade', ratio: 3 },
+          { signal: 'no_ppa', ratio: 1.5 },
+          { signal: 'melt_pressure_high', ratio: 1.5 },
+        ],
         adjustments: [
-          'Consider resin with higher melt index (lower viscosity)',
-          'Try resin designed for high-speed extrusion',
+          { text: 'Consider resin with higher melt index (lower viscosity)' },
+          { text: 'Try resin designed for high-speed extrusion' },
         ],
         explanation:
           'Some resin grades have lower critical shear stress thresholds.',
@@ -117,44 +186,54 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Die lip damage or buildup',
-        probability: 'high',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'melt_temp_high', ratio: 1.5 },
+        ],
         adjustments: [
-          'Stop and clean die lips with brass tools',
-          'Inspect for nicks or scratches',
-          'Polish die lips if damaged',
+          { text: 'Stop and clean die lips with brass tools' },
+          { text: 'Inspect for nicks or scratches' },
+          { text: 'Polish die lips if damaged' },
         ],
         explanation:
           'Any surface irregularity at the die exit will transfer to the film.',
       },
       {
         cause: 'Die temperature variation',
-        probability: 'high',
+        rootCause: 'die_temp_variation',
+        prior: 0.3,
         adjustments: [
-          'Check all die zone heaters',
-          'Verify thermocouple readings',
-          'Balance die temperatures (within ±5°F)',
+          { text: 'Check all die zone heaters' },
+          { text: 'Verify thermocouple readings' },
+          { text: 'Balance die temperatures (within ±5°F)' },
         ],
         explanation:
           'Temperature variations cause viscosity differences and flow irregularities.',
       },
       {
         cause: 'Contamination in melt',
-        probability: 'medium',
+        rootCause: 'contamination',
+        prior: 0.2,
         adjustments: [
-          'Check hopper and feed throat for contamination',
-          'Purge system thoroughly',
-          'Verify material is clean and dry',
+          { text: 'Check hopper and feed throat for contamination' },
+          { text: 'Purge system thoroughly' },
+          { text: 'Verify material is clean and dry' },
         ],
         explanation:
           'Gels or contaminants can hang up at die lips causing streaks.',
       },
       {
         cause: 'Screen pack issues',
-        probability: 'medium',
+        rootCause: 'screen_pack',
+        prior: 0.15,
+        likelihoods: [
+          { signal: 'melt_pressure_high', ratio: 1.5 },
+          { signal: 'melt_pressure_low', ratio: 1.5 },
+        ],
         adjustments: [
-          'Replace screen pack',
-          'Check breaker plate for damage',
-          'Use appropriate screen mesh for material',
+          { text: 'Replace screen pack' },
+          { text: 'Check breaker plate for damage' },
+          { text: 'Use appropriate screen mesh for material' },
         ],
         explanation:
           'Torn screens or blocked areas cause flow channeling.',
@@ -174,43 +253,64 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Moisture in material',
-        probability: 'high',
+        rootCause: 'moisture',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'hygroscopic_material', ratio: 4 },
+          { signal: 'resin_moisture_high', ratio: 5, ratioIfAbsent: 0.2 },
+          { signal: 'ambient_humidity_high', ratio: 1.5 },
+        ],
         adjustments: [
-          'Dry material per manufacturer specs',
-          'Check hopper dryer operation',
-          'Verify dew point is adequate (-40°F typical)',
+          { text: 'Dry material per manufacturer specs' },
+          { text: 'Check hopper dryer operation' },
+          { text: 'Verify dew point is adequate (-40°F typical)' },
         ],
         explanation:
           'Moisture vaporizes at melt temperature, creating steam bubbles.',
       },
       {
         cause: 'Feed throat problems',
-        probability: 'high',
+        prior: 0.3,
+        likelihoods: [
+          { signal: 'melt_pressure_unsteady', ratio: 2 },
+        ],
         adjustments: [
-          'Check for feed throat flooding',
-          'Reduce feed throat cooling if frosting',
-          'Verify consistent pellet feed',
+          { text: 'Check for feed throat flooding' },
+          { text: 'Reduce feed throat cooling if frosting' },
+          { text: 'Verify consistent pellet feed' },
         ],
         explanation:
           'Air can become entrapped in the feed section and carried forward.',
       },
       {
         cause: 'Melt temperature too high',
-        probability: 'medium',
+        rootCause: 'overheating',
+        prior: 0.2,
+        likelihoods: [
+          { signal: 'melt_temp_high', ratio: 3, ratioIfAbsent: 0.6 },
+          { signal: 'die_temp_high', ratio: 1.5 },
+        ],
         adjustments: [
-          'Reduce barrel temperatures by 10-20°F',
-          'Reduce screw speed (lowers shear heating)',
+          {
+            text: 'Reduce barrel temperatures by 10-20°F',
+            change: { parameter: 'meteringTemp', direction: 'decrease', magnitude: { min: 10, max: 20 }, unit: '°F', settlingMinutes: 15 },
+          },
+          { text: 'Reduce screw speed (lowers shear heating)' },
         ],
         explanation:
           'Excessive temperature can cause material degradation and gas generation.',
       },
       {
         cause: 'Volatile additives',
-        probability: 'low',
+        rootCause: 'additives',
+        prior: 0.1,
+        likelihoods: [
+          { signal: 'high_slip', ratio: 1.5 },
+        ],
         adjustments: [
-          'Check additive specifications',
-          'Consider pre-compounded materials',
-          'Reduce barrel temperatures if possible',
+          { text: 'Check additive specifications' },
+          { text: 'Consider pre-compounded materials' },
+          { text: 'Reduce barrel temperatures if possible' },
         ],
         explanation:
           'Some slip agents or other additives have low volatilization temperatures.',
@@ -230,33 +330,45 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Uneven cooling',
-        probability: 'high',
+        rootCause: 'cooling_imbalance',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'air_ring_imbalance', ratio: 4, ratioIfAbsent: 0.4 },
+        ],
         adjustments: [
-          'Balance air ring air flow around circumference',
-          'Check for blocked air ring ports',
-          'Verify uniform frost line height',
+          { text: 'Balance air ring air flow around circumference' },
+          { text: 'Check for blocked air ring ports' },
+          { text: 'Verify uniform frost line height' },
         ],
         explanation:
           'Differential cooling rates cause uneven shrinkage and stress.',
       },
       {
         cause: 'MD/TD orientation imbalance',
-        probability: 'high',
+        rootCause: 'bur_frost_line',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'bur_out_of_range', ratio: 3, ratioIfAbsent: 0.6 },
+        ],
         adjustments: [
-          'Adjust blow-up ratio (BUR)',
-          'Modify frost line height',
-          'Balance draw-down ratio with BUR',
+          { text: 'Adjust blow-up ratio (BUR)' },
+          { text: 'Modify frost line height' },
+          { text: 'Balance draw-down ratio with BUR' },
         ],
         explanation:
           'Unbalanced molecular orientation causes directional shrinkage differences.',
       },
       {
         cause: 'Frost line too low or high',
-        probability: 'medium',
+        prior: 0.2,
+        likelihoods: [
+          { signal: 'frost_line_low', ratio: 3 },
+          { signal: 'frost_line_high', ratio: 3 },
+        ],
         adjustments: [
-          'Adjust air ring cooling capacity',
-          'Modify output rate if needed',
-          'Target frost line at 3-6x die diameter',
+          { text: 'Adjust air ring cooling capacity' },
+          { text: 'Modify output rate if needed' },
+          { text: 'Target frost line at 3-6x die diameter' },
         ],
         explanation:
           'Frost line position affects crystallization and orientation development.',
@@ -276,44 +388,54 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Die gap not uniform',
-        probability: 'high',
+        prior: 0.35,
         adjustments: [
-          'Measure and adjust die gap around circumference',
-          'Use feeler gauges to verify uniformity',
-          'Target ±0.001" variation',
+          { text: 'Measure and adjust die gap around circumference' },
+          { text: 'Use feeler gauges to verify uniformity' },
+          { text: 'Target ±0.001" variation' },
         ],
         explanation:
           'Die gap variations directly translate to thickness variations.',
       },
       {
         cause: 'Unbalanced air ring',
-        probability: 'high',
+        rootCause: 'cooling_imbalance',
+        prior: 0.3,
+        likelihoods: [
+          { signal: 'air_ring_imbalance', ratio: 4, ratioIfAbsent: 0.4 },
+        ],
         adjustments: [
-          'Level air ring precisely',
-          'Balance air flow at multiple points',
-          'Check air ring lip gap uniformity',
+          { text: 'Level air ring precisely' },
+          { text: 'Balance air flow at multiple points' },
+          { text: 'Check air ring lip gap uniformity' },
         ],
         explanation:
           'Cooling variations cause differential drawdown around bubble.',
       },
       {
         cause: 'Temperature variations in die',
-        probability: 'medium',
+        rootCause: 'die_temp_variation',
+        prior: 0.2,
         adjustments: [
-          'Check all die zone heaters',
-          'Verify proper heater coverage',
-          'Look for drafts affecting die',
+          { text: 'Check all die zone heaters' },
+          { text: 'Verify proper heater coverage' },
+          { text: 'Look for drafts affecting die' },
         ],
         explanation:
           'Hot spots have lower viscosity and flow more material.',
       },
       {
         cause: 'Melt temperature instability',
-        probability: 'medium',
+        rootCause: 'unsteady_extrusion',
+        prior: 0.15,
+        likelihoods: [
+          { signal: 'screw_speed_high', ratio: 1.5 },
+          { signal: 'melt_pressure_unsteady', ratio: 2, ratioIfAbsent: 0.6 },
+        ],
         adjustments: [
-          'Check barrel temperature stability',
-          'Verify consistent screw speed',
-          'Ensure steady material feed',
+          { text: 'Check barrel temperature stability' },
+          { text: 'Verify consistent screw speed' },
+          { text: 'Ensure steady material feed' },
         ],
         explanation:
           'Melt temp fluctuations cause viscosity changes and output variations.',
@@ -333,33 +455,48 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Melt temperature too low',
-        probability: 'high',
+        rootCause: 'low_melt_temp',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'melt_temp_low', ratio: 3, ratioIfAbsent: 0.5 },
+          { signal: 'die_temp_low', ratio: 2, ratioIfAbsent: 0.7 },
+        ],
         adjustments: [
-          'Increase die temperature by 10-20°F',
-          'Increase metering zone temperature',
-          'Allow melt to homogenize longer',
+          {
+            text: 'Increase die temperature by 10-20°F',
+            change: { parameter: 'dieTemp', direction: 'increase', magnitude: { min: 10, max: 20 }, unit: '°F', settlingMinutes: 15 },
+          },
+          { text: 'Increase metering zone temperature' },
+          { text: 'Allow melt to homogenize longer' },
         ],
         explanation:
           'Insufficient melt temperature prevents good surface finish development.',
       },
       {
         cause: 'Cooling too rapid',
-        probability: 'high',
+        prior: 0.3,
+        likelihoods: [
+          { signal: 'frost_line_low', ratio: 3 },
+        ],
         adjustments: [
-          'Reduce air ring velocity',
-          'Raise frost line height',
-          'Consider lower volume, higher velocity air',
+          { text: 'Reduce air ring velocity' },
+          { text: 'Raise frost line height' },
+          { text: 'Consider lower volume, higher velocity air' },
         ],
         explanation:
           'Rapid quench freezes surface before it can smooth out.',
       },
       {
         cause: 'Incompatible additives',
-        probability: 'medium',
+        rootCause: 'additives',
+        prior: 0.2,
+        likelihoods: [
+          { signal: 'high_slip', ratio: 3 },
+        ],
         adjustments: [
-          'Review additive package compatibility',
-          'Check for slip/antiblock migration issues',
-          'Consider different additive levels',
+          { text: 'Review additive package compatibility' },
+          { text: 'Check for slip/antiblock migration issues' },
+          { text: 'Consider different additive levels' },
         ],
         explanation:
           'Some additives can bloom to surface and cause haze or roughness.',
@@ -379,44 +516,54 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Air ring instability',
-        probability: 'high',
+        rootCause: 'cooling_imbalance',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'air_ring_imbalance', ratio: 2 },
+          { signal: 'ibc_running', ratio: 1.5 },
+        ],
         adjustments: [
-          'Check air ring for vibration or flutter',
-          'Verify blower output is steady',
-          'Inspect air ring for damage or blockage',
+          { text: 'Check air ring for vibration or flutter' },
+          { text: 'Verify blower output is steady' },
+          { text: 'Inspect air ring for damage or blockage' },
         ],
         explanation:
           'Pulsating air flow causes cyclical cooling variations that create bands.',
       },
       {
         cause: 'Extruder output surging',
-        probability: 'high',
+        rootCause: 'unsteady_extrusion',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'screw_speed_high', ratio: 2 },
+          { signal: 'melt_pressure_unsteady', ratio: 4, ratioIfAbsent: 0.4 },
+        ],
         adjustments: [
-          'Check screw speed consistency',
-          'Verify feed consistency (no bridging)',
-          'Inspect screw and barrel for wear',
+          { text: 'Check screw speed consistency' },
+          { text: 'Verify feed consistency (no bridging)' },
+          { text: 'Inspect screw and barrel for wear' },
         ],
         explanation:
           'Variations in melt delivery create periodic thickness changes.',
       },
       {
         cause: 'Die bolt pattern interference',
-        probability: 'medium',
+        prior: 0.15,
         adjustments: [
-          'Check die bolt torque uniformity',
-          'Verify die is not warped',
-          'Consider thermal bolt adjustments',
+          { text: 'Check die bolt torque uniformity' },
+          { text: 'Verify die is not warped' },
+          { text: 'Consider thermal bolt adjustments' },
         ],
         explanation:
           'Die bolts can create local flow restrictions that cause repeating patterns.',
       },
       {
         cause: 'Haul-off speed variation',
-        probability: 'medium',
+        prior: 0.15,
         adjustments: [
-          'Check nip roll drive for consistency',
-          'Verify encoder/tachometer operation',
-          'Inspect rolls for damage or buildup',
+          { text: 'Check nip roll drive for consistency' },
+          { text: 'Verify encoder/tachometer operation' },
+          { text: 'Inspect rolls for damage or buildup' },
         ],
         explanation:
           'Speed variations in takeoff create periodic gauge changes.',
@@ -436,44 +583,51 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Uneven film tension',
-        probability: 'high',
+        rootCause: 'web_tension',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'nip_pressure_low', ratio: 2 },
+        ],
         adjustments: [
-          'Balance collapsing frame geometry',
-          'Check guide roll alignment',
-          'Verify uniform nip pressure across width',
+          { text: 'Balance collapsing frame geometry' },
+          { text: 'Check guide roll alignment' },
+          { text: 'Verify uniform nip pressure across width' },
         ],
         explanation:
           'Tension differences across the web cause material to bunch up.',
       },
       {
         cause: 'Gauge variation',
-        probability: 'high',
+        prior: 0.3,
         adjustments: [
-          'Improve gauge uniformity (see gauge control)',
-          'Balance air ring cooling',
-          'Adjust die gap as needed',
+          { text: 'Improve gauge uniformity (see gauge control)' },
+          { text: 'Balance air ring cooling' },
+          { text: 'Adjust die gap as needed' },
         ],
         explanation:
           'Thick and thin areas travel at different effective speeds, creating wrinkles.',
       },
       {
         cause: 'Collapsing frame issues',
-        probability: 'medium',
+        prior: 0.2,
         adjustments: [
-          'Verify frame angle is appropriate',
-          'Check for worn or damaged guide boards',
-          'Ensure bubble is centered in frame',
+          { text: 'Verify frame angle is appropriate' },
+          { text: 'Check for worn or damaged guide boards' },
+          { text: 'Ensure bubble is centered in frame' },
         ],
         explanation:
           'Poor bubble collapse geometry causes uneven layflat.',
       },
       {
         cause: 'Static electricity',
-        probability: 'low',
+        prior: 0.1,
+        likelihoods: [
+          { signal: 'ambient_humidity_low', ratio: 3 },
+        ],
         adjustments: [
-          'Install static elimination equipment',
-          'Increase ambient humidity if possible',
-          'Ground all equipment properly',
+          { text: 'Install static elimination equipment' },
+          { text: 'Increase ambient humidity if possible' },
+          { text: 'Ground all equipment properly' },
         ],
         explanation:
           'Static can cause film layers to attract/repel unpredictably.',
@@ -493,44 +647,60 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Insufficient antiblock additive',
-        probability: 'high',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'no_antiblock', ratio: 4 },
+        ],
         adjustments: [
-          'Increase antiblock concentration (0.1-0.3% typical)',
-          'Verify additive is properly dispersed',
-          'Consider different antiblock type (silica vs talc)',
+          { text: 'Increase antiblock concentration (0.1-0.3% typical)' },
+          { text: 'Verify additive is properly dispersed' },
+          { text: 'Consider different antiblock type (silica vs talc)' },
         ],
         explanation:
           'Antiblock creates micro-roughness that prevents intimate layer contact.',
       },
       {
         cause: 'Excessive winding tension',
-        probability: 'high',
+        rootCause: 'web_tension',
+        prior: 0.3,
+        likelihoods: [
+          { signal: 'nip_pressure_high', ratio: 2 },
+        ],
         adjustments: [
-          'Reduce winder tension 10-20%',
-          'Use taper tension profile (decreasing toward core)',
-          'Avoid over-tight rolls',
+          {
+            text: 'Reduce winder tension 10-20%',
+            change: { parameter: 'winderTension', direction: 'decrease', magnitude: { min: 10, max: 20 }, unit: '%', settlingMinutes: 5 },
+          },
+          { text: 'Use taper tension profile (decreasing toward core)' },
+          { text: 'Avoid over-tight rolls' },
         ],
         explanation:
           'High pressure between layers promotes blocking.',
       },
       {
         cause: 'Film too warm at winder',
-        probability: 'medium',
+        prior: 0.2,
+        likelihoods: [
+          { signal: 'melt_temp_high', ratio: 1.5 },
+        ],
         adjustments: [
-          'Increase cooling before winder',
-          'Reduce line speed if needed',
-          'Add cooling rolls if available',
+          { text: 'Increase cooling before winder' },
+          { text: 'Reduce line speed if needed' },
+          { text: 'Add cooling rolls if available' },
         ],
         explanation:
           'Warm film is softer and more prone to blocking.',
       },
       {
         cause: 'Storage conditions',
-        probability: 'medium',
+        prior: 0.15,
+        likelihoods: [
+          { signal: 'ambient_humidity_high', ratio: 1.5 },
+        ],
         adjustments: [
-          'Store rolls at lower temperature',
-          'Avoid stacking heavy rolls',
-          'Allow rolls to age before shipping',
+          { text: 'Store rolls at lower temperature' },
+          { text: 'Avoid stacking heavy rolls' },
+          { text: 'Allow rolls to age before shipping' },
         ],
         explanation:
           'Heat and pressure during storage worsen blocking over time.',
@@ -550,44 +720,58 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Degraded material in system',
-        probability: 'high',
+        rootCause: 'overheating',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'melt_temp_high', ratio: 3, ratioIfAbsent: 0.6 },
+          { signal: 'die_temp_high', ratio: 2 },
+        ],
         adjustments: [
-          'Purge extruder thoroughly',
-          'Check for dead spots in flow path',
-          'Reduce residence time if possible',
+          { text: 'Purge extruder thoroughly' },
+          { text: 'Check for dead spots in flow path' },
+          { text: 'Reduce residence time if possible' },
         ],
         explanation:
           'Material that sits too long at temperature can crosslink and form gels.',
       },
       {
         cause: 'Contamination',
-        probability: 'high',
+        rootCause: 'contamination',
+        prior: 0.3,
         adjustments: [
-          'Inspect raw material for contamination',
-          'Clean hopper and feed system',
-          'Check regrind quality and cleanliness',
+          { text: 'Inspect raw material for contamination' },
+          { text: 'Clean hopper and feed system' },
+          { text: 'Check regrind quality and cleanliness' },
         ],
         explanation:
           'Foreign material or degraded regrind creates visible defects.',
       },
       {
         cause: 'Screen pack breakthrough',
-        probability: 'medium',
+        rootCause: 'screen_pack',
+        prior: 0.15,
+        likelihoods: [
+          { signal: 'melt_pressure_low', ratio: 2 },
+        ],
         adjustments: [
-          'Replace screen pack',
-          'Use finer mesh screens',
-          'Verify breaker plate condition',
+          { text: 'Replace screen pack' },
+          { text: 'Use finer mesh screens' },
+          { text: 'Verify breaker plate condition' },
         ],
         explanation:
           'Damaged screens allow gels to pass through.',
       },
       {
         cause: 'Additive dispersion issues',
-        probability: 'medium',
+        rootCause: 'additives',
+        prior: 0.2,
+        likelihoods: [
+          { signal: 'high_slip', ratio: 1.5 },
+        ],
         adjustments: [
-          'Use pre-compounded materials',
-          'Verify masterbatch let-down ratio',
-          'Increase mixing (screw design or speed)',
+          { text: 'Use pre-compounded materials' },
+          { text: 'Verify masterbatch let-down ratio' },
+          { text: 'Increase mixing (screw design or speed)' },
         ],
         explanation:
           'Undispersed additives can appear as gel-like defects.',
@@ -607,44 +791,61 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Excessive crystallinity',
-        probability: 'high',
+        prior: 0.35,
+        likelihoods: [
+          { signal: 'frost_line_high', ratio: 3 },
+        ],
         adjustments: [
-          'Increase cooling rate (raise frost line)',
-          'Reduce melt temperature slightly',
-          'Increase quench air velocity',
+          { text: 'Increase cooling rate (raise frost line)' },
+          { text: 'Reduce melt temperature slightly' },
+          { text: 'Increase quench air velocity' },
         ],
         explanation:
           'Large crystals scatter light and reduce clarity. Fast cooling creates smaller crystals.',
       },
       {
         cause: 'Surface roughness',
-        probability: 'high',
+        rootCause: 'low_melt_temp',
+        prior: 0.3,
+        likelihoods: [
+          { signal: 'melt_temp_low', ratio: 3, ratioIfAbsent: 0.6 },
+        ],
         adjustments: [
-          'Increase melt/die temperature',
-          'Optimize frost line height',
-          'Reduce cooling rate initially',
+          { text: 'Increase melt/die temperature' },
+          { text: 'Optimize frost line height' },
+          { text: 'Reduce cooling rate initially' },
         ],
         explanation:
           'Rough surfaces scatter light and appear hazy.',
       },
       {
         cause: 'Additive bloom',
-        probability: 'medium',
+        rootCause: 'additives',
+        prior: 0.2,
+        likelihoods: [
+          { signal: 'high_slip', ratio: 3 },
+        ],
         adjustments: [
-          'Reduce slip/antiblock levels',
-          'Change additive types',
-          'Adjust processing temperatures',
+          { text: 'Reduce slip/antiblock levels' },
+          { text: 'Change additive types' },
+          { text: 'Adjust processing temperatures' },
         ],
         explanation:
           'Additives migrating to surface create haze.',
       },
       {
         cause: 'Moisture in material',
-        probability: 'medium',
+        rootCause: 'moisture',
+        prior: 0.15,
+        likelihoods: [
+          { signal: 'hygroscopic_material', ratio: 4 },
+          { signal: 'resin_moisture_high', ratio: 5, ratioIfAbsent: 0.2 },
+          { signal: 'ambient_humidity_high', ratio: 1.5 },
+        ],
         adjustments: [
-          'Dry material properly',
-          'Check hopper dryer operation',
-          'Verify material storage conditions',
+          { text: 'Dry material properly' },
+          { text: 'Check hopper dryer operation' },
+          { text: 'Verify material storage conditions' },
         ],
         explanation:
           'Water vapor creates micro-voids that scatter light.',
@@ -664,55 +865,75 @@ export const DEFECT_DATABASE: Record<DefectType, DefectInfo> = {
     causes: [
       {
         cause: 'Melt temperature variation',
-        probability: 'high',
+        rootCause: 'unsteady_extrusion',
+        prior: 0.3,
+        likelihoods: [
+          { signal: 'melt_pressure_unsteady', ratio: 3, ratioIfAbsent: 0.5 },
+        ],
         adjustments: [
-          'Stabilize barrel temperatures',
-          'Check for screw/barrel wear',
-          'Verify consistent material feed',
+          { text: 'Stabilize barrel temperatures' },
+          { text: 'Check for screw/barrel wear' },
+          { text: 'Verify consistent material feed' },
         ],
         explanation:
           'Temperature changes affect melt viscosity and bubble strength.',
       },
       {
         cause: 'Air ring imbalance',
-        probability: 'high',
+        rootCause: 'cooling_imbalance',
+        prior: 0.3,
+        likelihoods: [
+          { signal: 'air_ring_imbalance', ratio: 4, ratioIfAbsent: 0.4 },
+          { signal: 'ibc_running', ratio: 1.5 },
+        ],
         adjustments: [
-          'Level air ring precisely',
-          'Balance air flow around circumference',
-          'Check for blocked or damaged ports',
+          { text: 'Level air ring precisely' },
+          { text: 'Balance air flow around circumference' },
+          { text: 'Check for blocked or damaged ports' },
         ],
         explanation:
           'Uneven cooling causes asymmetric forces on the bubble.',
       },
       {
         cause: 'Inadequate melt strength',
-        probability: 'medium',
+        rootCause: 'resin_grade',
+        prior: 0.2,
+        likelihoods: [
+          { signal: 'melt_temp_high', ratio: 2 },
+          { signal: 'melt_pressure_low', ratio: 1.5 },
+        ],
         adjustments: [
-          'Reduce melt temperature',
-          'Decrease output rate',
-          'Consider different resin grade',
+          { text: 'Reduce melt temperature' },
+          { text: 'Decrease output rate' },
+          { text: 'Consider different resin grade' },
         ],
         explanation:
           'Weak melt cannot support the bubble weight and internal pressure.',
       },
       {
         cause: 'Draft or air currents',
-        probability: 'medium',
+        prior: 0.15,
         adjustments: [
-          'Shield bubble from drafts',
-          'Install bubble cage if needed',
-          'Check building HVAC systems',
+          { text: 'Shield bubble from drafts' },
+          { text: 'Install bubble cage if needed' },
+          { text: 'Check building HVAC systems' },
         ],
         explanation:
           'External air movement disturbs the delicate bubble equilibrium.',
       },
       {
         cause: 'Improper BUR or frost line',
-        probability: 'medium',
+        rootCause: 'bur_frost_line',
+        prior: 0.2,
+        likelihoods: [
+          { signal: 'bur_out_of_range', ratio: 3, ratioIfAbsent: 0.5 },
+          { signal: 'frost_line_low', ratio: 2 },
+          { signal: 'frost_line_high', ratio: 2 },
+        ],
         adjustments: [
-          'Adjust blow-up ratio',
-          'Modify frost line height',
-          'Balance cooling with output rate',
+          { text: 'Adjust blow-up ratio' },
+          { text: 'Modify frost line height' },
+          { text: 'Balance cooling with output rate' },
         ],
         explanation:
           'Wrong BUR or frost line position can cause natural instability modes.',
@@ -1,74 +1,331 @@
-import type { DiagnoseInputs, DiagnoseResult, DefectCause } from './types';
-import { getDefectInfo } from './defects';
-import { getMaterial } from './materials';
+import type {
+  Adjustment,
+  CauseEvidence,
+  CorrelatedCause,
+  DiagnoseInputs,
+  DiagnoseResult,
+  DiagnosedCause,
+  DiagnosticSignal,
+  LineMeasurements,
+  MaterialProperties,
+  MultiDiagnoseInputs,
+  MultiDiagnoseResult,
+  ResolvedAdjustment,
+  ResolvedMaterial,
+  SetpointParameter,
+} from './types';
+import { getDefectInfo, ROOT_CAUSES } from './defects';
+import { resolveMaterial } from './materials';
 
-// Analyze current settings to prioritize causes
-function analyzeCauses(inputs: DiagnoseInputs): DefectCause[] {
-  const defectInfo = getDefectInfo(inputs.defect);
-  const materialProps = getMaterial(inputs.material);
-  const causes = [...defectInfo.causes];
+// Fractional melt grades run close to critical shear stress at normal rates
+const FRACTIONAL_MELT_INDEX = 0.5;
+
+// Limits for measured line state
+const MOTOR_LOAD_LIMIT = 90; // % of rated load
+const PRESSURE_SWING_LIMIT = 0.03; // peak-to-peak, fraction of melt pressure
+const AIR_RING_VARIATION_LIMIT = 5; // % spread around the lip
+const NIP_PRESSURE_RANGE = { min: 15, max: 50 }; // PSI
+const MOISTURE_LIMIT = { hygroscopic: 0.1, polyolefin: 0.05 }; // % by weight
+const HUMIDITY_RANGE = { min: 30, max: 60 }; // % RH
+
+// Observation for one diagnostic signal; signals that cannot be checked
+// from the inputs are left out so they neither raise nor lower a cause
+interface SignalObservation {
+  observed: boolean;
+  detail: string;
+}
 
-  // Adjust probabilities based on current settings
+// Evaluate every checkable signal against the current settings and material
+function observeSignals(
+  inputs: DiagnoseInputs,
+  resolved: ResolvedMaterial
+): Partial<Record<DiagnosticSignal, SignalObservation>> {
+  const materialProps = resolved.properties;
   const { meltTemp, screwSpeed, dieTemp } = inputs.currentSettings;
+  const meltRange = materialProps.meltTempRange;
+  const dieRange = materialProps.barrelTemperatures.die;
+  const screwLimit = materialProps.screwSpeedRange.max * 0.9;
+  const hygroscopic =
+    resolved.material === 'EVOH' || !!resolved.blend?.components.some((c) => c.material === 'EVOH');
 
-  // Check if settings are outside normal ranges
-  const dieTempLow = dieTemp < materialProps.barrelTemperatures.die.min;
-  const dieTempHigh = dieTemp > materialProps.barrelTemperatures.die.max;
-  const meltTempLow = meltTemp < materialProps.meltTempRange.min;
-  const meltTempHigh = meltTemp > materialProps.meltTempRange.max;
-  const screwSpeedHigh = screwSpeed > materialProps.screwSpeedRange.max * 0.9;
+  const signals: Partial<Record<DiagnosticSignal, SignalObservation>> = {
+    melt_temp_low: {
+      observed: meltTemp < meltRange.min,
+      detail: `Melt temp ${meltTemp}°F vs ${materialProps.name} minimum ${meltRange.min}°F`,
+    },
+    melt_temp_high: {
+      observed: meltTemp > meltRange.max,
+      detail: `Melt temp ${meltTemp}°F vs ${materialProps.name} maximum ${meltRange.max}°F`,
+    },
+    die_temp_low: {
+      observed: dieTemp < dieRange.min,
+      detail: `Die temp ${dieTemp}°F vs ${materialProps.name} minimum ${dieRange.min}°F`,
+    },
+    die_temp_high: {
+      observed: dieTemp > dieRange.max,
+      detail: `Die temp ${dieTemp}°F vs ${materialProps.name} maximum ${dieRange.max}°F`,
+    },
+    screw_speed_high: {
+      observed: screwSpeed > screwLimit,
+      detail: `Screw speed ${screwSpeed} RPM vs ${Math.round(screwLimit)} RPM (90% of upper limit)`,
+    },
+    hygroscopic_material: {
+      observed: hygroscopic,
+      detail: 'EVOH is hygroscopic - moisture pickup is a common issue',
+    },
+    fractional_melt_grade: {
+      observed: materialProps.meltIndex < FRACTIONAL_MELT_INDEX,
+      detail: `${resolved.grade?.name ?? materialProps.name} melt index ${materialProps.meltIndex} - high viscosity`,
+    },
+  };
 
-  // Modify cause probabilities based on analysis
-  causes.forEach((cause) => {
-    // Temperature-related causes
-    if (cause.cause.toLowerCase().includes('temperature') ||
-        cause.cause.toLowerCase().includes('temp')) {
-      if (cause.cause.toLowerCase().includes('low') && (meltTempLow || dieTempLow)) {
-        cause.probability = 'high';
-        cause.explanation += ' [Current settings confirm low temperature condition]';
-      }
-      if (cause.cause.toLowerCase().includes('high') && (meltTempHigh || dieTempHigh)) {
-        cause.probability = 'high';
-        cause.explanation += ' [Current settings confirm high temperature condition]';
-      }
-    }
-
-    // Output/speed related causes
-    if (cause.cause.toLowerCase().includes('output') ||
-        cause.cause.toLowerCase().includes('rate') ||
-        cause.cause.toLowerCase().includes('speed')) {
-      if (screwSpeedHigh) {
-        cause.probability = 'high';
-        cause.explanation += ' [Current screw speed is near upper limit]';
-      }
-    }
+  // Additive levels are only known when the blend is entered
+  if (resolved.blend) {
+    const { slip, antiblock, ppa } = resolved.blend.additives;
+    signals.no_antiblock = {
+      observed: antiblock === 0,
+      detail: `Antiblock masterbatch at ${antiblock}%`,
+    };
+    signals.high_slip = {
+      observed: slip >= 2,
+      detail: `Slip masterbatch at ${slip}%`,
+    };
+    signals.no_ppa = {
+      observed: ppa === 0,
+      detail: `PPA masterbatch at ${ppa}%`,
+    };
+  }
 
-    // Moisture related - flag for hygroscopic materials
-    if (cause.cause.toLowerCase().includes('moisture')) {
-      if (inputs.material === 'EVOH') {
-        cause.probability = 'high';
-        cause.explanation += ' [EVOH is hygroscopic - moisture is common issue]';
-      }
-    }
+  addMeasuredSignals(signals, inputs.measurements ?? {}, materialProps, hygroscopic);
+
+  return signals;
+}
+
+// Signals from measured line state - only the values that were entered are checked
+function addMeasuredSignals(
+  signals: Partial<Record<DiagnosticSignal, SignalObservation>>,
+  measured: LineMeasurements,
+  materialProps: MaterialProperties,
+  hygroscopic: boolean
+) {
+  const pressureRange = materialProps.meltPressureRange;
+
+  if (measured.meltPressure !== undefined) {
+    signals.melt_pressure_high = {
+      observed: measured.meltPressure > pressureRange.max,
+      detail: `Melt pressure ${measured.meltPressure} PSI vs ${materialProps.name} maximum ${pressureRange.max} PSI`,
+    };
+    signals.melt_pressure_low = {
+      observed: measured.meltPressure < pressureRange.min,
+      detail: `Melt pressure ${measured.meltPressure} PSI vs ${materialProps.name} minimum ${pressureRange.min} PSI`,
+    };
+  }
+
+  if (measured.meltPressureSwing !== undefined) {
+    const reference = measured.meltPressure ?? (pressureRange.min + pressureRange.max) / 2;
+    const limit = Math.round(reference * PRESSURE_SWING_LIMIT);
+    signals.melt_pressure_unsteady = {
+      observed: measured.meltPressureSwing > limit,
+      detail: `Melt pressure swing ${measured.meltPressureSwing} PSI vs ${limit} PSI (${PRESSURE_SWING_LIMIT * 100}% of pressure)`,
+    };
+  }
+
+  if (measured.motorLoad !== undefined) {
+    signals.motor_load_high = {
+      observed: measured.motorLoad > MOTOR_LOAD_LIMIT,
+      detail: `Motor load ${measured.motorLoad}% vs ${MOTOR_LOAD_LIMIT}% limit`,
+    };
+  }
+
+  if (measured.blowUpRatio !== undefined) {
+    const burRange = materialProps.blowUpRatioRange;
+    signals.bur_out_of_range = {
+      observed: measured.blowUpRatio < burRange.min || measured.blowUpRatio > burRange.max,
+      detail: `BUR ${measured.blowUpRatio}:1 vs ${materialProps.name} range ${burRange.min}-${burRange.max}:1`,
+    };
+  }
+
+  // Frost line height is judged against the die: typically 3-6x die diameter
+  if (measured.frostLineHeight !== undefined && measured.dieDiameter) {
+    const factor = materialProps.frostLineHeightFactor;
+    const min = Math.round(measured.dieDiameter * 3 * factor);
+    const max = Math.round(measured.dieDiameter * 6 * factor);
+    signals.frost_line_low = {
+      observed: measured.frostLineHeight < min,
+      detail: `Frost line ${measured.frostLineHeight}" vs ${min}" minimum for a ${measured.dieDiameter}" die`,
+    };
+    signals.frost_line_high = {
+      observed: measured.frostLineHeight > max,
+      detail: `Frost line ${measured.frostLineHeight}" vs ${max}" maximum for a ${measured.dieDiameter}" die`,
+    };
+  }
+
+  if (measured.airRingVariation !== undefined) {
+    signals.air_ring_imbalance = {
+      observed: measured.airRingVariation > AIR_RING_VARIATION_LIMIT,
+      detail: `Air ring velocity spread ${measured.airRingVariation}% vs ${AIR_RING_VARIATION_LIMIT}% limit`,
+    };
+  }
+
+  if (measured.ibcRunning !== undefined) {
+    signals.ibc_running = {
+      observed: measured.ibcRunning,
+      detail: measured.ibcRunning
+        ? 'IBC running - supply/exhaust imbalance disturbs the bubble'
+        : 'IBC not running',
+    };
+  }
+
+  if (measured.nipPressure !== undefined) {
+    signals.nip_pressure_low = {
+      observed: measured.nipPressure < NIP_PRESSURE_RANGE.min,
+      detail: `Nip pressure ${measured.nipPressure} PSI vs ${NIP_PRESSURE_RANGE.min} PSI minimum`,
+    };
+    signals.nip_pressure_high = {
+      observed: measured.nipPressure > NIP_PRESSURE_RANGE.max,
+      detail: `Nip pressure ${measured.nipPressure} PSI vs ${NIP_PRESSURE_RANGE.max} PSI maximum`,
+    };
+  }
+
+  if (measured.resinMoisture !== undefined) {
+    const limit = hygroscopic ? MOISTURE_LIMIT.hygroscopic : MOISTURE_LIMIT.polyolefin;
+    signals.resin_moisture_high = {
+      observed: measured.resinMoisture > limit,
+      detail: `Resin moisture ${measured.resinMoisture}% vs ${limit}% limit`,
+    };
+  }
+
+  if (measured.ambientHumidity !== undefined) {
+    signals.ambient_humidity_high = {
+      observed: measured.ambientHumidity > HUMIDITY_RANGE.max,
+      detail: `Ambient humidity ${measured.ambientHumidity}% RH vs ${HUMIDITY_RANGE.max}% RH`,
+    };
+    signals.ambient_humidity_low = {
+      observed: measured.ambientHumidity < HUMIDITY_RANGE.min,
+      detail: `Ambient humidity ${measured.ambientHumidity}% RH vs ${HUMIDITY_RANGE.min}% RH - static builds up in dry air`,
+    };
+  }
+}
+
+// Display label and unit for each setpoint, and where its current value comes from
+const SETPOINTS: Record<
+  SetpointParameter,
+  { label: string; unit: string; current: (settings: DiagnoseInputs['currentSettings']) => number | undefined }
+> = {
+  meteringTemp: { label: 'Metering zone', unit: '°F', current: (settings) => settings.meteringTemp },
+  dieTemp: { label: 'Die', unit: '°F', current: (settings) => settings.dieTemp },
+  screwSpeed: { label: 'Screw speed', unit: 'RPM', current: (settings) => settings.screwSpeed },
+  lineSpeed: { label: 'Line speed', unit: 'ft/min', current: (settings) => settings.lineSpeed },
+  winderTension: { label: 'Winder tension', unit: '%', current: () => undefined },
+};
+
+// Apply an adjustment's setpoint change to the operator's current settings
+function resolveAdjustment(
+  adjustment: Adjustment,
+  settings: DiagnoseInputs['currentSettings']
+): ResolvedAdjustment {
+  if (!adjustment.change) return { ...adjustment };
+
+  const { parameter, direction, magnitude, unit } = adjustment.change;
+  const setpoint = SETPOINTS[parameter];
+  const current = setpoint.current(settings);
+  if (current === undefined) return { ...adjustment };
+
+  const sign = direction === 'increase' ? 1 : -1;
+  const apply = (step: number) =>
+    Math.round(unit === '%' ? current * (1 + (sign * step) / 100) : current + sign * step);
+  const [a, b] = [apply(magnitude.min), apply(magnitude.max)];
+
+  return {
+    ...adjustment,
+    setpoint: {
+      label: setpoint.label,
+      current,
+      target: { min: Math.min(a, b), max: Math.max(a, b) },
+      unit: setpoint.unit,
+    },
+  };
+}
+
+// Display band for a normalized score, relative to an even split across the causes
+function getProbabilityBand(score: number, causeCount: number): DiagnosedCause['probability'] {
+  const relative = score * causeCount;
+  if (relative >= 1.1) return 'high';
+  if (relative >= 0.6) return 'medium';
+  return 'low';
+}
+
+// Score causes with Bayes' rule: each cause's prior is multiplied by the
+// likelihood ratio of every signal it depends on, then normalized across the defect
+function analyzeCauses(inputs: DiagnoseInputs, resolved: ResolvedMaterial): DiagnosedCause[] {
+  const defectInfo = getDefectInfo(inputs.defect);
+  const signals = observeSignals(inputs, resolved);
+
+  const weighted = defectInfo.causes.map((cause) => {
+    const { prior, likelihoods = [], ...rest } = cause;
+    const evidence: CauseEvidence[] = [];
+    let weight = prior;
+
+    likelihoods.forEach((likelihood) => {
+      const observation = signals[likelihood.signal];
+      if (!observation) return;
+
+      const ratio = observation.observed ? likelihood.ratio : likelihood.ratioIfAbsent;
+      if (ratio === undefined) return;
+
+      weight *= ratio;
+      evidence.push({
+        signal: likelihood.signal,
+        observed: observation.observed,
+        ratio,
+        detail: observation.detail,
+      });
+    });
+
+    return { rest, prior, weight, evidence };
   });
 
-  // Sort by probability
-  const probabilityOrder = { high: 0, medium: 1, low: 2 };
-  causes.sort((a, b) => probabilityOrder[a.probability] - probabilityOrder[b.probability]);
+  const totalPrior = weighted.reduce((sum, c) => sum + c.prior, 0);
+  const totalWeight = weighted.reduce((sum, c) => sum + c.weight, 0);
+
+  const causes: DiagnosedCause[] = weighted.map(({ rest, prior, weight, evidence }) => {
+    const score = weight / totalWeight;
+    return {
+      ...rest,
+      adjustments: rest.adjustments.map((adj) => resolveAdjustment(adj, inputs.currentSettings)),
+      prior: prior / totalPrior,
+      score,
+      probability: getProbabilityBand(score, weighted.length),
+      evidence,
+    };
+  });
+
+  causes.sort((a, b) => b.score - a.score);
 
   return causes;
 }
 
 // Add material-specific recommendations
 function getMaterialSpecificRecommendations(
-  inputs: DiagnoseInputs
+  resolved: ResolvedMaterial
 ): string[] {
   const recommendations: string[] = [];
 
-  switch (inputs.material) {
+  if (resolved.blend) {
+    recommendations.push(
+      `Verify blender ratio - drift away from ${resolved.properties.name} shifts the processing window`
+    );
+  }
+  if (resolved.grade) {
+    recommendations.push(
+      `Windows adjusted for ${resolved.grade.name} (${resolved.grade.meltIndex} MI, ${resolved.grade.density} g/cc)`
+    );
+  }
+
+  switch (resolved.material) {
     case 'HDPE':
       recommendations.push(
-        'HDPE has a narrow processing window - small temperature adjustments (5-10°F) recommended'
+        'HDPE has a narrow processing window - adjust temperatures by 5-10°F at a time'
       );
       recommendations.push(
         'Monitor melt pressure closely when adjusting parameters'
@@ -83,9 +340,11 @@ function getMaterialSpecificRecommendations(
       recommendations.push(
         'LLDPE requires higher motor load - ensure extruder is not overloaded'
       );
-      recommendations.push(
-        'Consider blending with LDPE if processing is difficult'
-      );
+      if (!resolved.blend?.components.some((c) => c.material === 'LDPE')) {
+        recommendations.push(
+          'Consider blending with LDPE if processing is difficult'
+        );
+      }
       break;
     case 'EVOH':
       recommendations.push(
@@ -98,20 +357,32 @@ function getMaterialSpecificRecommendations(
         'Consider purging with LDPE before and after EVOH runs'
       );
       break;
+    case 'TIE':
+      recommendations.push(
+        'Check interlayer adhesion - tie resin needs adequate melt temperature to bond'
+      );
+      recommendations.push(
+        'Tie layers degrade with long residence time - keep the tie extruder running at a steady rate'
+      );
+      break;
   }
 
   return recommendations;
 }
 
 // Get defect-specific process checks
-function getProcessChecks(inputs: DiagnoseInputs): string[] {
+function getProcessChecks(inputs: DiagnoseInputs, resolved: ResolvedMaterial): string[] {
   const checks: string[] = [];
 
   switch (inputs.defect) {
     case 'melt_fracture':
     case 'shark_skin':
       checks.push('Verify die land length and condition');
-      checks.push('Check if processing aid is being used and at correct level');
+      if (resolved.blend && resolved.blend.additives.ppa === 0) {
+        checks.push('No PPA in current blend - 1-2% PPA masterbatch is usually the fastest fix');
+      } else {
+        checks.push('Check if processing aid is being used and at correct level');
+      }
       break;
     case 'die_lines':
       checks.push('Inspect die lips for damage with magnification');
@@ -140,13 +411,14 @@ function getProcessChecks(inputs: DiagnoseInputs): string[] {
 
 export function diagnoseDefect(inputs: DiagnoseInputs): DiagnoseResult {
   const defectInfo = getDefectInfo(inputs.defect);
-  const analyzedCauses = analyzeCauses(inputs);
+  const resolved = resolveMaterial(inputs);
+  const analyzedCauses = analyzeCauses(inputs, resolved);
 
   // Combine general recommendations
   const generalRecommendations = [
     ...defectInfo.generalRecommendations,
-    ...getMaterialSpecificRecommendations(inputs),
-    ...getProcessChecks(inputs),
+    ...getMaterialSpecificRecommendations(resolved),
+    ...getProcessChecks(inputs, resolved),
   ];
 
   return {
@@ -157,3 +429,86 @@ export function diagnoseDefect(inputs: DiagnoseInputs): DiagnoseResult {
     generalRecommendations,
   };
 }
+
+// Merge causes shared across defects into one ranking. Each defect's scores sum
+// to 1, so the merged score is the average over the observed defects - a cause
+// that explains several of them collects score from each
+function correlateCauses(results: DiagnoseResult[]): CorrelatedCause[] {
+  const merged = new Map<string, CorrelatedCause>();
+  const defectCount = results.length;
+
+  results.forEach((result) => {
+    result.causes.forEach((cause) => {
+      const key = cause.rootCause ?? cause.cause;
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, {
+          ...cause,
+          prior: cause.prior / defectCount,
+          score: cause.score / defectCount,
+          adjustments: [...cause.adjustments],
+          evidence: [...cause.evidence],
+          explainsDefects: [result.defect],
+        });
+        return;
+      }
+
+      existing.prior += cause.prior / defectCount;
+      existing.score += cause.score / defectCount;
+      if (existing.cause !== cause.cause && cause.rootCause) {
+        existing.cause = ROOT_CAUSES[cause.rootCause];
+      }
+      cause.adjustments.forEach((adj) => {
+        if (!existing.adjustments.some((a) => a.text === adj.text)) existing.adjustments.push(adj);
+      });
+      cause.evidence.forEach((item) => {
+        if (!existing.evidence.some((e) => e.signal === item.signal)) existing.evidence.push(item);
+      });
+      if (!existing.explanation.includes(cause.explanation)) {
+        existing.explanation += ` ${cause.explanation}`;
+      }
+      existing.explainsDefects.push(result.defect);
+    });
+  });
+
+  const causes = [...merged.values()];
+  causes.forEach((cause) => {
+    cause.probability = getProbabilityBand(cause.score, causes.length);
+  });
+
+  causes.sort(
+    (a, b) => b.score - a.score || b.explainsDefects.length - a.explainsDefects.length
+  );
+
+  return causes;
+}
+
+export function diagnoseDefects(inputs: MultiDiagnoseInputs): MultiDiagnoseResult {
+  const defects = [...new Set(inputs.defects)];
+  const results = defects.map((defect) => diagnoseDefect({ ...inputs, defect }));
+  const causes = correlateCauses(results);
+
+  const generalRecommendations: string[] = [];
+  const sharedCount = causes.filter((cause) => cause.explainsDefects.length > 1).length;
+  if (sharedCount > 0) {
+    generalRecommendations.push(
+      `${sharedCount} cause${sharedCount > 1 ? 's' : ''} shared across the observed defects - address ${sharedCount > 1 ? 'these' : 'it'} first`
+    );
+  }
+  results.forEach((result) => {
+    result.generalRecommendations.forEach((rec) => {
+      if (!generalRecommendations.includes(rec)) generalRecommendations.push(rec);
+    });
+  });
+
+  return {
+    defects: results.map((result) => ({
+      defect: result.defect,
+      defectName: result.defectName,
+      description: result.description,
+    })),
+    causes,
+    generalRecommendations,
+  };
+}
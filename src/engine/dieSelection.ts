@@ -0,0 +1,222 @@
+import type {
+  AirRingType,
+  CoolingSetup,
+  DieInventoryItem,
+  DieScore,
+  DieSelection,
+  FilmSizing,
+  MaterialProperties,
+} from './types';
+import { getFrostLineWindow, predictCooling } from './cooling';
+import { calculateDieShear } from './rheology';
+
+// Die selection: evaluate every die the plant owns for a job instead of
+// picking one from OD thresholds, and rank them on a weighted score.
+
+const WEIGHTS = { blowUpRatio: 0.35, stability: 0.25, output: 0.25, frostLine: 0.15 };
+
+const HIGH_DRAWDOWN = 40;
+
+interface DieSelectionJob {
+  requiredOD: number; // inches
+  targetGauge: number; // mils
+  productionRate: number; // lbs/hr
+  materialProps: MaterialProperties;
+  meltTemp: number; // °F
+  airRing: AirRingType;
+  cooling?: CoolingSetup;
+  sizing?: FilmSizing; // per-die geometry and trim when sized from a film spec
+  ppa?: number; // PPA masterbatch % in the feed
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function clampScore(value: number): number {
+  return Math.round(Math.max(0, Math.min(100, value)));
+}
+
+function scoreDie(die: DieInventoryItem, job: DieSelectionJob): DieScore {
+  const { materialProps, productionRate, targetGauge } = job;
+  const range = materialProps.blowUpRatioRange;
+  const issues: string[] = [];
+  let feasible = true;
+
+  // Geometry: straight from the OD, or from film spec sizing (which may trim a wider bubble)
+  const sized = job.sizing?.candidates.find((c) => c.dieDiameter === die.diameter);
+  const blowUpRatio = sized ? sized.blowUpRatio : job.requiredOD / die.diameter;
+  const bubbleOD = sized ? sized.bubbleOD : job.requiredOD;
+
+  // BUR: best at the middle of the material range, half marks at its edges
+  const mid = (range.min + range.max) / 2;
+  let burScore = 0;
+  if (sized && !sized.feasible) {
+    feasible = false;
+    issues.push(sized.note);
+  } else if (blowUpRatio < range.min || blowUpRatio > range.max) {
+    feasible = false;
+    issues.push(`BUR ${round(blowUpRatio)} is outside the ${materialProps.name} range (${range.min}-${range.max})`);
+  } else {
+    burScore = 100 - (50 * Math.abs(blowUpRatio - mid)) / ((range.max - range.min) / 2);
+  }
+  if (sized && feasible) {
+    const leastTrim = Math.min(...job.sizing!.candidates.filter((c) => c.feasible).map((c) => c.trimWaste));
+    if (sized.trimWaste > leastTrim) {
+      burScore -= 2 * (sized.trimWaste - leastTrim);
+      issues.push(`${sized.trimWaste}% trim waste`);
+    }
+  }
+
+  // Stability: extreme BUR and heavy drawdown from a wide gap both unsettle the
+  // bubble, and a narrow gap can push the wall stress past melt fracture
+  let stability = 100;
+  if (blowUpRatio > 3.5) stability -= 25;
+  if (blowUpRatio < 2) stability -= 15;
+  const drawdown = die.gap / (targetGauge * blowUpRatio);
+  if (drawdown < 1) {
+    feasible = false;
+    stability = 0;
+    issues.push(`${die.gap} mil gap is too narrow for ${targetGauge} mils at BUR ${round(blowUpRatio)}`);
+  } else if (drawdown > HIGH_DRAWDOWN) {
+    stability -= 20;
+    issues.push(`High drawdown ratio (${round(drawdown, 1)}) from the ${die.gap} mil gap`);
+  }
+  const shear = calculateDieShear({
+    productionRate,
+    meltTemp: job.meltTemp,
+    dieDiameter: die.diameter,
+    dieGap: die.gap,
+    materialProps,
+    ppa: job.ppa,
+  });
+  if (shear.risk === 'high') {
+    stability -= 30;
+    issues.push(
+      `Melt fracture: ~${shear.wallShearStress} PSI wall stress against a ~${shear.criticalShearStress} PSI onset in the ${die.gap} mil gap`
+    );
+  } else if (shear.risk === 'moderate') {
+    stability -= 10;
+  }
+
+  // Bubble cooling on this die sets both the frost line and the output limit
+  const cooling = predictCooling({
+    productionRate,
+    meltTemp: job.meltTemp,
+    dieDiameter: die.diameter,
+    dieGap: die.gap,
+    bubbleOD,
+    gauge: targetGauge,
+    materialProps,
+    airRing: job.airRing,
+    setup: job.cooling,
+  });
+
+  // Output per inch of die circumference against the cooling-limited output per inch
+  const outputPerInch = productionRate / (Math.PI * die.diameter);
+  const limit = cooling.maxCoolingRate / (Math.PI * die.diameter);
+  let output: number;
+  if (limit <= 0) {
+    output = 0;
+    issues.push('Cooling air is too warm to freeze the bubble');
+  } else if (outputPerInch > limit) {
+    output = 50 - (100 * (outputPerInch - limit)) / limit;
+    issues.push(`${round(outputPerInch, 1)} lbs/hr/in is above the ${round(limit, 1)} lbs/hr/in cooling limit`);
+  } else if (outputPerInch > 0.85 * limit) {
+    output = 100 - (50 * (outputPerInch - 0.85 * limit)) / (0.15 * limit);
+  } else if (outputPerInch < 0.5 * limit) {
+    // Underused die: long residence time and a slow, thick melt curtain
+    output = (100 * outputPerInch) / (0.5 * limit);
+    if (outputPerInch < 0.25 * limit) {
+      issues.push(`Only ${round(outputPerInch, 1)} lbs/hr/in - die is oversized for this rate`);
+    }
+  } else {
+    output = 100;
+  }
+
+  // Frost line: predicted height against the practical window for the die
+  const { min: frostMin, max: frostMax } = getFrostLineWindow(die.diameter, materialProps);
+  const expected = cooling.frostLineHeight;
+  const frostMid = (frostMin + frostMax) / 2;
+  let frostLine: number;
+  if (expected >= frostMin && expected <= frostMax) {
+    frostLine = 100 - (30 * Math.abs(expected - frostMid)) / (frostMid - frostMin);
+  } else {
+    const beyond = expected < frostMin ? frostMin - expected : expected - frostMax;
+    frostLine = 70 - (70 * beyond) / (frostMid - frostMin);
+    issues.push(
+      `Expected frost line ~${Math.round(expected)}" is ${expected < frostMin ? 'below' : 'above'} the ${frostMin}-${frostMax}" range for this die`
+    );
+  }
+
+  const scores = {
+    blowUpRatio: clampScore(burScore),
+    stability: clampScore(stability),
+    output: clampScore(output),
+    frostLine: clampScore(frostLine),
+  };
+  const total = Math.round(
+    scores.blowUpRatio * WEIGHTS.blowUpRatio +
+      scores.stability * WEIGHTS.stability +
+      scores.output * WEIGHTS.output +
+      scores.frostLine * WEIGHTS.frostLine
+  );
+
+  return {
+    die,
+    blowUpRatio: round(blowUpRatio),
+    bubbleOD: round(bubbleOD),
+    outputPerInch: round(outputPerInch, 1),
+    frostLineHeight: { expected: Math.round(expected), min: frostMin, max: frostMax },
+    scores,
+    total,
+    feasible,
+    issues,
+  };
+}
+
+// Why the top die beats the runner-up, in terms of the scores it wins on
+function explainSelection(ranked: DieScore[], materialProps: MaterialProperties): string {
+  const [top, runnerUp] = ranked;
+  if (!top.feasible) {
+    return `No die in the inventory can run this job within limits; the ${top.die.name} comes closest (${top.issues[0]})`;
+  }
+  if (!runnerUp) {
+    return `The ${top.die.name} is the only die in the inventory`;
+  }
+  if (!runnerUp.feasible) {
+    return `The ${top.die.name} is the only die that can run this job - the ${runnerUp.die.name} is ruled out: ${runnerUp.issues[0]}`;
+  }
+
+  const mid = (materialProps.blowUpRatioRange.min + materialProps.blowUpRatioRange.max) / 2;
+  const advantages: string[] = [];
+  if (top.scores.blowUpRatio - runnerUp.scores.blowUpRatio >= 5) {
+    advantages.push(`BUR ${top.blowUpRatio} is nearer the ${materialProps.name} optimum of ${round(mid)}`);
+  }
+  if (top.scores.stability - runnerUp.scores.stability >= 5) {
+    advantages.push('more stable bubble');
+  }
+  if (top.scores.output - runnerUp.scores.output >= 5) {
+    advantages.push(`${top.outputPerInch} lbs/hr/in suits the cooling`);
+  }
+  if (top.scores.frostLine - runnerUp.scores.frostLine >= 5) {
+    advantages.push(`expected frost line ~${top.frostLineHeight.expected}" fits the die`);
+  }
+
+  const comparison = `The ${top.die.name} scores ${top.total} against ${runnerUp.total} for the ${runnerUp.die.name}`;
+  return advantages.length > 0 ? `${comparison}: ${advantages.join('; ')}` : `${comparison} on overall balance`;
+}
+
+// Rank every die in the inventory for a job, best first
+export function selectDie(dies: DieInventoryItem[], job: DieSelectionJob): DieSelection {
+  const ranked = dies
+    .map((die) => scoreDie(die, job))
+    .sort((a, b) => (a.feasible !== b.feasible ? (a.feasible ? -1 : 1) : b.total - a.total));
+
+  return {
+    ranked,
+    selected: ranked[0],
+    reason: explainSelection(ranked, job.materialProps),
+  };
+}
@@ -0,0 +1,182 @@
+import type { AirRingType, DieInventoryItem, EquipmentProfile, MaterialProperties, MotorLoad } from './types';
+import { getMeltVolumeFlow } from './rheology';
+
+// Line equipment profiles replace the generic die-size and specific-output assumptions.
+// Profiles are user-defined; the defaults below are starting points to copy and edit.
+
+// airFlowPerInch: typical blower delivery in CFM per inch of die circumference
+export const AIR_RING_TYPES: Record<AirRingType, { name: string; airFlowPerInch: number; ibc: boolean }> = {
+  'single-lip': { name: 'Single-lip', airFlowPerInch: 30, ibc: false },
+  'dual-lip': { name: 'Dual-lip', airFlowPerInch: 50, ibc: false },
+  'dual-lip-ibc': { name: 'Dual-lip with IBC', airFlowPerInch: 50, ibc: true },
+};
+
+export const DEFAULT_EQUIPMENT_PROFILES: EquipmentProfile[] = [
+  {
+    id: 'line-1',
+    name: 'Line 1 - 2.5" 24:1, 6" die',
+    extruder: {
+      screwDiameter: 2.5,
+      lengthToDiameter: 24,
+      specificOutput: [
+        { rpm: 20, lbsPerHrPerRpm: 1.8 },
+        { rpm: 60, lbsPerHrPerRpm: 1.7 },
+        { rpm: 120, lbsPerHrPerRpm: 1.5 },
+      ],
+      maxRPM: 120,
+      motorHP: 40,
+    },
+    die: { diameter: 6, gap: 40 },
+    airRing: 'single-lip',
+  },
+  {
+    id: 'line-2',
+    name: 'Line 2 - 3.5" 30:1, 10" die',
+    extruder: {
+      screwDiameter: 3.5,
+      lengthToDiameter: 30,
+      specificOutput: [
+        { rpm: 20, lbsPerHrPerRpm: 3.9 },
+        { rpm: 60, lbsPerHrPerRpm: 3.7 },
+        { rpm: 110, lbsPerHrPerRpm: 3.4 },
+      ],
+      maxRPM: 110,
+      motorHP: 100,
+    },
+    die: { diameter: 10, gap: 80 },
+    airRing: 'dual-lip',
+  },
+];
+
+// Dies on the shelf that can be mounted for a job
+export const DEFAULT_DIE_INVENTORY: DieInventoryItem[] = [
+  { id: 'die-4', name: '4" spiral', diameter: 4, gap: 35 },
+  { id: 'die-6', name: '6" spiral', diameter: 6, gap: 40 },
+  { id: 'die-8', name: '8" spiral', diameter: 8, gap: 60 },
+  { id: 'die-10', name: '10" spiral', diameter: 10, gap: 80 },
+];
+
+// Rough specific output (lbs/hr/RPM) for a PE film screw of a given diameter,
+// used to seed a new profile before the curve is measured on the line
+export function estimateSpecificOutput(screwDiameter: number): number {
+  return Math.round(0.2 * Math.pow(screwDiameter, 2.3) * 10) / 10;
+}
+
+function sortedCurve(extruder: EquipmentProfile['extruder']) {
+  return [...extruder.specificOutput].sort((a, b) => a.rpm - b.rpm);
+}
+
+// Specific output at a screw speed, interpolated along the measured curve
+export function getSpecificOutput(extruder: EquipmentProfile['extruder'], rpm: number): number {
+  const curve = sortedCurve(extruder);
+  if (curve.length === 0) return estimateSpecificOutput(extruder.screwDiameter);
+  if (rpm <= curve[0].rpm) return curve[0].lbsPerHrPerRpm;
+
+  for (let i = 1; i < curve.length; i++) {
+    if (rpm <= curve[i].rpm) {
+      const fraction = (rpm - curve[i - 1].rpm) / (curve[i].rpm - curve[i - 1].rpm);
+      return (
+        curve[i - 1].lbsPerHrPerRpm +
+        fraction * (curve[i].lbsPerHrPerRpm - curve[i - 1].lbsPerHrPerRpm)
+      );
+    }
+  }
+  return curve[curve.length - 1].lbsPerHrPerRpm;
+}
+
+// Screw speed needed to deliver an output rate on this extruder
+export function calculateRPMForRate(extruder: EquipmentProfile['extruder'], productionRate: number): number {
+  // Output rises monotonically with RPM, so bisect on RPM
+  const outputAt = (rpm: number) => rpm * getSpecificOutput(extruder, rpm);
+  let low = 0;
+  let high = Math.max(extruder.maxRPM, 1) * 4;
+
+  if (outputAt(high) < productionRate) {
+    return productionRate / getSpecificOutput(extruder, high);
+  }
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (outputAt(mid) < productionRate) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return high;
+}
+
+// Specific output assumed without a line profile: lbs/hr per RPM for a standard 24:1 L/D screw
+export const GENERIC_SPECIFIC_OUTPUT = 5;
+
+// Highest output the extruder can deliver at its maximum screw speed
+export function getMaxOutput(extruder: EquipmentProfile['extruder']): number {
+  return extruder.maxRPM * getSpecificOutput(extruder, extruder.maxRPM);
+}
+
+// Drive load from an energy balance: the screw supplies most of the heat to
+// bring pellets up to melt temperature and melt the crystals, and pumps the
+// melt against the head pressure; barrel heaters make up the rest. Zones set
+// above the material's recommended settings put more of that heat in from the
+// heaters and take it off the screw, weighted toward where the melting happens.
+
+const FEED_TEMP = 70; // °F, pellets at ambient
+const SCREW_HEAT_SHARE = 0.9;
+const SCREW_HEAT_SHARE_PER_F = 0.005; // share the heaters take per °F of weighted zone offset
+const SCREW_HEAT_SHARE_RANGE = { min: 0.75, max: 0.95 };
+const ZONE_HEAT_WEIGHTS = { feed: 0.2, compression: 0.4, metering: 0.4 };
+const GEARBOX_EFFICIENCY = 0.9;
+const MOTOR_EFFICIENCY = 0.93;
+const POWER_FACTOR = 0.85;
+export const DEFAULT_MOTOR_VOLTAGE = 460; // V
+
+const BTU_PER_HR_PER_HP = 2544.4;
+const IN_LBF_PER_SEC_PER_HP = 6600;
+const KW_PER_HP = 0.7457;
+
+interface MotorLoadInputs {
+  productionRate: number; // lbs/hr
+  meltTemp: number; // °F
+  headPressure: number; // PSI
+  materialProps: MaterialProperties;
+  extruder?: EquipmentProfile['extruder'];
+  barrelTemps?: { feed: number; compression: number; metering: number }; // °F, recommended settings if omitted
+}
+
+// Share of the melting heat the screw supplies with the zones at these settings
+function getScrewHeatShare(
+  barrelTemps: MotorLoadInputs['barrelTemps'],
+  recommended: MaterialProperties['barrelTemperatures']
+): number {
+  if (!barrelTemps) return SCREW_HEAT_SHARE;
+  const offset =
+    ZONE_HEAT_WEIGHTS.feed * (barrelTemps.feed - recommended.feed.recommended) +
+    ZONE_HEAT_WEIGHTS.compression * (barrelTemps.compression - recommended.compression.recommended) +
+    ZONE_HEAT_WEIGHTS.metering * (barrelTemps.metering - recommended.metering.recommended);
+  const share = SCREW_HEAT_SHARE - offset * SCREW_HEAT_SHARE_PER_F;
+  return Math.min(SCREW_HEAT_SHARE_RANGE.max, Math.max(SCREW_HEAT_SHARE_RANGE.min, share));
+}
+
+export function estimateMotorLoad(inputs: MotorLoadInputs): MotorLoad {
+  const { productionRate, meltTemp, headPressure, materialProps, extruder, barrelTemps } = inputs;
+  const screwHeatShare = getScrewHeatShare(barrelTemps, materialProps.barrelTemperatures);
+
+  // BTU/lb from pellet to melt, less what the heaters put in
+  const enthalpy = materialProps.specificHeat * (meltTemp - FEED_TEMP) + materialProps.heatOfFusion;
+  const heatingPower = (productionRate * enthalpy * screwHeatShare) / BTU_PER_HR_PER_HP;
+  const pumpingPower = (headPressure * getMeltVolumeFlow(productionRate, materialProps)) / IN_LBF_PER_SEC_PER_HP;
+  const drivePower = (heatingPower + pumpingPower) / GEARBOX_EFFICIENCY;
+
+  const electricalPower = (drivePower * KW_PER_HP) / MOTOR_EFFICIENCY;
+  const voltage = extruder?.motorVoltage ?? DEFAULT_MOTOR_VOLTAGE;
+  const amps = (electricalPower * 1000) / (Math.sqrt(3) * voltage * POWER_FACTOR);
+
+  return {
+    drivePower: Math.round(drivePower * 10) / 10,
+    electricalPower: Math.round(electricalPower * 10) / 10,
+    voltage,
+    amps: Math.round(amps),
+    specificEnergy: productionRate > 0 ? Math.round((electricalPower / productionRate) * 1000) / 1000 : 0,
+    ratedHP: extruder?.motorHP,
+    loadPercent: extruder?.motorHP ? Math.round((drivePower / extruder.motorHP) * 100) : undefined,
+  };
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import type { DiagnoseInputs, OptimizeInputs } from './types';
+import { diagnoseDefect } from './diagnose';
+import {
+  createDiagnoseExchange,
+  createOptimizeExchange,
+  EXCHANGE_SCHEMA_VERSION,
+  exchangeToCsv,
+  exchangeToJson,
+  importExchange,
+  validateOptimizeInputs,
+} from './exchange';
+import { optimizeParameters } from './optimizer';
+import { DEFAULT_EQUIPMENT_PROFILES } from './equipment';
+
+const OPTIMIZE: OptimizeInputs = {
+  material: 'LLDPE',
+  targetOD: 20,
+  targetGauge: 1.5,
+  productionRate: 200,
+  equipment: DEFAULT_EQUIPMENT_PROFILES[1],
+};
+
+const DIAGNOSE: DiagnoseInputs = {
+  material: 'LDPE',
+  currentSettings: { meltTemp: 410, screwSpeed: 60, lineSpeed: 100, dieTemp: 410, meteringTemp: 400 },
+  defect: 'gels',
+};
+
+function optimizeDocument() {
+  return createOptimizeExchange(OPTIMIZE, optimizeParameters(OPTIMIZE));
+}
+
+describe('exchange round trip', () => {
+  it('reads back its own optimize JSON with the stored result matching', () => {
+    const document = optimizeDocument();
+    const imported = importExchange(exchangeToJson(document));
+    expect(imported.errors).toEqual([]);
+    expect(imported.format).toBe('json');
+    expect(imported.document).toEqual(JSON.parse(exchangeToJson(document)));
+    expect(imported.matches).toBe(true);
+  });
+
+  it('reads back its own optimize CSV with the values typed again', () => {
+    const imported = importExchange(exchangeToCsv(optimizeDocument()));
+    expect(imported.errors).toEqual([]);
+    expect(imported.format).toBe('csv');
+    expect(imported.document?.inputs).toEqual(JSON.parse(JSON.stringify(OPTIMIZE)));
+    expect(imported.matches).toBe(true);
+  });
+
+  it('round-trips a diagnosis in both formats', () => {
+    const document = createDiagnoseExchange(DIAGNOSE, diagnoseDefect(DIAGNOSE));
+    for (const text of [exchangeToJson(document), exchangeToCsv(document)]) {
+      const imported = importExchange(text);
+      expect(imported.errors).toEqual([]);
+      expect(imported.matches).toBe(true);
+    }
+  });
+
+  it('flags a stored result that the current rules no longer give', () => {
+    const document = optimizeDocument();
+    document.result.screwSpeed.recommended += 10;
+    const imported = importExchange(exchangeToJson(document));
+    expect(imported.errors).toEqual([]);
+    expect(imported.matches).toBe(false);
+    expect(imported.comparison.some((row) => row.changed)).toBe(true);
+  });
+});
+
+describe('importExchange rejections', () => {
+  it('rejects text that is not JSON or CSV', () => {
+    expect(importExchange('{ not json').errors[0].message).toMatch(/^not readable as JSON/);
+  });
+
+  it('rejects an unknown schema name', () => {
+    const text = JSON.stringify({ ...optimizeDocument(), schema: 'other.tool' });
+    expect(importExchange(text).errors).toEqual([
+      { path: 'schema', message: 'must be "parameterpath.optimize" or "parameterpath.diagnose"' },
+    ]);
+  });
+
+  it('rejects a file written under a newer schema version', () => {
+    const text = JSON.stringify({ ...optimizeDocument(), version: EXCHANGE_SCHEMA_VERSION + 1 });
+    expect(importExchange(text).errors[0].path).toBe('version');
+  });
+
+  it('names the field that fails the schema', () => {
+    const document = optimizeDocument();
+    const text = JSON.stringify({ ...document, inputs: { ...document.inputs, targetGauge: -1 } });
+    const imported = importExchange(text);
+    expect(imported.document).toBeUndefined();
+    expect(imported.errors.map((error) => error.path)).toContain('inputs.targetGauge');
+  });
+
+  it('checks the die diameter against the OD it has to blow', () => {
+    const document = optimizeDocument();
+    const inputs = { ...document.inputs, equipment: undefined, targetOD: 30, dieDiameter: 40 };
+    expect(importExchange(JSON.stringify({ ...document, inputs })).errors).toEqual([
+      { path: 'inputs.dieDiameter', message: 'gives BUR 0.75 on the 30" OD - must be 1-6' },
+    ]);
+  });
+
+  it('caps the job size', () => {
+    const document = optimizeDocument();
+    const inputs = { ...document.inputs, targetOD: 1e6, targetGauge: 500, productionRate: 1e9 };
+    expect(importExchange(JSON.stringify({ ...document, inputs })).errors).toEqual([
+      { path: 'inputs.targetOD', message: 'must be at most 200' },
+      { path: 'inputs.targetGauge', message: 'must be at most 20' },
+      { path: 'inputs.productionRate', message: 'must be at most 2000' },
+    ]);
+  });
+
+  it('refuses CSV fields that would reach the object prototype', () => {
+    const csv = exchangeToCsv(optimizeDocument());
+    for (const field of ['__proto__.polluted', 'inputs.constructor.prototype.polluted', 'inputs.prototype']) {
+      const imported = importExchange(`${csv}\n${field},yes`);
+      expect(imported.errors[0].message).toMatch(/uses the reserved name/);
+    }
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('names a CSV field given both as a value and as a group of fields', () => {
+    const csv = exchangeToCsv(optimizeDocument());
+    expect(importExchange(`${csv}\ninputs.targetOD.inner,1`).errors[0].message).toBe(
+      'not readable as CSV: field "inputs.targetOD" is given both as a value and as a group of fields'
+    );
+    expect(importExchange(`${csv}\ninputs.equipment,1`).errors[0].message).toBe(
+      'not readable as CSV: field "inputs.equipment" is given both as a value and as a group of fields'
+    );
+    expect(importExchange(`${csv}\ninputs.targetGauge,2`).errors[0].message).toBe(
+      'not readable as CSV: field "inputs.targetGauge" is given more than once'
+    );
+  });
+});
+
+describe('validateOptimizeInputs', () => {
+  it('accepts a job the UI would send', () => {
+    expect(validateOptimizeInputs(OPTIMIZE)).toEqual([]);
+  });
+
+  it('rejects a missing or unknown material', () => {
+    const withoutMaterial: Partial<OptimizeInputs> = { ...OPTIMIZE };
+    delete withoutMaterial.material;
+    expect(validateOptimizeInputs(withoutMaterial).map((error) => error.path)).toContain('material');
+    expect(validateOptimizeInputs({ ...OPTIMIZE, material: 'PVC' }).map((error) => error.path)).toContain('material');
+  });
+
+  it('rejects a grade from another family than the material', () => {
+    const errors = validateOptimizeInputs({ ...OPTIMIZE, material: 'HDPE', grade: 'evoh-32' });
+    expect(errors.map((error) => error.path)).toEqual(['grade']);
+    expect(errors[0].message).toMatch(/^is EVOH \(.+\), not HDPE$/);
+  });
+
+  it('rejects a blend component whose grade is from another family', () => {
+    const blend = {
+      components: [
+        { material: 'LLDPE' as const, grade: 'evoh-32', fraction: 80 },
+        { material: 'LDPE' as const, fraction: 20 },
+      ],
+      additives: { slip: 0, antiblock: 0, ppa: 0 },
+    };
+    expect(validateOptimizeInputs({ ...OPTIMIZE, blend }).map((error) => error.path)).toEqual([
+      'blend.components.0.grade',
+    ]);
+  });
+
+  it('rejects a tie resin, which only runs as a coextrusion layer', () => {
+    expect(validateOptimizeInputs({ ...OPTIMIZE, material: 'TIE' }).map((error) => error.path)).toEqual(['material']);
+  });
+});
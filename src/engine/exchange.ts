@@ -0,0 +1,648 @@
+import type {
+  DiagnoseExchange,
+  DiagnoseInputs,
+  DiagnoseResult,
+  DiagnosedCause,
+  ExchangeCompareRow,
+  ExchangeDocument,
+  ExchangeImport,
+  ExchangeKind,
+  JsonSchema,
+  MultiDiagnoseInputs,
+  MultiDiagnoseResult,
+  OptimizeExchange,
+  OptimizeInputs,
+  RecommendedSettings,
+  SchemaError,
+} from './types';
+import { getFilmMaterials, getGradeMismatch } from './materials';
+import { getAllGrades } from './grades';
+import { getAllDefects } from './defects';
+import { AIR_RING_TYPES } from './equipment';
+import { SETPOINT_OBJECTIVES } from './setpoints';
+import { optimizeParameters } from './optimizer';
+import { diagnoseDefect, diagnoseDefects } from './diagnose';
+import { getRecipeSetpoints } from './recipes';
+import { coerceToSchema, validateSchema } from './schema';
+import { csvCell, parseCsv } from './csv';
+
+// Hand-off files for MES and quality systems. A document carries the inputs,
+// the result the engine gave for them and the schema version it was written
+// under; values are always imperial. The same document can be written as JSON
+// or as a flat CSV of field paths and values, and read back from either.
+
+export const EXCHANGE_SCHEMA_VERSION = 1;
+
+const SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+function number(description: string, bounds: Partial<JsonSchema> = {}): JsonSchema {
+  return { type: 'number', description, ...bounds };
+}
+
+function positive(description: string, maximum?: number): JsonSchema {
+  return number(description, maximum === undefined ? { exclusiveMinimum: 0 } : { exclusiveMinimum: 0, maximum });
+}
+
+function between(description: string, minimum: number, maximum: number): JsonSchema {
+  return number(`${description}, ${minimum}-${maximum}`, { minimum, maximum });
+}
+
+function strings(description: string): JsonSchema {
+  return { type: 'array', description, items: { type: 'string' } };
+}
+
+function range(description: string, target: 'recommended' | 'target'): JsonSchema {
+  return {
+    type: 'object',
+    description,
+    required: ['min', 'max', target],
+    properties: { min: { type: 'number' }, max: { type: 'number' }, [target]: { type: 'number' } },
+  };
+}
+
+const ZONES = ['feed', 'compression', 'metering', 'die'];
+
+// Process bands an input has to sit in to be run at all - wider than any resin's
+// window, so they only turn away values no line could be set to
+const ZONE_TEMP = { min: 100, max: 600 }; // °F
+const AIR_TEMP = { min: 0, max: 150 }; // °F at the lip
+const DIE_DIAMETER = { min: 1, max: 120 }; // in
+const DIE_GAP = { min: 10, max: 250 }; // mils
+const BLOW_UP_RATIO = { min: 1, max: 6 }; // a die outside this for the OD cannot blow the bubble
+
+const DEFS: Record<string, JsonSchema> = {
+  material: {
+    type: 'string',
+    enum: getFilmMaterials(),
+    description: 'Resin family - tie resins run only as coextrusion layers',
+  },
+  grade: {
+    type: 'string',
+    enum: getAllGrades()
+      .filter((grade) => getFilmMaterials().includes(grade.family))
+      .map((grade) => grade.id),
+    description: "Resin grade id - when set, the grade's family is used as the material",
+  },
+  blend: {
+    type: 'object',
+    description: 'Percent mixture with additive masterbatches - replaces material and grade',
+    required: ['components', 'additives'],
+    additionalProperties: false,
+    properties: {
+      components: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['material', 'fraction'],
+          additionalProperties: false,
+          properties: {
+            material: { $ref: '#/$defs/material' },
+            grade: { $ref: '#/$defs/grade' },
+            fraction: number('Weight % of the resin blend', { minimum: 0, maximum: 100 }),
+          },
+        },
+      },
+      additives: {
+        type: 'object',
+        required: ['slip', 'antiblock', 'ppa'],
+        additionalProperties: false,
+        properties: {
+          slip: number('Slip masterbatch, % of total feed', { minimum: 0 }),
+          antiblock: number('Antiblock masterbatch, % of total feed', { minimum: 0 }),
+          ppa: number('Polymer processing aid masterbatch, % of total feed', { minimum: 0 }),
+        },
+      },
+    },
+  },
+  filmSpec: {
+    description: 'Size the bubble from the finished film instead of OD',
+    oneOf: [
+      {
+        type: 'object',
+        required: ['type', 'layflatWidth'],
+        additionalProperties: false,
+        properties: { type: { const: 'layflat' }, layflatWidth: positive('in') },
+      },
+      {
+        type: 'object',
+        required: ['type', 'faceWidth', 'gussetDepth'],
+        additionalProperties: false,
+        properties: {
+          type: { const: 'gusseted' },
+          faceWidth: positive('in'),
+          gussetDepth: number('in - full open width of one gusset', { minimum: 0 }),
+        },
+      },
+      {
+        type: 'object',
+        required: ['type', 'sheetWidth', 'sheets', 'edgeTrim'],
+        additionalProperties: false,
+        properties: {
+          type: { const: 'sheet' },
+          sheetWidth: positive('in'),
+          sheets: { type: 'integer', enum: [1, 2], description: '2 = both folds slit, 1 = one fold slit and opened flat' },
+          edgeTrim: number('in', { minimum: 0 }),
+        },
+      },
+    ],
+  },
+  cooling: {
+    type: 'object',
+    description: 'Bubble cooling setup; anything omitted defaults from the air ring type',
+    additionalProperties: false,
+    properties: {
+      airFlow: positive('CFM through the air ring'),
+      airTemp: between('°F at the lip', AIR_TEMP.min, AIR_TEMP.max),
+      ibc: { type: 'boolean', description: 'Internal bubble cooling running' },
+    },
+  },
+  equipment: {
+    type: 'object',
+    description: 'Line profile - omit for generic die and screw assumptions',
+    required: ['id', 'name', 'extruder', 'die', 'airRing'],
+    additionalProperties: false,
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      extruder: {
+        type: 'object',
+        required: ['screwDiameter', 'lengthToDiameter', 'specificOutput', 'maxRPM', 'motorHP'],
+        additionalProperties: false,
+        properties: {
+          screwDiameter: positive('in'),
+          lengthToDiameter: positive('L/D ratio, e.g. 24 for 24:1'),
+          specificOutput: {
+            type: 'array',
+            description: 'Measured output curve',
+            minItems: 1,
+            items: {
+              type: 'object',
+              required: ['rpm', 'lbsPerHrPerRpm'],
+              additionalProperties: false,
+              properties: { rpm: positive('RPM'), lbsPerHrPerRpm: positive('lbs/hr per RPM') },
+            },
+          },
+          maxRPM: positive('RPM'),
+          motorHP: positive('HP'),
+          motorVoltage: positive('V, three-phase supply to the drive'),
+        },
+      },
+      die: {
+        type: 'object',
+        required: ['diameter', 'gap'],
+        additionalProperties: false,
+        properties: {
+          diameter: between('in', DIE_DIAMETER.min, DIE_DIAMETER.max),
+          gap: between('mils', DIE_GAP.min, DIE_GAP.max),
+          landLength: positive('in of parallel land at the lip'),
+        },
+      },
+      adapter: {
+        type: 'object',
+        description: 'Bore of the melt pipe from extruder to die',
+        required: ['diameter', 'length'],
+        additionalProperties: false,
+        properties: { diameter: positive('in'), length: positive('in') },
+      },
+      airRing: { type: 'string', enum: Object.keys(AIR_RING_TYPES) },
+    },
+  },
+  dieInventoryItem: {
+    type: 'object',
+    required: ['id', 'name', 'diameter', 'gap'],
+    additionalProperties: false,
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      diameter: between('in', DIE_DIAMETER.min, DIE_DIAMETER.max),
+      gap: between('mils', DIE_GAP.min, DIE_GAP.max),
+    },
+  },
+  filmTargets: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      minDart: positive('g at the film gauge'),
+      maxHaze: positive('%'),
+      balancedTear: { type: 'boolean', description: 'MD/TD orientation inside the balanced band' },
+      maxCOF: positive('Kinetic film-to-film'),
+    },
+  },
+  optimizeInputs: {
+    type: 'object',
+    required: ['material', 'targetOD', 'targetGauge', 'productionRate'],
+    additionalProperties: false,
+    properties: {
+      material: { $ref: '#/$defs/material' },
+      grade: { $ref: '#/$defs/grade' },
+      blend: { $ref: '#/$defs/blend' },
+      targetOD: positive('in - ignored when filmSpec is set', 200),
+      filmSpec: { $ref: '#/$defs/filmSpec' },
+      dieInventory: {
+        type: 'array',
+        description: 'When set, the best-scoring die is chosen and mounted on the line',
+        items: { $ref: '#/$defs/dieInventoryItem' },
+      },
+      cooling: { $ref: '#/$defs/cooling' },
+      targetGauge: positive('mils', 20),
+      productionRate: positive('lbs/hr', 2000),
+      equipment: { $ref: '#/$defs/equipment' },
+      filmTargets: { $ref: '#/$defs/filmTargets' },
+      objective: {
+        type: 'string',
+        enum: Object.keys(SETPOINT_OBJECTIVES),
+        description: 'Solve for the setpoints instead of the rule-based pass',
+      },
+      barrelTemps: {
+        type: 'object',
+        description: '°F zone settings held in place of the recommended ones',
+        additionalProperties: false,
+        properties: Object.fromEntries(ZONES.map((zone) => [zone, between('°F', ZONE_TEMP.min, ZONE_TEMP.max)])),
+      },
+      dieDiameter: between(
+        `in - die to run when no line profile, inventory or film spec fixes it; BUR ${BLOW_UP_RATIO.min}-${BLOW_UP_RATIO.max} on the OD`,
+        DIE_DIAMETER.min,
+        DIE_DIAMETER.max
+      ),
+    },
+  },
+  measurements: {
+    type: 'object',
+    description: 'Measured line state that confirms or rules out causes',
+    additionalProperties: false,
+    properties: {
+      meltPressure: number('PSI', { minimum: 0 }),
+      meltPressureSwing: number('PSI peak-to-peak over a few minutes', { minimum: 0 }),
+      motorLoad: number('% of rated motor load', { minimum: 0 }),
+      dieDiameter: between('in', DIE_DIAMETER.min, DIE_DIAMETER.max),
+      blowUpRatio: positive('BUR'),
+      frostLineHeight: number('in above the die', { minimum: 0 }),
+      airRingVariation: number('% spread in lip air velocity around the circumference', { minimum: 0 }),
+      ibcRunning: { type: 'boolean' },
+      nipPressure: number('PSI', { minimum: 0 }),
+      resinMoisture: number('% by weight at the hopper', { minimum: 0 }),
+      ambientHumidity: number('% RH', { minimum: 0, maximum: 100 }),
+    },
+  },
+  defect: { type: 'string', enum: getAllDefects() },
+  diagnoseInputs: {
+    type: 'object',
+    description: 'One defect (defect) or several observed together (defects)',
+    required: ['material', 'currentSettings'],
+    additionalProperties: false,
+    properties: {
+      material: { $ref: '#/$defs/material' },
+      grade: { $ref: '#/$defs/grade' },
+      blend: { $ref: '#/$defs/blend' },
+      currentSettings: {
+        type: 'object',
+        required: ['meltTemp', 'screwSpeed', 'lineSpeed', 'dieTemp'],
+        additionalProperties: false,
+        properties: {
+          meltTemp: between('°F', ZONE_TEMP.min, ZONE_TEMP.max),
+          screwSpeed: number('RPM', { minimum: 0 }),
+          lineSpeed: number('ft/min', { minimum: 0 }),
+          dieTemp: between('°F', ZONE_TEMP.min, ZONE_TEMP.max),
+          meteringTemp: between('°F - needed to compute new barrel setpoints', ZONE_TEMP.min, ZONE_TEMP.max),
+        },
+      },
+      measurements: { $ref: '#/$defs/measurements' },
+      defect: { $ref: '#/$defs/defect' },
+      defects: { type: 'array', minItems: 1, items: { $ref: '#/$defs/defect' } },
+    },
+    oneOf: [{ required: ['defect'] }, { required: ['defects'] }],
+  },
+  recommendedSettings: {
+    type: 'object',
+    description: 'Recommendation as returned by the engine; the setpoints are listed here, detail sections pass through',
+    required: [
+      'barrelTemps',
+      'screwSpeed',
+      'lineSpeed',
+      'meltPressure',
+      'blowUpRatio',
+      'dieDiameter',
+      'dieGap',
+      'cooling',
+      'confidence',
+      'notes',
+      'criticalParameters',
+    ],
+    properties: {
+      barrelTemps: {
+        type: 'object',
+        description: '°F',
+        required: ZONES,
+        properties: Object.fromEntries(ZONES.map((zone) => [zone, number('°F')])),
+      },
+      screwSpeed: range('RPM', 'recommended'),
+      lineSpeed: range('ft/min', 'recommended'),
+      meltPressure: range('PSI, target is the predicted head pressure', 'target'),
+      blowUpRatio: positive('BUR'),
+      dieDiameter: positive('in'),
+      dieGap: positive('mils'),
+      cooling: {
+        type: 'object',
+        required: ['airFlow', 'frostLineHeight'],
+        properties: { airFlow: number('CFM'), frostLineHeight: number('in, predicted') },
+      },
+      bubbleStability: {
+        type: 'object',
+        required: ['rating', 'score'],
+        properties: {
+          rating: { type: 'string', enum: ['stable', 'moderate', 'challenging'] },
+          score: number('0-100', { minimum: 0, maximum: 100 }),
+        },
+      },
+      confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+      confidenceScore: number('0-100', { minimum: 0, maximum: 100 }),
+      notes: strings('Notes for the material and job'),
+      criticalParameters: strings('What to watch on the line'),
+      equipmentWarnings: strings('Recommendations the selected line cannot deliver'),
+    },
+  },
+  diagnosedCause: {
+    type: 'object',
+    required: ['cause', 'score', 'probability', 'adjustments', 'explanation'],
+    properties: {
+      cause: { type: 'string' },
+      score: number('Normalized posterior, 0-1', { minimum: 0, maximum: 1 }),
+      probability: { type: 'string', enum: ['high', 'medium', 'low'] },
+      adjustments: { type: 'array', items: { type: 'object' } },
+      explanation: { type: 'string' },
+    },
+  },
+  diagnoseResult: {
+    type: 'object',
+    description: 'Causes ranked by score; for several defects, causes shared between them are merged',
+    required: ['causes', 'generalRecommendations'],
+    properties: {
+      defect: { $ref: '#/$defs/defect' },
+      defectName: { type: 'string' },
+      description: { type: 'string' },
+      defects: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['defect', 'defectName', 'description'],
+          properties: {
+            defect: { $ref: '#/$defs/defect' },
+            defectName: { type: 'string' },
+            description: { type: 'string' },
+          },
+        },
+      },
+      causes: { type: 'array', items: { $ref: '#/$defs/diagnosedCause' } },
+      generalRecommendations: strings('Advice that applies whatever the cause'),
+    },
+    oneOf: [{ required: ['defect'] }, { required: ['defects'] }],
+  },
+};
+
+function envelope(kind: ExchangeKind, title: string, inputs: string, result: string): JsonSchema {
+  return {
+    $schema: SCHEMA_DIALECT,
+    $id: `urn:parameterpath:${kind}:v${EXCHANGE_SCHEMA_VERSION}`,
+    title,
+    type: 'object',
+    required: ['schema', 'version', 'units', 'exportedAt', 'inputs', 'result'],
+    additionalProperties: false,
+    properties: {
+      schema: { const: `parameterpath.${kind}` },
+      version: {
+        type: 'integer',
+        minimum: 1,
+        maximum: EXCHANGE_SCHEMA_VERSION,
+        description: 'Schema version the file was written under',
+      },
+      units: { const: 'imperial', description: 'Every value is imperial: °F, in, mils, lbs/hr, PSI, ft/min, CFM' },
+      exportedAt: { type: 'string', description: 'ISO 8601 timestamp' },
+      inputs: { $ref: `#/$defs/${inputs}` },
+      result: { $ref: `#/$defs/${result}` },
+    },
+    $defs: DEFS,
+  };
+}
+
+export const EXCHANGE_SCHEMAS: Record<ExchangeKind, JsonSchema> = {
+  optimize: envelope('optimize', 'ParameterPath optimization', 'optimizeInputs', 'recommendedSettings'),
+  diagnose: envelope('diagnose', 'ParameterPath defect diagnosis', 'diagnoseInputs', 'diagnoseResult'),
+};
+
+// Inputs alone, against the same definitions the exchange files use
+function validateDefinition(value: unknown, definition: string): SchemaError[] {
+  return validateSchema(value, { $ref: `#/$defs/${definition}`, $defs: DEFS });
+}
+
+// Grades have to belong to the family they are picked under - the blend's
+// components when there is a blend, otherwise the job's own grade
+function checkGrades(inputs: OptimizeInputs | DiagnoseInputs | MultiDiagnoseInputs, prefix: string): SchemaError[] {
+  const components = inputs.blend?.components.some((c) => c.fraction > 0) ? inputs.blend.components : undefined;
+  const selections = components
+    ? components.map((component, idx) => ({ selection: component, path: `${prefix}blend.components.${idx}.grade` }))
+    : [{ selection: inputs, path: `${prefix}grade` }];
+  return selections.flatMap(({ selection, path }) => {
+    const mismatch = getGradeMismatch(selection);
+    return mismatch ? [{ path, message: mismatch }] : [];
+  });
+}
+
+// Limits one field sets on another, which the schema cannot state. Run on inputs
+// that already fit the schema; paths are prefixed for inputs inside a document.
+function checkOptimizeInputs(inputs: OptimizeInputs, prefix = ''): SchemaError[] {
+  const errors = checkGrades(inputs, prefix);
+  const dieFixed = inputs.equipment || inputs.dieInventory?.length || inputs.filmSpec;
+  if (inputs.dieDiameter !== undefined && !dieFixed) {
+    const bur = inputs.targetOD / inputs.dieDiameter;
+    if (bur < BLOW_UP_RATIO.min || bur > BLOW_UP_RATIO.max) {
+      errors.push({
+        path: `${prefix}dieDiameter`,
+        message: `gives BUR ${Math.round(bur * 100) / 100} on the ${inputs.targetOD}" OD - must be ${BLOW_UP_RATIO.min}-${BLOW_UP_RATIO.max}`,
+      });
+    }
+  }
+  return errors;
+}
+
+export function validateOptimizeInputs(value: unknown): SchemaError[] {
+  const errors = validateDefinition(value, 'optimizeInputs');
+  return errors.length > 0 ? errors : checkOptimizeInputs(value as OptimizeInputs);
+}
+
+export function validateDiagnoseInputs(value: unknown): SchemaError[] {
+  const errors = validateDefinition(value, 'diagnoseInputs');
+  return errors.length > 0 ? errors : checkGrades(value as DiagnoseInputs | MultiDiagnoseInputs, '');
+}
+
+export function createOptimizeExchange(inputs: OptimizeInputs, result: RecommendedSettings): OptimizeExchange {
+  return {
+    schema: 'parameterpath.optimize',
+    version: EXCHANGE_SCHEMA_VERSION,
+    units: 'imperial',
+    exportedAt: new Date().toISOString(),
+    inputs,
+    result,
+  };
+}
+
+export function createDiagnoseExchange(
+  inputs: DiagnoseInputs | MultiDiagnoseInputs,
+  result: DiagnoseResult | MultiDiagnoseResult
+): DiagnoseExchange {
+  return {
+    schema: 'parameterpath.diagnose',
+    version: EXCHANGE_SCHEMA_VERSION,
+    units: 'imperial',
+    exportedAt: new Date().toISOString(),
+    inputs,
+    result,
+  };
+}
+
+export function exchangeToJson(document: ExchangeDocument): string {
+  return JSON.stringify(document, null, 2);
+}
+
+// Leaf values keyed by dotted path; empty lists and objects are kept as [] and {}
+// so the document reads back with the same shape
+function flatten(value: unknown, path: string, rows: [string, string][]) {
+  if (value === undefined) return;
+  if (Array.isArray(value)) {
+    if (value.length === 0) rows.push([path, '[]']);
+    value.forEach((item, idx) => flatten(item, `${path}.${idx}`, rows));
+  } else if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) rows.push([path, '{}']);
+    entries.forEach(([key, item]) => flatten(item, path ? `${path}.${key}` : key, rows));
+  } else {
+    rows.push([path, String(value)]);
+  }
+}
+
+// Two columns, field and value - one row per value
+export function exchangeToCsv(document: ExchangeDocument): string {
+  const rows: [string, string][] = [];
+  flatten(document, '', rows);
+  return ['field,value', ...rows.map(([field, value]) => `${csvCell(field)},${csvCell(value)}`)].join('\n') + '\n';
+}
+
+// Field names that would reach the object prototype instead of the document
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+// Field/value rows back to a document; values stay text until coerced against the schema.
+// Objects are built without a prototype, so no field name can reach Object.prototype.
+function unflatten(rows: string[][]): unknown {
+  const [header, ...body] = rows;
+  if (!header || header[0].trim() !== 'field' || header[1]?.trim() !== 'value') {
+    throw new Error('the first row must be the header "field,value"');
+  }
+  const container = (array: boolean): Record<string, unknown> =>
+    array ? ([] as unknown as Record<string, unknown>) : Object.create(null);
+  const conflict = (path: string) => new Error(`field "${path}" is given both as a value and as a group of fields`);
+  const document = container(false);
+  for (const [field, value = ''] of body) {
+    const name = field.trim();
+    const keys = name.split('.');
+    const unsafe = keys.find((key) => UNSAFE_KEYS.includes(key));
+    if (unsafe) throw new Error(`field "${name}" uses the reserved name "${unsafe}"`);
+    let node = document;
+    keys.forEach((key, idx) => {
+      const path = keys.slice(0, idx + 1).join('.');
+      if (idx === keys.length - 1) {
+        if (typeof node[key] === 'object') throw conflict(path);
+        if (node[key] !== undefined) throw new Error(`field "${path}" is given more than once`);
+        node[key] = value === '[]' ? [] : value === '{}' ? container(false) : value;
+        return;
+      }
+      if (node[key] === undefined) node[key] = container(/^\d+$/.test(keys[idx + 1]));
+      if (typeof node[key] !== 'object') throw conflict(path);
+      node = node[key] as Record<string, unknown>;
+    });
+  }
+  return document;
+}
+
+function compareRow(label: string, unit: string, stored: number | string, current: number | string): ExchangeCompareRow {
+  return { label, unit, stored, current, changed: stored !== current };
+}
+
+// Setpoints, confidence and stability from the stored result against a fresh run
+function compareOptimize(document: OptimizeExchange): ExchangeCompareRow[] {
+  const current = optimizeParameters(document.inputs);
+  const stored = document.result;
+  const currentSetpoints = getRecipeSetpoints(current);
+  return [
+    ...getRecipeSetpoints(stored).map((setpoint, idx) =>
+      compareRow(setpoint.label, setpoint.unit, setpoint.value, currentSetpoints[idx].value)
+    ),
+    compareRow('Bubble stability', '', stored.bubbleStability?.rating ?? '', current.bubbleStability.rating),
+    compareRow('Confidence', '', stored.confidence, current.confidence),
+  ];
+}
+
+// Each cause's rank and score, stored against a fresh run
+function compareDiagnose(document: DiagnoseExchange): ExchangeCompareRow[] {
+  const { inputs } = document;
+  const current = 'defects' in inputs && inputs.defects ? diagnoseDefects(inputs) : diagnoseDefect(inputs as DiagnoseInputs);
+  const describe = (causes: DiagnosedCause[], cause: string) => {
+    const rank = causes.findIndex((c) => c.cause === cause);
+    return rank < 0 ? 'not listed' : `#${rank + 1} - ${Math.round(causes[rank].score * 100)}%`;
+  };
+  const names = [...new Set([...document.result.causes, ...current.causes].map((c) => c.cause))];
+  return names.map((cause) =>
+    compareRow(cause, '', describe(document.result.causes, cause), describe(current.causes, cause))
+  );
+}
+
+function rejected(format: ExchangeImport['format'], errors: SchemaError[]): ExchangeImport {
+  return { format, errors, comparison: [], matches: false };
+}
+
+// Read a JSON or CSV exchange file, check it against its schema and re-run the
+// engine on its inputs to see whether the stored result still holds
+export function importExchange(text: string): ExchangeImport {
+  const trimmed = text.trim();
+  const format = trimmed.startsWith('{') ? 'json' : 'csv';
+  let data: unknown;
+  try {
+    data = format === 'json' ? JSON.parse(trimmed) : unflatten(parseCsv(trimmed));
+  } catch (error) {
+    return rejected(format, [{ path: '', message: `not readable as ${format.toUpperCase()}: ${(error as Error).message}` }]);
+  }
+
+  const header = (data ?? {}) as { schema?: unknown; version?: unknown };
+  const kind = (['optimize', 'diagnose'] as ExchangeKind[]).find((k) => header.schema === `parameterpath.${k}`);
+  if (!kind) {
+    return rejected(format, [{ path: 'schema', message: 'must be "parameterpath.optimize" or "parameterpath.diagnose"' }]);
+  }
+  const version = Number(header.version);
+  if (version > EXCHANGE_SCHEMA_VERSION) {
+    return rejected(format, [
+      {
+        path: 'version',
+        message: `written under schema v${version}; this version of ParameterPath reads up to v${EXCHANGE_SCHEMA_VERSION}`,
+      },
+    ]);
+  }
+
+  const schema = EXCHANGE_SCHEMAS[kind];
+  if (format === 'csv') data = coerceToSchema(data, schema, schema);
+  const errors = validateSchema(data, schema);
+  if (errors.length > 0) return rejected(format, errors);
+
+  const document = data as ExchangeDocument;
+  const inputErrors =
+    document.schema === 'parameterpath.optimize'
+      ? checkOptimizeInputs(document.inputs, 'inputs.')
+      : checkGrades(document.inputs, 'inputs.');
+  if (inputErrors.length > 0) return rejected(format, inputErrors);
+  let comparison: ExchangeCompareRow[];
+  try {
+    comparison = document.schema === 'parameterpath.optimize' ? compareOptimize(document) : compareDiagnose(document);
+  } catch (error) {
+    return rejected(format, [{ path: 'inputs', message: `the engine could not run these inputs: ${(error as Error).message}` }]);
+  }
+
+  return { format, errors: [], document, comparison, matches: comparison.every((row) => !row.changed) };
+}
@@ -0,0 +1,137 @@
+import type { BlendInput, DieShear, FilmProperties, MaterialProperties } from './types';
+
+// Film properties from how the bubble is drawn. The melt is stretched MD by
+// the drawdown and TD by the BUR; whatever orientation has not relaxed by the
+// time the film freezes at the frost line sets the tear balance and toughness.
+// Figures are estimates scaled from each material's reference film.
+
+const REFERENCE_BUR = 2.5;
+
+// Orientation relaxes as the melt travels to the frost line: half of it is
+// retained with the frost line at this many die diameters
+const RELAXATION_DIE_DIAMETERS = 4;
+
+// Tear follows orientation: more MD orientation splits the film more easily along MD
+const TEAR_ORIENTATION_SENSITIVITY = 0.8;
+
+// Dart rewards biaxial draw and suffers from unbalanced orientation
+const DART_BUR_EXPONENT = 0.3;
+const DART_IMBALANCE_PENALTY = 0.5;
+
+// Haze rises with slow quench (high frost line) and falls with a hotter, smoother melt surface
+const HAZE_PER_FROST_DIAMETER = 0.15;
+const HAZE_TEMP_SCALE = 150; // °F for a factor of e
+const HAZE_GAUGE_EXPONENT = 0.3;
+const HAZE_SHEAR_FACTOR = { low: 1, moderate: 1.2, high: 1.5 };
+
+// Haze saturates well short of 100% - even a rough HDPE film passes some light undiffused
+const MAX_HAZE = 90;
+
+// MD/TD orientation ratio outside this band is called unbalanced
+export const BALANCED_ORIENTATION = { min: 0.8, max: 1.5 };
+
+// Slip blooms to the surface and lowers film-to-film COF; antiblock roughens
+// the surface a little. Slip stops helping once the surface is saturated.
+const SLIP_COF_PER_PERCENT = 1; // exponential per % masterbatch
+const ANTIBLOCK_COF_PER_PERCENT = 0.15;
+const MIN_COF = 0.15;
+
+interface FilmPropertyInputs {
+  materialProps: MaterialProperties;
+  blowUpRatio: number;
+  gauge: number; // mils
+  dieGap: number; // mils
+  dieDiameter: number; // inches
+  frostLineHeight: number; // inches
+  meltTemp: number; // °F
+  shearRisk?: DieShear['risk'];
+  additives?: BlendInput['additives'];
+}
+
+function round(value: number, decimals = 0): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function getClarity(haze: number): FilmProperties['clarity'] {
+  if (haze < 8) return 'high';
+  if (haze < 15) return 'good';
+  if (haze < 30) return 'fair';
+  return 'poor';
+}
+
+// Film-to-film COF with slip and antiblock masterbatch in the feed
+function getCOF(materialProps: MaterialProperties, slip: number, antiblock: number): number {
+  const cof =
+    materialProps.filmReference.cof * Math.exp(-SLIP_COF_PER_PERCENT * slip - ANTIBLOCK_COF_PER_PERCENT * antiblock);
+  return Math.max(MIN_COF, cof);
+}
+
+// Slip masterbatch % needed to bring the COF down to a target, in quarter-percent
+// steps; undefined when the target is below what slip can reach
+export function getSlipForCOF(materialProps: MaterialProperties, targetCOF: number, antiblock = 0): number | undefined {
+  if (targetCOF < MIN_COF) return undefined;
+  const needed = Math.log(getCOF(materialProps, 0, antiblock) / targetCOF) / SLIP_COF_PER_PERCENT;
+  return Math.max(0, Math.ceil(needed * 4) / 4);
+}
+
+export function predictFilmProperties(inputs: FilmPropertyInputs): FilmProperties {
+  const { materialProps, blowUpRatio, gauge, dieGap, dieDiameter, frostLineHeight, meltTemp } = inputs;
+  const reference = materialProps.filmReference;
+  const notes: string[] = [];
+
+  // MD draw is the drawdown ratio; TD draw is the BUR
+  const drawdownRatio = dieGap / (gauge * blowUpRatio);
+  const frostDiameters = frostLineHeight / dieDiameter;
+  const retained = 1 / (1 + frostDiameters / RELAXATION_DIE_DIAMETERS);
+  const orientation = retained * Math.log(drawdownRatio / blowUpRatio); // ln of MD/TD balance
+  const orientationBalance = Math.exp(orientation);
+
+  let balance: FilmProperties['balance'] = 'balanced';
+  if (orientationBalance > BALANCED_ORIENTATION.max) {
+    balance = 'MD-oriented';
+    notes.push('MD-oriented film - MD tear is low; raise BUR or frost line, or narrow the die gap, to balance it');
+  } else if (orientationBalance < BALANCED_ORIENTATION.min) {
+    balance = 'TD-oriented';
+    notes.push('TD-oriented film - TD tear is low; lower BUR or frost line to balance it');
+  }
+
+  const tearMD = reference.tearMD * gauge * Math.exp(-TEAR_ORIENTATION_SENSITIVITY * orientation);
+  const tearTD = reference.tearTD * gauge * Math.exp(TEAR_ORIENTATION_SENSITIVITY * orientation);
+
+  const dartImpact =
+    (reference.dart * gauge * Math.pow(blowUpRatio / REFERENCE_BUR, DART_BUR_EXPONENT)) /
+    (1 + DART_IMBALANCE_PENALTY * Math.abs(orientation));
+
+  const quench = Math.max(0.7, 1 + HAZE_PER_FROST_DIAMETER * (frostDiameters - RELAXATION_DIE_DIAMETERS));
+  const surface = Math.exp(-(meltTemp - materialProps.barrelTemperatures.die.recommended) / HAZE_TEMP_SCALE);
+  const haze = Math.min(
+    MAX_HAZE,
+    reference.haze *
+      Math.pow(gauge, HAZE_GAUGE_EXPONENT) *
+      quench *
+      surface *
+      HAZE_SHEAR_FACTOR[inputs.shearRisk ?? 'low']
+  );
+  if (inputs.shearRisk && inputs.shearRisk !== 'low') {
+    notes.push('Shark skin at the die lip roughens the surface and raises haze');
+  }
+  const cof = getCOF(materialProps, inputs.additives?.slip ?? 0, inputs.additives?.antiblock ?? 0);
+  if (quench > 1.3) {
+    notes.push('High frost line slows the quench - expect more haze; more air or IBC will clear the film');
+  }
+
+  return {
+    drawdownRatio: round(drawdownRatio, 1),
+    blowUpRatio: round(blowUpRatio, 2),
+    orientationBalance: round(orientationBalance, 2),
+    balance,
+    dartImpact: Math.round(dartImpact),
+    tearMD: Math.round(tearMD),
+    tearTD: Math.round(tearTD),
+    haze: round(haze, 1),
+    clarity: getClarity(haze),
+    cof: round(cof, 2),
+    notes,
+  };
+}
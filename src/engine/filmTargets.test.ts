@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { OptimizeInputs } from './types';
+import { validateOptimizeInputs } from './exchange';
+import { screenFilmTargets } from './filmTargets';
+import { optimizeParameters } from './optimizer';
+
+const JOB: OptimizeInputs = { material: 'LLDPE', targetOD: 20, targetGauge: 1.5, productionRate: 200 };
+
+describe('screenFilmTargets', () => {
+  it('keeps targets above zero as they are', () => {
+    const targets = { minDart: 300, maxHaze: 12, balancedTear: true };
+    expect(screenFilmTargets(targets)).toEqual({ targets, rejected: [] });
+  });
+
+  it('takes out targets at or below zero with a note for each', () => {
+    expect(screenFilmTargets({ minDart: 0, maxHaze: -2, maxCOF: 0.3 })).toEqual({
+      targets: { maxCOF: 0.3 },
+      rejected: [
+        'Dart ≥ 0 g target ignored - film targets have to be above 0',
+        'Haze ≤ -2% target ignored - film targets have to be above 0',
+      ],
+    });
+  });
+});
+
+describe('film targets in optimizeParameters', () => {
+  it('searches only the usable targets', () => {
+    const result = optimizeParameters({ ...JOB, filmTargets: { minDart: 200, maxCOF: 0 } });
+    expect(result.filmTargets?.checks.map((check) => check.target)).toEqual(['minDart']);
+    expect(result.notes).toContain('COF ≤ 0 target ignored - film targets have to be above 0');
+  });
+
+  it('runs the rule-based pass when no target is usable', () => {
+    const result = optimizeParameters({ ...JOB, filmTargets: { maxHaze: 0 } });
+    expect(result.filmTargets).toBeUndefined();
+    expect(result.barrelTemps).toEqual(optimizeParameters(JOB).barrelTemps);
+  });
+
+  it('keeps the solver off a zero target', () => {
+    const result = optimizeParameters({ ...JOB, objective: 'max-output', filmTargets: { minDart: 0 } });
+    expect(result.setpoints?.constraints.map((constraint) => constraint.name)).not.toContain('Dart impact');
+    expect(Number.isFinite(result.setpoints?.value)).toBe(true);
+  });
+
+  it('is rejected by the exchange schema', () => {
+    expect(validateOptimizeInputs({ ...JOB, filmTargets: { minDart: 0 } })).toEqual([
+      { path: 'filmTargets.minDart', message: 'must be greater than 0' },
+    ]);
+  });
+});
@@ -0,0 +1,351 @@
+import type {
+  AirRingType,
+  BlendInput,
+  CoolingSetup,
+  FilmProperties,
+  FilmTargetCheck,
+  FilmTargets,
+  FilmTargetSearch,
+  MaterialProperties,
+} from './types';
+import { AIR_RING_TYPES } from './equipment';
+import { getFrostLineWindow, predictCooling } from './cooling';
+import { calculateDieShear } from './rheology';
+import { BALANCED_ORIENTATION, getSlipForCOF, predictFilmProperties } from './filmProperties';
+
+// Film target search: dart, tear balance and haze follow from BUR, frost line
+// and melt temperature, so step through the settings the line can actually
+// move - the die (and with it the BUR), the die zone and the air ring flow -
+// and keep the combination that meets every target with the least change from
+// the starting setup. Frost line must stay in the practical window throughout.
+
+type TargetKey = keyof FilmTargets;
+
+const TARGET_KEYS: TargetKey[] = ['minDart', 'maxHaze', 'balancedTear', 'maxCOF'];
+
+const DIE_TEMP_STEP = 10; // °F
+
+// Air ring flow as a share of the starting flow - blowers are rarely run outside this
+export const AIR_FLOW_SHARES = [0.6, 0.7, 0.8, 0.9, 1, 1.1, 1.2, 1.3];
+
+// Cost of moving one step from the starting setup: a die change is the most
+// work, the air ring the least
+const STEP_COST = { die: 1, temp: 0.3, air: 0.2 };
+
+// A met target within this fraction of its limit is reported with what binds it
+const ACTIVE_MARGIN = 0.05;
+
+interface FilmTargetJob {
+  targets: FilmTargets;
+  materialProps: MaterialProperties;
+  productionRate: number; // lbs/hr
+  targetOD: number; // inches
+  gauge: number; // mils
+  dieGap: number; // mils
+  dieDiameters: number[]; // inches - candidate dies, one when the die is fixed
+  startDie: number; // inches - the die used without targets
+  dieTemp: number; // °F - starting die zone setting
+  airRing: AirRingType;
+  cooling?: CoolingSetup;
+  additives?: BlendInput['additives'];
+}
+
+interface SearchPoint {
+  die: number; // grid indices
+  temp: number;
+  air: number;
+  dieDiameter: number;
+  blowUpRatio: number;
+  dieTemp: number;
+  airFlow: number;
+  frostLineHeight: number;
+  inWindow: boolean; // frost line inside the practical window for the die
+  film: FilmProperties;
+}
+
+type Dimension = 'die' | 'temp' | 'air';
+
+function round(value: number, decimals = 0): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export function hasFilmTargets(targets?: FilmTargets): boolean {
+  return Boolean(targets) && TARGET_KEYS.some((key) => isActive(targets!, key));
+}
+
+// Numeric targets count only above zero - each margin is a share of its limit
+function isActive(targets: FilmTargets, key: TargetKey): boolean {
+  if (key === 'balancedTear') return targets.balancedTear === true;
+  const limit = targets[key];
+  return limit !== undefined && Number.isFinite(limit) && limit > 0;
+}
+
+// Targets with the ones that cannot be searched for (at or below zero) taken
+// out, and a note for each one taken out
+export function screenFilmTargets(targets?: FilmTargets): { targets?: FilmTargets; rejected: string[] } {
+  if (!targets) return { rejected: [] };
+  const rejected = TARGET_KEYS.filter((key) => targets[key] !== undefined && !isActive(targets, key));
+  if (rejected.length === 0) return { targets, rejected: [] };
+  const screened = { ...targets };
+  rejected.forEach((key) => delete screened[key]);
+  return {
+    targets: screened,
+    rejected: rejected.map((key) => `${getLabel(targets, key)} target ignored - film targets have to be above 0`),
+  };
+}
+
+function getLabel(targets: FilmTargets, key: TargetKey): string {
+  switch (key) {
+    case 'minDart':
+      return `Dart ≥ ${targets.minDart} g`;
+    case 'maxHaze':
+      return `Haze ≤ ${targets.maxHaze}%`;
+    case 'balancedTear':
+      return `Balanced tear (MD/TD ${BALANCED_ORIENTATION.min}-${BALANCED_ORIENTATION.max})`;
+    case 'maxCOF':
+      return `COF ≤ ${targets.maxCOF}`;
+  }
+}
+
+function getValue(film: FilmProperties, key: TargetKey): number {
+  switch (key) {
+    case 'minDart':
+      return film.dartImpact;
+    case 'maxHaze':
+      return film.haze;
+    case 'balancedTear':
+      return film.orientationBalance;
+    case 'maxCOF':
+      return film.cof;
+  }
+}
+
+// Distance inside the limit as a fraction of it - negative when the target is missed
+function getMargin(targets: FilmTargets, film: FilmProperties, key: TargetKey): number {
+  switch (key) {
+    case 'minDart':
+      return (film.dartImpact - targets.minDart!) / targets.minDart!;
+    case 'maxHaze':
+      return (targets.maxHaze! - film.haze) / targets.maxHaze!;
+    case 'balancedTear':
+      return Math.min(
+        Math.log(film.orientationBalance / BALANCED_ORIENTATION.min),
+        Math.log(BALANCED_ORIENTATION.max / film.orientationBalance)
+      );
+    case 'maxCOF':
+      return (targets.maxCOF! - film.cof) / targets.maxCOF!;
+  }
+}
+
+// Die zone settings across the material window, always including the start
+function getTempSteps(materialProps: MaterialProperties, start: number): number[] {
+  const { min, max } = materialProps.barrelTemperatures.die;
+  const steps = [start];
+  for (let temp = min; temp <= max; temp += DIE_TEMP_STEP) steps.push(temp);
+  if (!steps.includes(max)) steps.push(max);
+  return [...new Set(steps)].sort((a, b) => a - b);
+}
+
+export function searchFilmTargets(job: FilmTargetJob): FilmTargetSearch {
+  const { targets, materialProps, productionRate, targetOD, gauge, dieGap } = job;
+  const keys = TARGET_KEYS.filter((key) => isActive(targets, key));
+  const window = materialProps.barrelTemperatures.die;
+  const startTempSetting = Math.min(window.max, Math.max(window.min, job.dieTemp));
+  const temps = getTempSteps(materialProps, startTempSetting);
+  const ring = AIR_RING_TYPES[job.airRing];
+
+  // Evaluate the whole grid: die x die temperature x air flow
+  const grid: SearchPoint[][][] = job.dieDiameters.map((dieDiameter, die) => {
+    const baseFlow = job.cooling?.airFlow ?? ring.airFlowPerInch * Math.PI * dieDiameter;
+    const frostWindow = getFrostLineWindow(dieDiameter, materialProps);
+    return temps.map((dieTemp, temp) =>
+      AIR_FLOW_SHARES.map((share, air) => {
+        const airFlow = Math.round(baseFlow * share);
+        const cooling = predictCooling({
+          productionRate,
+          meltTemp: dieTemp,
+          dieDiameter,
+          dieGap,
+          bubbleOD: targetOD,
+          gauge,
+          materialProps,
+          airRing: job.airRing,
+          setup: { ...job.cooling, airFlow },
+        });
+        const shear = calculateDieShear({
+          productionRate,
+          meltTemp: dieTemp,
+          dieDiameter,
+          dieGap,
+          materialProps,
+          ppa: job.additives?.ppa,
+        });
+        const blowUpRatio = targetOD / dieDiameter;
+        return {
+          die,
+          temp,
+          air,
+          dieDiameter,
+          blowUpRatio,
+          dieTemp,
+          airFlow,
+          frostLineHeight: cooling.frostLineHeight,
+          inWindow:
+            cooling.rateAchievable &&
+            cooling.frostLineHeight >= frostWindow.min &&
+            cooling.frostLineHeight <= frostWindow.max,
+          film: predictFilmProperties({
+            materialProps,
+            blowUpRatio,
+            gauge,
+            dieGap,
+            dieDiameter,
+            frostLineHeight: cooling.frostLineHeight,
+            meltTemp: dieTemp,
+            shearRisk: shear.risk,
+            additives: job.additives,
+          }),
+        };
+      })
+    );
+  });
+  const points = grid.flat(2);
+
+  // Points outside the frost line window are off limits, unless none are inside it
+  const anyInWindow = points.some((p) => p.inWindow);
+  const allowed = (p: SearchPoint) => p.inWindow || !anyInWindow;
+  const candidates = points.filter(allowed);
+
+  const startDie = Math.max(0, job.dieDiameters.indexOf(job.startDie));
+  const startTemp = temps.indexOf(startTempSetting);
+  const startAir = AIR_FLOW_SHARES.indexOf(1);
+  const cost = (p: SearchPoint) =>
+    STEP_COST.die * Math.abs(p.die - startDie) +
+    STEP_COST.temp * Math.abs(p.temp - startTemp) +
+    STEP_COST.air * Math.abs(p.air - startAir);
+
+  const margin = (p: SearchPoint, key: TargetKey) => getMargin(targets, p.film, key);
+  const meets = (p: SearchPoint, key: TargetKey) => margin(p, key) >= 0;
+
+  // Most targets met, then the least total shortfall, then the smallest change
+  const metCount = (p: SearchPoint) => keys.filter((key) => meets(p, key)).length;
+  const shortfall = (p: SearchPoint) => keys.reduce((sum, key) => sum + Math.min(0, margin(p, key)), 0);
+  const chosen = [...candidates].sort(
+    (a, b) => metCount(b) - metCount(a) || shortfall(b) - shortfall(a) || cost(a) - cost(b)
+  )[0];
+
+  // Best point for each target on its own
+  const best = new Map(
+    keys.map((key) => [key, [...candidates].sort((a, b) => margin(b, key) - margin(a, key) || cost(a) - cost(b))[0]])
+  );
+  const achievable = (key: TargetKey) => meets(best.get(key)!, key);
+
+  const conflicts: string[] = [];
+  keys.forEach((a, i) =>
+    keys.slice(i + 1).forEach((b) => {
+      if (achievable(a) && achievable(b) && !candidates.some((p) => meets(p, a) && meets(p, b))) {
+        conflicts.push(`${getLabel(targets, a)} and ${getLabel(targets, b)} cannot both be met`);
+      }
+    })
+  );
+  const missed = keys.filter((key) => !meets(chosen, key));
+  if (missed.length > 0 && conflicts.length === 0 && missed.every(achievable)) {
+    conflicts.push(`${keys.map((key) => getLabel(targets, key)).join(', ')} cannot all be met at once`);
+  }
+
+  const neighbor = (p: SearchPoint, dimension: Dimension, step: number): SearchPoint | undefined => {
+    const index = { die: p.die, temp: p.temp, air: p.air };
+    index[dimension] += step;
+    return grid[index.die]?.[index.temp]?.[index.air];
+  };
+
+  // What stops a target getting better from a point: a step that would help but
+  // leaves the search window, moves the frost line out of its window, or costs
+  // another target
+  const describeEdge = (p: SearchPoint, dimension: Dimension, step: number): string => {
+    if (dimension === 'die') {
+      const range = materialProps.blowUpRatioRange;
+      return job.dieDiameters.length === 1
+        ? `BUR ${round(p.blowUpRatio, 2)} is fixed by the ${p.dieDiameter}" die`
+        : `BUR ${round(p.blowUpRatio, 2)} on the ${p.dieDiameter}" die - no die gives a ${step > 0 ? 'lower' : 'higher'} BUR within ${range.min}-${range.max}`;
+    }
+    if (dimension === 'temp') {
+      return `die temperature at the ${p.dieTemp}°F ${step > 0 ? 'maximum' : 'minimum'} of the ${materialProps.name} window`;
+    }
+    return `air ring flow at its ${step > 0 ? 'maximum' : 'minimum'} (${p.airFlow} CFM)`;
+  };
+  const findBinding = (p: SearchPoint, key: TargetKey): string | undefined => {
+    const limits = new Set<string>();
+    (['die', 'temp', 'air'] as Dimension[]).forEach((dimension) =>
+      [-1, 1].forEach((step) => {
+        const next = neighbor(p, dimension, step);
+        if (!next) {
+          // Off the edge of the search: binding if the trend runs that way
+          const previous = neighbor(p, dimension, -step);
+          if (previous && margin(previous, key) < margin(p, key)) limits.add(describeEdge(p, dimension, step));
+          return;
+        }
+        if (margin(next, key) <= margin(p, key)) return;
+        if (!allowed(next) && dimension === 'die') {
+          limits.add(`the ${next.dieDiameter}" die puts the frost line outside its window`);
+          return;
+        }
+        if (!allowed(next)) {
+          const { min, max } = getFrostLineWindow(next.dieDiameter, materialProps);
+          limits.add(
+            `frost line at ~${Math.round(p.frostLineHeight)}" - the ${min}-${max}" window stops it going ${next.frostLineHeight > p.frostLineHeight ? 'higher' : 'lower'}`
+          );
+          return;
+        }
+        keys
+          .filter((other) => other !== key && meets(p, other) && !meets(next, other))
+          .forEach((other) => limits.add(`trades against ${getLabel(targets, other)}`));
+      })
+    );
+    // The die gap is not searched, but it sets the drawdown that orients the film MD
+    if (key === 'balancedTear' && p.film.balance === 'MD-oriented') {
+      limits.add(`drawdown ${p.film.drawdownRatio} from the ${dieGap} mil die gap`);
+    }
+    return limits.size > 0 ? [...limits].join('; ') : undefined;
+  };
+
+  const checks: FilmTargetCheck[] = keys.map((key) => {
+    const met = meets(chosen, key);
+    const check: FilmTargetCheck = {
+      target: key,
+      label: getLabel(targets, key),
+      value: getValue(chosen.film, key),
+      met,
+      achievable: achievable(key),
+    };
+    if (met && margin(chosen, key) >= ACTIVE_MARGIN) return check;
+
+    if (key === 'maxCOF' && !met) {
+      // Process settings barely move COF - slip masterbatch does
+      const slip = getSlipForCOF(materialProps, targets.maxCOF!, job.additives?.antiblock);
+      check.binding =
+        slip !== undefined
+          ? `slip masterbatch - ~${slip}% needed for COF ${targets.maxCOF}`
+          : `COF ${targets.maxCOF} is below what slip can reach`;
+      return check;
+    }
+    const from = achievable(key) ? chosen : best.get(key)!;
+    check.binding =
+      findBinding(from, key) ??
+      (met ? undefined : `${materialProps.name} reaches ${getValue(from.film, key)} at best`);
+    return check;
+  });
+
+  return {
+    met: missed.length === 0,
+    dieDiameter: chosen.dieDiameter,
+    blowUpRatio: round(chosen.blowUpRatio, 2),
+    dieTemp: chosen.dieTemp,
+    airFlow: chosen.airFlow,
+    frostLineHeight: round(chosen.frostLineHeight, 1),
+    checks,
+    conflicts,
+    evaluated: points.length,
+  };
+}
@@ -0,0 +1,132 @@
+import type { MaterialType, ResinGrade } from './types';
+
+// Representative film grades by family, spanning the melt index range bought for blown film.
+// Values are typical data-sheet figures; check the supplier sheet for the exact lot.
+
+export const RESIN_GRADES: Record<string, ResinGrade> = {
+  'hdpe-hmw-005': {
+    id: 'hdpe-hmw-005',
+    name: 'HMW-HDPE 0.05 MI',
+    family: 'HDPE',
+    meltIndex: 0.05,
+    density: 0.949,
+    comonomer: 'Butene (C4) copolymer, bimodal - high-stalk processing',
+  },
+  'hdpe-film-02': {
+    id: 'hdpe-film-02',
+    name: 'HDPE Film 0.2 MI',
+    family: 'HDPE',
+    meltIndex: 0.2,
+    density: 0.95,
+    comonomer: 'Hexene (C6) copolymer',
+  },
+  'hdpe-film-07': {
+    id: 'hdpe-film-07',
+    name: 'HDPE Film 0.7 MI',
+    family: 'HDPE',
+    meltIndex: 0.7,
+    density: 0.952,
+    comonomer: 'Homopolymer - stiffness and moisture barrier',
+  },
+  'ldpe-hd-025': {
+    id: 'ldpe-hd-025',
+    name: 'LDPE Heavy-Duty 0.25 MI',
+    family: 'LDPE',
+    meltIndex: 0.25,
+    density: 0.922,
+    comonomer: 'Homopolymer, high melt strength',
+  },
+  'ldpe-gp-075': {
+    id: 'ldpe-gp-075',
+    name: 'LDPE General Purpose 0.75 MI',
+    family: 'LDPE',
+    meltIndex: 0.75,
+    density: 0.923,
+    comonomer: 'Homopolymer',
+  },
+  'ldpe-clarity-20': {
+    id: 'ldpe-clarity-20',
+    name: 'LDPE Clarity 2.0 MI',
+    family: 'LDPE',
+    meltIndex: 2.0,
+    density: 0.921,
+    comonomer: 'Homopolymer, low gel - optics grade',
+  },
+  'lldpe-c4-10': {
+    id: 'lldpe-c4-10',
+    name: 'LLDPE Butene 1.0 MI',
+    family: 'LLDPE',
+    meltIndex: 1.0,
+    density: 0.918,
+    comonomer: 'Butene (C4) copolymer',
+  },
+  'lldpe-c6-10': {
+    id: 'lldpe-c6-10',
+    name: 'LLDPE Hexene 1.0 MI',
+    family: 'LLDPE',
+    meltIndex: 1.0,
+    density: 0.92,
+    comonomer: 'Hexene (C6) copolymer - better dart and tear than C4',
+  },
+  'lldpe-c8-05': {
+    id: 'lldpe-c8-05',
+    name: 'LLDPE Octene 0.5 MI',
+    family: 'LLDPE',
+    meltIndex: 0.5,
+    density: 0.918,
+    comonomer: 'Octene (C8) copolymer - highest toughness',
+  },
+  'lldpe-c6-20': {
+    id: 'lldpe-c6-20',
+    name: 'LLDPE Hexene 2.0 MI',
+    family: 'LLDPE',
+    meltIndex: 2.0,
+    density: 0.917,
+    comonomer: 'Hexene (C6) copolymer - easier processing, lower melt strength',
+  },
+  'mlldpe-c6-10': {
+    id: 'mlldpe-c6-10',
+    name: 'mLLDPE Hexene 1.0 MI',
+    family: 'LLDPE',
+    meltIndex: 1.0,
+    density: 0.918,
+    comonomer: 'Metallocene hexene (C6) copolymer - narrow MWD',
+  },
+  'evoh-32': {
+    id: 'evoh-32',
+    name: 'EVOH 32 mol% Ethylene',
+    family: 'EVOH',
+    meltIndex: 1.6,
+    density: 1.19,
+    comonomer: '32 mol% ethylene - highest barrier',
+  },
+  'evoh-44': {
+    id: 'evoh-44',
+    name: 'EVOH 44 mol% Ethylene',
+    family: 'EVOH',
+    meltIndex: 1.7,
+    density: 1.14,
+    comonomer: '44 mol% ethylene - easier processing, more flexible',
+  },
+  'tie-lldpe-20': {
+    id: 'tie-lldpe-20',
+    name: 'LLDPE-Based Tie 2.0 MI',
+    family: 'TIE',
+    meltIndex: 2.0,
+    density: 0.92,
+    comonomer: 'Maleic anhydride grafted LLDPE',
+  },
+};
+
+// Undefined for an id that is not in the library
+export function getGrade(id: string): ResinGrade | undefined {
+  return Object.hasOwn(RESIN_GRADES, id) ? RESIN_GRADES[id] : undefined;
+}
+
+export function getAllGrades(): ResinGrade[] {
+  return Object.values(RESIN_GRADES);
+}
+
+export function getGradesForMaterial(material: MaterialType): ResinGrade[] {
+  return getAllGrades().filter((grade) => grade.family === material);
+}
@@ -1,5 +1,25 @@
 export * from './types';
 export * from './materials';
+export * from './grades';
 export * from './defects';
+export * from './equipment';
 export * from './optimizer';
+export * from './coextrusion';
 export * from './diagnose';
+export * from './audit';
+export * from './sizing';
+export * from './dieSelection';
+export * from './cooling';
+export * from './rheology';
+export * from './filmProperties';
+export * from './filmTargets';
+export * from './stability';
+export * from './setpoints';
+export * from './sensitivity';
+export * from './recipes';
+export * from './setupSheet';
+export * from './setupSheetPdf';
+export * from './schema';
+export * from './csv';
+export * from './exchange';
+export * from './units';
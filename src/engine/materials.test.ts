@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { getGrade } from './grades';
+import { getMaterial, getMaterialLabel, resolveMaterial } from './materials';
+
+describe('resolveMaterial', () => {
+  it('gives the generic family when no grade is picked', () => {
+    expect(resolveMaterial({ material: 'LDPE' })).toEqual({ material: 'LDPE', properties: getMaterial('LDPE') });
+  });
+
+  it('takes the family and window from a grade', () => {
+    const resolved = resolveMaterial({ material: 'LLDPE', grade: 'lldpe-c8-05' });
+    expect(resolved.material).toBe('LLDPE');
+    expect(resolved.grade?.id).toBe('lldpe-c8-05');
+  });
+
+  it('refuses a grade that is not in the library instead of running the family', () => {
+    expect(() => resolveMaterial({ material: 'LLDPE', grade: 'lldpe-c9-9.9' })).toThrow(
+      'Unknown resin grade "lldpe-c9-9.9"'
+    );
+  });
+
+  it('refuses a grade from another family than the material', () => {
+    expect(() => resolveMaterial({ material: 'HDPE', grade: 'evoh-32' })).toThrow(
+      /^Resin grade "evoh-32" is EVOH \(.+\), not HDPE$/
+    );
+  });
+
+  it('refuses an unknown grade inside a blend', () => {
+    expect(() =>
+      resolveMaterial({
+        material: 'LLDPE',
+        blend: {
+          components: [
+            { material: 'LLDPE', grade: 'nope', fraction: 80 },
+            { material: 'LDPE', fraction: 20 },
+          ],
+          additives: { slip: 0, antiblock: 0, ppa: 0 },
+        },
+      })
+    ).toThrow('Unknown resin grade "nope"');
+  });
+});
+
+describe('getGrade', () => {
+  it('is undefined for ids outside the library, prototype names included', () => {
+    expect(getGrade('nope')).toBeUndefined();
+    expect(getGrade('constructor')).toBeUndefined();
+  });
+});
+
+describe('getMaterialLabel', () => {
+  it('names the grade when one is picked, the family otherwise', () => {
+    expect(getMaterialLabel({ material: 'EVOH', grade: 'evoh-32' })).toBe(getGrade('evoh-32')?.name);
+    expect(getMaterialLabel({ material: 'HDPE' })).toBe('HDPE');
+  });
+});
@@ -1,4 +1,11 @@
-import type { MaterialType, MaterialProperties } from './types';
+import type {
+  BlendInput,
+  MaterialType,
+  MaterialProperties,
+  ResinGrade,
+  ResolvedMaterial,
+} from './types';
+import { getGrade } from './grades';
 
 // Processing parameters based on polymer processing engineering references
 // Sources: Plastics Engineering Handbook, Blown Film Extrusion Guide, SPE Technical Papers
@@ -19,6 +26,21 @@ export const MATERIALS: Record<MaterialType, MaterialProperties> = {
     meltPressureRange: { min: 2500, max: 5500 }, // PSI
     blowUpRatioRange: { min: 2.0, max: 4.0 },
     frostLineHeightFactor: 1.2,
+    crystallizationTemp: 240, // °F
+    specificHeat: 0.6, // BTU/lb·°F
+    heatOfFusion: 100, // BTU/lb
+    viscosity: {
+      zeroShearViscosity: 30000, // Pa·s
+      relaxationTime: 5, // s
+      powerLawIndex: 0.45,
+      activationEnergy: 25, // kJ/mol
+      referenceTemp: 445, // °F
+    },
+    criticalShearStress: 30, // PSI
+    typicalDieGap: 65, // mils
+    filmReference: { dart: 200, tearMD: 25, tearTD: 350, haze: 40, cof: 0.3 }, // g, g/mil, g/mil, %, kinetic
+    density: 0.95, // g/cc
+    meltIndex: 0.3, // typical film grade
     notes: [
       'HDPE requires higher melt temps than LDPE for proper flow',
       'Sensitive to screw speed - too fast causes melt fracture',
@@ -42,6 +64,21 @@ export const MATERIALS: Record<MaterialType, MaterialProperties> = {
     meltPressureRange: { min: 2000, max: 4500 }, // PSI
     blowUpRatioRange: { min: 1.5, max: 3.5 },
     frostLineHeightFactor: 1.0,
+    crystallizationTemp: 205, // °F
+    specificHeat: 0.55, // BTU/lb·°F
+    heatOfFusion: 55, // BTU/lb
+    viscosity: {
+      zeroShearViscosity: 20000, // Pa·s
+      relaxationTime: 10, // s
+      powerLawIndex: 0.45,
+      activationEnergy: 60, // kJ/mol
+      referenceTemp: 405, // °F
+    },
+    criticalShearStress: 45, // PSI
+    typicalDieGap: 35, // mils
+    filmReference: { dart: 130, tearMD: 200, tearTD: 160, haze: 6, cof: 0.6 }, // g, g/mil, g/mil, %, kinetic
+    density: 0.92, // g/cc
+    meltIndex: 1.0, // typical film grade
     notes: [
       'LDPE has excellent processability and wide operating window',
       'Good optical clarity possible at lower melt temps',
@@ -65,6 +102,21 @@ export const MATERIALS: Record<MaterialType, MaterialProperties> = {
     meltPressureRange: { min: 3000, max: 6000 }, // PSI
     blowUpRatioRange: { min: 2.0, max: 4.5 },
     frostLineHeightFactor: 1.1,
+    crystallizationTemp: 225, // °F
+    specificHeat: 0.57, // BTU/lb·°F
+    heatOfFusion: 65, // BTU/lb
+    viscosity: {
+      zeroShearViscosity: 7000, // Pa·s
+      relaxationTime: 3.5, // s
+      powerLawIndex: 0.65,
+      activationEnergy: 30, // kJ/mol
+      referenceTemp: 425, // °F
+    },
+    criticalShearStress: 16, // PSI
+    typicalDieGap: 100, // mils
+    filmReference: { dart: 250, tearMD: 230, tearTD: 200, haze: 12, cof: 0.8 }, // g, g/mil, g/mil, %, kinetic
+    density: 0.92, // g/cc
+    meltIndex: 1.0, // typical film grade
     notes: [
       'LLDPE requires higher motor load than LDPE - monitor amps',
       'Superior puncture and tear resistance',
@@ -88,6 +140,21 @@ export const MATERIALS: Record<MaterialType, MaterialProperties> = {
     meltPressureRange: { min: 2800, max: 5000 }, // PSI
     blowUpRatioRange: { min: 1.8, max: 3.0 },
     frostLineHeightFactor: 0.9,
+    crystallizationTemp: 320, // °F
+    specificHeat: 0.45, // BTU/lb·°F
+    heatOfFusion: 30, // BTU/lb
+    viscosity: {
+      zeroShearViscosity: 8000, // Pa·s
+      relaxationTime: 2.5, // s
+      powerLawIndex: 0.6,
+      activationEnergy: 55, // kJ/mol
+      referenceTemp: 415, // °F
+    },
+    criticalShearStress: 30, // PSI
+    typicalDieGap: 60, // mils
+    filmReference: { dart: 60, tearMD: 30, tearTD: 30, haze: 3, cof: 0.3 }, // g, g/mil, g/mil, %, kinetic
+    density: 1.17, // g/cc
+    meltIndex: 1.7, // typical film grade
     notes: [
       'EVOH is hygroscopic - material must be dried before processing',
       'Narrow processing window - temperature control is critical',
@@ -96,6 +163,44 @@ export const MATERIALS: Record<MaterialType, MaterialProperties> = {
       'Lower screw speeds recommended to prevent degradation',
     ],
   },
+
+  TIE: {
+    name: 'TIE',
+    fullName: 'Tie-Layer Adhesive (Anhydride-Modified PE)',
+    meltTempRange: { min: 400, max: 460 }, // °F
+    processingTempRange: { min: 350, max: 480 },
+    barrelTemperatures: {
+      feed: { min: 300, max: 340, recommended: 320 },
+      compression: { min: 360, max: 400, recommended: 380 },
+      metering: { min: 400, max: 440, recommended: 420 },
+      die: { min: 410, max: 450, recommended: 425 },
+    },
+    screwSpeedRange: { min: 20, max: 100 }, // RPM
+    meltPressureRange: { min: 2000, max: 4500 }, // PSI
+    blowUpRatioRange: { min: 1.8, max: 3.5 },
+    frostLineHeightFactor: 1.0,
+    crystallizationTemp: 215, // °F
+    specificHeat: 0.55, // BTU/lb·°F
+    heatOfFusion: 55, // BTU/lb
+    viscosity: {
+      zeroShearViscosity: 5000, // Pa·s
+      relaxationTime: 2.5, // s
+      powerLawIndex: 0.6,
+      activationEnergy: 35, // kJ/mol
+      referenceTemp: 425, // °F
+    },
+    criticalShearStress: 20, // PSI
+    typicalDieGap: 60, // mils
+    filmReference: { dart: 150, tearMD: 150, tearTD: 150, haze: 10, cof: 0.9 }, // g, g/mil, g/mil, %, kinetic
+    density: 0.92, // g/cc
+    meltIndex: 2.0, // typical film grade
+    notes: [
+      'Tie resins bond polyolefin layers to EVOH and nylon barrier layers',
+      'Adhesion develops with melt contact time - avoid running too cold at the die',
+      'Typically 5-10% of total structure thickness per tie layer',
+      'Not intended as a monolayer film resin',
+    ],
+  },
 };
 
 export function getMaterial(type: MaterialType): MaterialProperties {
@@ -105,3 +210,259 @@ export function getMaterial(type: MaterialType): MaterialProperties {
 export function getAllMaterials(): MaterialType[] {
   return Object.keys(MATERIALS) as MaterialType[];
 }
+
+// Tie resins only bond the layers of a coextruded structure
+const COEX_ONLY_MATERIALS: MaterialType[] = ['TIE'];
+
+// Families that run as a film on their own, alone or blended - the choices for
+// optimize, diagnose and audit; coextrusion layers take every family
+export function getFilmMaterials(): MaterialType[] {
+  return getAllMaterials().filter((material) => !COEX_ONLY_MATERIALS.includes(material));
+}
+
+// Barrel temperature shift per decade of melt index away from the family reference.
+// Lower MI means higher viscosity, so fractional-melt grades run hotter.
+const MI_TEMP_SHIFT_PER_DECADE = 30; // °F
+const MAX_MI_TEMP_SHIFT = 25; // °F
+
+// Melt pressure tracks viscosity, flattened by shear thinning
+const MI_PRESSURE_EXPONENT = 0.25;
+
+// Denser grades are more crystalline: they freeze hotter and take more heat to melt
+const CRYSTALLIZATION_TEMP_PER_DENSITY = 600; // °F per g/cc
+const HEAT_OF_FUSION_PER_DENSITY = 1500; // BTU/lb per g/cc
+
+// Film properties against grade density and MI (exponential per g/cc, power of the MI ratio)
+const FILM_DART_PER_DENSITY = 40;
+const FILM_DART_MI_EXPONENT = 0.3;
+const FILM_HAZE_PER_DENSITY = 30;
+const FILM_COF_PER_DENSITY = 15;
+
+// Derive processing properties for a specific grade from its family window
+export function getGradeProperties(grade: ResinGrade): MaterialProperties {
+  const base = getMaterial(grade.family);
+  const miRatio = base.meltIndex / grade.meltIndex;
+  const densityShift = grade.density - base.density;
+  const tempShift = Math.round(
+    Math.max(-MAX_MI_TEMP_SHIFT, Math.min(Math.log10(miRatio) * MI_TEMP_SHIFT_PER_DECADE, MAX_MI_TEMP_SHIFT))
+  );
+  const pressureScale = Math.pow(miRatio, MI_PRESSURE_EXPONENT);
+
+  const shiftRange = (range: { min: number; max: number }) => ({
+    min: range.min + tempShift,
+    max: range.max + tempShift,
+  });
+  const shiftZone = (zone: { min: number; max: number; recommended: number }) => ({
+    ...shiftRange(zone),
+    recommended: zone.recommended + tempShift,
+  });
+
+  const notes = [`${grade.name} (${grade.density} g/cc) - ${grade.comonomer}`];
+  if (tempShift !== 0) {
+    notes.push(
+      `Temperatures ${tempShift > 0 ? 'raised' : 'lowered'} by ${Math.abs(tempShift)}°F from generic ${grade.family} (${base.meltIndex} MI reference)`
+    );
+  }
+
+  return {
+    ...base,
+    name: grade.name,
+    meltTempRange: shiftRange(base.meltTempRange),
+    processingTempRange: shiftRange(base.processingTempRange),
+    barrelTemperatures: {
+      // Feed zone governs solids conveying and is left at the family setting
+      feed: base.barrelTemperatures.feed,
+      compression: shiftZone(base.barrelTemperatures.compression),
+      metering: shiftZone(base.barrelTemperatures.metering),
+      die: shiftZone(base.barrelTemperatures.die),
+    },
+    meltPressureRange: {
+      min: Math.round((base.meltPressureRange.min * pressureScale) / 50) * 50,
+      max: Math.round((base.meltPressureRange.max * pressureScale) / 50) * 50,
+    },
+    crystallizationTemp: Math.round(base.crystallizationTemp + densityShift * CRYSTALLIZATION_TEMP_PER_DENSITY),
+    heatOfFusion: Math.round(base.heatOfFusion + densityShift * HEAT_OF_FUSION_PER_DENSITY),
+    // Lower density and fractional MI toughen the film; lower density also clears it but makes it tackier
+    filmReference: {
+      ...base.filmReference,
+      dart: Math.round(
+        base.filmReference.dart *
+          Math.pow(miRatio, FILM_DART_MI_EXPONENT) *
+          Math.exp(-densityShift * FILM_DART_PER_DENSITY)
+      ),
+      haze: Math.round(base.filmReference.haze * Math.exp(densityShift * FILM_HAZE_PER_DENSITY) * 10) / 10,
+      cof: Math.round(base.filmReference.cof * Math.exp(-densityShift * FILM_COF_PER_DENSITY) * 100) / 100,
+    },
+    // MI is a flow rate at fixed stress: viscosity and relaxation time both scale with 1/MI
+    viscosity: {
+      ...base.viscosity,
+      zeroShearViscosity: Math.round(base.viscosity.zeroShearViscosity * miRatio),
+      relaxationTime: Math.round(base.viscosity.relaxationTime * miRatio * 100) / 100,
+    },
+    density: grade.density,
+    meltIndex: grade.meltIndex,
+    notes: [...notes, ...base.notes],
+  };
+}
+
+// Starting blend for new blend inputs - the LLDPE/LDPE ratio the LLDPE notes recommend
+export const DEFAULT_BLEND: BlendInput = {
+  components: [
+    { material: 'LLDPE', fraction: 70 },
+    { material: 'LDPE', fraction: 30 },
+  ],
+  additives: { slip: 0, antiblock: 0, ppa: 0 },
+};
+
+// Drop empty components and scale the rest so fractions sum to 100
+export function normalizeBlend(blend: BlendInput): BlendInput {
+  const components = blend.components.filter((c) => c.fraction > 0);
+  const total = components.reduce((sum, c) => sum + c.fraction, 0);
+  return {
+    ...blend,
+    components: components.map((c) => ({ ...c, fraction: (c.fraction / total) * 100 })),
+  };
+}
+
+// Family with the largest share of the blend, used for material-specific rules
+export function getMajorityMaterial(blend: BlendInput): MaterialType {
+  const shares = new Map<MaterialType, number>();
+  blend.components.forEach((c) => shares.set(c.material, (shares.get(c.material) ?? 0) + c.fraction));
+  return [...shares.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+}
+
+// Derive processing properties for a resin blend plus additive masterbatches.
+// Windows are weight-averaged; density follows the inverse rule of mixtures and
+// melt index the log-additive rule used for miscible polyethylene blends.
+export function getBlendProperties(blend: BlendInput): MaterialProperties {
+  const normalized = normalizeBlend(blend);
+  const parts = normalized.components.map((c) => ({
+    material: c.material,
+    weight: c.fraction / 100,
+    props: resolveMaterial(c).properties,
+  }));
+  const majority = getMajorityMaterial(normalized);
+  const base = getMaterial(majority);
+
+  const average = (pick: (props: MaterialProperties) => number) =>
+    parts.reduce((sum, part) => sum + part.weight * pick(part.props), 0);
+  const averageRange = (pick: (props: MaterialProperties) => { min: number; max: number }) => ({
+    min: Math.round(average((p) => pick(p).min)),
+    max: Math.round(average((p) => pick(p).max)),
+  });
+  const averageZone = (zone: keyof MaterialProperties['barrelTemperatures']) => ({
+    ...averageRange((p) => p.barrelTemperatures[zone]),
+    recommended: Math.round(average((p) => p.barrelTemperatures[zone].recommended)),
+  });
+
+  const density = 1 / parts.reduce((sum, part) => sum + part.weight / part.props.density, 0);
+  const meltIndex = Math.exp(average((p) => Math.log(p.meltIndex)));
+
+  // PPA coats the die wall and lowers pressure once conditioned
+  const { slip, antiblock, ppa } = normalized.additives;
+  const ppaPressureScale = 1 - Math.min(ppa * 0.05, 0.1);
+  const pressure = averageRange((p) => p.meltPressureRange);
+
+  const name = parts.map((part) => `${Math.round(part.weight * 100)}% ${part.props.name}`).join(' / ');
+  const notes = [`Blend ${name}: ${density.toFixed(3)} g/cc, ~${meltIndex.toFixed(2)} MI`];
+
+  const ldpeShare = parts.filter((p) => p.material === 'LDPE').reduce((sum, p) => sum + p.weight, 0);
+  if (ldpeShare >= 0.1 && ldpeShare <= 0.4 && parts.some((p) => p.material === 'LLDPE')) {
+    notes.push('LDPE fraction adds melt strength and bubble stability to the LLDPE');
+  }
+  if (parts.some((p) => p.material === 'EVOH') && parts.some((p) => p.material !== 'EVOH')) {
+    notes.push('EVOH is immiscible with polyolefins - blend will be hazy and weak; use coextrusion for barrier');
+  }
+  if (ppa > 0) {
+    notes.push(`PPA masterbatch at ${ppa}% - allow 30-60 min for die conditioning`);
+    if (antiblock > 0) {
+      notes.push('Antiblock absorbs PPA - raise PPA level if melt fracture returns');
+    }
+  }
+  if (slip > 0) {
+    notes.push(`Slip masterbatch at ${slip}% - COF keeps dropping for 24-48 hr as slip migrates`);
+  }
+
+  return {
+    name,
+    fullName: `Blend: ${name}`,
+    meltTempRange: averageRange((p) => p.meltTempRange),
+    processingTempRange: averageRange((p) => p.processingTempRange),
+    barrelTemperatures: {
+      feed: averageZone('feed'),
+      compression: averageZone('compression'),
+      metering: averageZone('metering'),
+      die: averageZone('die'),
+    },
+    screwSpeedRange: averageRange((p) => p.screwSpeedRange),
+    meltPressureRange: {
+      min: Math.round((pressure.min * ppaPressureScale) / 50) * 50,
+      max: Math.round((pressure.max * ppaPressureScale) / 50) * 50,
+    },
+    blowUpRatioRange: {
+      min: Math.round(average((p) => p.blowUpRatioRange.min) * 10) / 10,
+      max: Math.round(average((p) => p.blowUpRatioRange.max) * 10) / 10,
+    },
+    frostLineHeightFactor: Math.round(average((p) => p.frostLineHeightFactor) * 100) / 100,
+    crystallizationTemp: Math.round(average((p) => p.crystallizationTemp)),
+    specificHeat: Math.round(average((p) => p.specificHeat) * 100) / 100,
+    heatOfFusion: Math.round(average((p) => p.heatOfFusion)),
+    filmReference: {
+      dart: Math.round(average((p) => p.filmReference.dart)),
+      tearMD: Math.round(average((p) => p.filmReference.tearMD)),
+      tearTD: Math.round(average((p) => p.filmReference.tearTD)),
+      haze: Math.round(average((p) => p.filmReference.haze) * 10) / 10,
+      cof: Math.round(average((p) => p.filmReference.cof) * 100) / 100,
+    },
+    // Viscosity and relaxation time mix on a log scale, like melt index
+    viscosity: {
+      zeroShearViscosity: Math.round(Math.exp(average((p) => Math.log(p.viscosity.zeroShearViscosity)))),
+      relaxationTime: Math.round(Math.exp(average((p) => Math.log(p.viscosity.relaxationTime))) * 100) / 100,
+      powerLawIndex: Math.round(average((p) => p.viscosity.powerLawIndex) * 100) / 100,
+      activationEnergy: Math.round(average((p) => p.viscosity.activationEnergy)),
+      referenceTemp: Math.round(average((p) => p.viscosity.referenceTemp)),
+    },
+    criticalShearStress: Math.round(average((p) => p.criticalShearStress)),
+    typicalDieGap: Math.round(average((p) => p.typicalDieGap) / 5) * 5,
+    density: Math.round(density * 1000) / 1000,
+    meltIndex: Math.round(meltIndex * 100) / 100,
+    notes: [...notes, ...base.notes],
+  };
+}
+
+// What is wrong with a grade picked under another family, e.g. "is EVOH (...), not HDPE" -
+// its properties would run under the family's name
+export function getGradeMismatch(selection: { material: MaterialType; grade?: string }): string | undefined {
+  const grade = selection.grade ? getGrade(selection.grade) : undefined;
+  return grade && grade.family !== selection.material
+    ? `is ${grade.family} (${grade.name}), not ${selection.material}`
+    : undefined;
+}
+
+// Name for report and setup sheet headers: the grade when one is picked, else the family
+export function getMaterialLabel(selection: { material: MaterialType; grade?: string; blend?: BlendInput }): string {
+  if (selection.blend && selection.blend.components.some((c) => c.fraction > 0)) return 'Blend';
+  return (selection.grade && getGrade(selection.grade)?.name) || selection.material;
+}
+
+// Resolve the family and processing properties for a material, specific grade or blend.
+// A grade id that is not in the library, or from another family, is an error.
+export function resolveMaterial(selection: {
+  material: MaterialType;
+  grade?: string;
+  blend?: BlendInput;
+}): ResolvedMaterial {
+  if (selection.blend && selection.blend.components.some((c) => c.fraction > 0)) {
+    const blend = normalizeBlend(selection.blend);
+    return { material: getMajorityMaterial(blend), properties: getBlendProperties(blend), blend };
+  }
+
+  if (!selection.grade) {
+    return { material: selection.material, properties: getMaterial(selection.material) };
+  }
+  const grade = getGrade(selection.grade);
+  if (!grade) throw new Error(`Unknown resin grade "${selection.grade}"`);
+  const mismatch = getGradeMismatch(selection);
+  if (mismatch) throw new Error(`Resin grade "${selection.grade}" ${mismatch}`);
+  return { material: grade.family, properties: getGradeProperties(grade), grade };
+}
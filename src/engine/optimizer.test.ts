@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { OptimizeInputs } from './types';
+import { DEFAULT_EQUIPMENT_PROFILES } from './equipment';
+import { getAllMaterials, getMaterial } from './materials';
+import { optimizeParameters } from './optimizer';
+
+const JOB: OptimizeInputs = { material: 'LLDPE', targetOD: 20, targetGauge: 1.5, productionRate: 200 };
+
+describe('optimizeParameters die gap', () => {
+  it.each(getAllMaterials())('assumes the typical %s gap without a die, and says so', (material) => {
+    const settings = optimizeParameters({ ...JOB, material });
+    const gap = getMaterial(material).typicalDieGap;
+    expect(settings.dieGap).toBe(gap);
+    expect(settings.dieShear.dieGap).toBe(gap);
+    expect(settings.gaugeControl.dieGapSetting).toMatch(new RegExp(`^~${gap} mil gap assumed`));
+    expect(settings.notes.some((note) => note.startsWith(`Assumed a ${gap} mil die gap`))).toBe(true);
+  });
+
+  it('does not tie the assumed gap to the gauge', () => {
+    const thin = optimizeParameters({ ...JOB, targetGauge: 0.75 });
+    const thick = optimizeParameters({ ...JOB, targetGauge: 4 });
+    expect(thin.dieGap).toBe(thick.dieGap);
+  });
+
+  it('runs the installed gap of a line profile', () => {
+    const line = DEFAULT_EQUIPMENT_PROFILES[1];
+    const settings = optimizeParameters({ ...JOB, equipment: line });
+    expect(settings.dieGap).toBe(line.die.gap);
+    expect(settings.gaugeControl.dieGapSetting).toMatch(new RegExp(`^${line.die.gap} mil gap installed`));
+    expect(settings.notes.some((note) => note.startsWith('Assumed a'))).toBe(false);
+  });
+});
+
+describe('die inventory with a film spec', () => {
+  const DIES = [
+    { id: 'small', name: '6" die', diameter: 6, gap: 60 },
+    { id: 'mid', name: '10" die', diameter: 10, gap: 80 },
+    { id: 'large', name: '16" die', diameter: 16, gap: 100 },
+  ];
+
+  it('sizes the bubble on the die it mounts', () => {
+    const settings = optimizeParameters({
+      ...JOB,
+      filmSpec: { type: 'layflat', layflatWidth: 40 },
+      dieInventory: DIES,
+      equipment: DEFAULT_EQUIPMENT_PROFILES[1],
+    });
+    const mounted = settings.dieSelection?.selected.die;
+    expect(settings.sizing?.candidates.map((candidate) => candidate.dieDiameter)).toEqual([6, 10, 16]);
+    expect(settings.sizing?.selected.dieDiameter).toBe(mounted?.diameter);
+    expect(settings.dieDiameter).toBe(mounted?.diameter);
+    expect(settings.dieGap).toBe(mounted?.gap);
+  });
+
+  it('falls back to the line die when the inventory is empty', () => {
+    const line = DEFAULT_EQUIPMENT_PROFILES[1];
+    const settings = optimizeParameters({
+      ...JOB,
+      filmSpec: { type: 'layflat', layflatWidth: 40 },
+      dieInventory: [],
+      equipment: line,
+    });
+    expect(settings.dieSelection).toBeUndefined();
+    expect(settings.sizing?.selected.dieDiameter).toBe(line.die.diameter);
+  });
+});
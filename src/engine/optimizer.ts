@@ -1,5 +1,31 @@
-import type { MaterialType, OptimizeInputs, RecommendedSettings } from './types';
-import { getMaterial } from './materials';
+import type {
+  AirRingType,
+  CoolingPrediction,
+  EquipmentProfile,
+  MaterialType,
+  MaterialProperties,
+  OptimizeInputs,
+  RecommendedSettings,
+} from './types';
+import { resolveMaterial } from './materials';
+import {
+  AIR_RING_TYPES,
+  GENERIC_SPECIFIC_OUTPUT,
+  calculateRPMForRate,
+  estimateMotorLoad,
+  getMaxOutput,
+} from './equipment';
+import { STANDARD_DIE_SIZES, sizeFromFilmSpec } from './sizing';
+import { selectDie } from './dieSelection';
+import { getFrostLineWindow, predictCooling } from './cooling';
+import { calculateDieShear, predictMeltPressure } from './rheology';
+import { predictFilmProperties } from './filmProperties';
+import { hasFilmTargets, screenFilmTargets, searchFilmTargets } from './filmTargets';
+import { SETPOINT_OBJECTIVES, solveSetpoints } from './setpoints';
+import { assessBubbleStability } from './stability';
+
+// Air ring assumed when no line profile is selected
+const GENERIC_AIR_RING: AirRingType = 'dual-lip';
 
 // Film extrusion parameter optimization based on polymer processing fundamentals
 // This uses scaling relationships and material property databases
@@ -10,15 +36,10 @@ function calculateLayflat(od: number): number {
   return (Math.PI * od) / 2;
 }
 
-// Get material density (approximate, lb/cu.in)
-function getMaterialDensity(material: MaterialType): number {
-  const densities: Record<MaterialType, number> = {
-    HDPE: 0.035, // ~0.95 g/cc
-    LDPE: 0.033, // ~0.92 g/cc
-    LLDPE: 0.034, // ~0.93 g/cc
-    EVOH: 0.042, // ~1.15 g/cc
-  };
-  return densities[material];
+// Get material density (lb/cu.in) from the family or grade density
+export function getMaterialDensity(materialProps: MaterialProperties): number {
+  const GCC_TO_LB_PER_CUIN = 0.036127;
+  return materialProps.density * GCC_TO_LB_PER_CUIN;
 }
 
 // Get die size based on target OD
@@ -31,11 +52,19 @@ function getDieSize(targetOD: number): number {
 }
 
 // Calculate optimal blow-up ratio based on OD and die diameter
-function calculateBUR(targetOD: number, material: MaterialType): number {
-  const materialProps = getMaterial(material);
-  const dieSize = getDieSize(targetOD);
+function calculateBUR(
+  targetOD: number,
+  dieSize: number,
+  materialProps: MaterialProperties,
+  fixedDie: boolean
+): number {
   const calculatedBUR = targetOD / dieSize;
 
+  // An installed die fixes the BUR; only a notional die size can be moved into range
+  if (fixedDie) {
+    return Math.round(calculatedBUR * 100) / 100;
+  }
+
   // Clamp to material's acceptable range
   return Math.max(
     materialProps.blowUpRatioRange.min,
@@ -46,20 +75,26 @@ function calculateBUR(targetOD: number, material: MaterialType): number {
 // Scale screw speed based on output rate
 function calculateScrewSpeed(
   productionRate: number,
-  material: MaterialType
+  materialProps: MaterialProperties,
+  extruder?: EquipmentProfile['extruder']
 ): { min: number; max: number; recommended: number } {
-  const materialProps = getMaterial(material);
+  let baseRPM: number;
+  let rpmLimit = materialProps.screwSpeedRange.max;
 
-  // Typical specific output: 3-8 lbs/hr per RPM depending on screw design
-  // Use 5 as baseline for standard 24:1 L/D screw
-  const specificOutput = 5;
-  const baseRPM = productionRate / specificOutput;
+  if (extruder) {
+    // Use the line's measured specific output curve
+    baseRPM = calculateRPMForRate(extruder, productionRate);
+    rpmLimit = Math.min(rpmLimit, extruder.maxRPM);
+  } else {
+    // Typical specific output: 3-8 lbs/hr per RPM depending on screw design
+    baseRPM = productionRate / GENERIC_SPECIFIC_OUTPUT;
+  }
 
-  // Apply material-specific limits
-  const minRPM = Math.max(materialProps.screwSpeedRange.min, baseRPM * 0.8);
-  const maxRPM = Math.min(materialProps.screwSpeedRange.max, baseRPM * 1.2);
+  // Apply material-specific limits, keeping the range ordered when the target falls outside them
+  const minRPM = Math.min(Math.max(materialProps.screwSpeedRange.min, baseRPM * 0.8), rpmLimit);
+  const maxRPM = Math.max(Math.min(rpmLimit, baseRPM * 1.2), minRPM);
   const recommendedRPM = Math.min(
-    materialProps.screwSpeedRange.max,
+    rpmLimit,
     Math.max(materialProps.screwSpeedRange.min, baseRPM)
   );
 
@@ -71,14 +106,12 @@ function calculateScrewSpeed(
 }
 
 // Calculate line speed from output and film dimensions
-function calculateLineSpeed(
+export function calculateLineSpeed(
   productionRate: number,
   od: number,
   gauge: number,
-  material: MaterialType
+  density: number
 ): { min: number; max: number; recommended: number } {
-  const density = getMaterialDensity(material);
-
   // Film cross-sectional area (sq inches)
   const filmArea = Math.PI * od * (gauge / 1000);
   // Volume per foot (cubic inches)
@@ -96,41 +129,11 @@ function calculateLineSpeed(
   };
 }
 
-// Calculate melt pressure targets
-function calculateMeltPressure(
-  productionRate: number,
-  material: MaterialType
-): { min: number; max: number; target: number } {
-  const materialProps = getMaterial(material);
-
-  // Melt pressure scales roughly with output rate
-  // Baseline: mid-range pressure at mid-range output
-  const midOutput = 200; // lbs/hr typical mid-range
-  const midPressure =
-    (materialProps.meltPressureRange.min + materialProps.meltPressureRange.max) / 2;
-
-  // Scale pressure with output (square root relationship is common)
-  const scaleFactor = Math.sqrt(productionRate / midOutput);
-  const targetPressure = midPressure * scaleFactor;
-
-  // Clamp to material limits
-  const clampedTarget = Math.max(
-    materialProps.meltPressureRange.min,
-    Math.min(targetPressure, materialProps.meltPressureRange.max)
-  );
-
-  return {
-    min: materialProps.meltPressureRange.min,
-    max: materialProps.meltPressureRange.max,
-    target: Math.round(clampedTarget),
-  };
-}
-
 // Determine air ring settings based on output and material
 function calculateAirRing(
   productionRate: number,
   material: MaterialType,
-  od: number
+  cooling: CoolingPrediction
 ): { lipGap: string; airVelocity: string; coolingCapacity: string } {
   let lipGap: string;
   let airVelocity: string;
@@ -154,14 +157,11 @@ function calculateAirRing(
     airVelocity = 'Medium-High';
   }
 
-  // Cooling capacity based on output and OD
-  const coolingLoad = productionRate * od;
-  if (coolingLoad < 2000) {
-    coolingCapacity = 'Standard single-lip';
-  } else if (coolingLoad < 5000) {
-    coolingCapacity = 'Dual-lip recommended';
-  } else {
-    coolingCapacity = 'Dual-lip with IBC recommended';
+  // Cooling capacity from the bubble heat balance
+  const utilization = cooling.maxCoolingRate > 0 ? Math.round((productionRate / cooling.maxCoolingRate) * 100) : 100;
+  coolingCapacity = `~${utilization}% of the cooling limit (max ~${cooling.maxCoolingRate} lbs/hr)`;
+  if (!cooling.rateAchievable) {
+    coolingCapacity += ' - add IBC, chill the air or raise air flow';
   }
 
   return { lipGap, airVelocity, coolingCapacity };
@@ -169,21 +169,14 @@ function calculateAirRing(
 
 // Calculate frost line height recommendations
 function calculateFrostLine(
-  targetOD: number,
+  dieSize: number,
   material: MaterialType,
-  productionRate: number
-): { heightRange: string; heightInches: { min: number; max: number }; notes: string } {
-  const materialProps = getMaterial(material);
-  const dieSize = getDieSize(targetOD);
-
-  // Frost line height typically 3-6x die diameter
-  // Adjusted by material factor and production rate
-  const baseFactor = materialProps.frostLineHeightFactor;
-  const rateAdjustment = productionRate > 300 ? 1.1 : productionRate < 100 ? 0.9 : 1.0;
-
-  const minHeight = Math.round(dieSize * 3 * baseFactor * rateAdjustment);
-  const maxHeight = Math.round(dieSize * 6 * baseFactor * rateAdjustment);
-  const optimalHeight = Math.round(dieSize * 4.5 * baseFactor * rateAdjustment);
+  materialProps: MaterialProperties,
+  cooling: CoolingPrediction
+): RecommendedSettings['frostLine'] {
+  // Practical range is 3-6x die diameter by material; the height itself comes from the cooling model
+  const { min: minHeight, max: maxHeight } = getFrostLineWindow(dieSize, materialProps);
+  const predictedHeight = Math.round(cooling.frostLineHeight);
 
   let notes: string;
   if (material === 'HDPE') {
@@ -192,13 +185,22 @@ function calculateFrostLine(
     notes = 'EVOH sensitive to frost line - maintain consistent height for barrier properties';
   } else if (material === 'LLDPE') {
     notes = 'LLDPE tolerates wider frost line range than HDPE';
+  } else if (material === 'TIE') {
+    notes = 'Tie layer follows the frost line set by the structural layers';
   } else {
     notes = 'LDPE very forgiving - frost line height less critical';
   }
 
+  if (predictedHeight < minHeight) {
+    notes += ' - predicted frost line is low; reduce air flow or raise melt temperature for orientation';
+  } else if (!cooling.rateAchievable) {
+    notes += ' - predicted frost line is above the practical maximum for this die';
+  }
+
   return {
-    heightRange: `${minHeight}-${maxHeight}" (optimal: ~${optimalHeight}")`,
+    heightRange: `${minHeight}-${maxHeight}" (predicted: ~${predictedHeight}")`,
     heightInches: { min: minHeight, max: maxHeight },
+    predictedInches: predictedHeight,
     notes,
   };
 }
@@ -272,10 +274,12 @@ function calculateIBC(
 // Calculate gauge control recommendations
 function calculateGaugeControl(
   gauge: number,
-  targetOD: number,
-  material: MaterialType
+  dieSize: number,
+  bur: number,
+  material: MaterialType,
+  dieGap: number,
+  installed: boolean
 ): { targetVariation: string; dieGapSetting: string; recommendations: string[] } {
-  const dieSize = getDieSize(targetOD);
 
   // Target variation based on gauge
   let targetVariation: string;
@@ -287,9 +291,9 @@ function calculateGaugeControl(
     targetVariation = '±7-10% (relaxed tolerance acceptable)';
   }
 
-  // Die gap setting (roughly 10-20x final gauge for typical BUR)
-  const estimatedDieGap = gauge * 15; // mils
-  const dieGapSetting = `~${estimatedDieGap.toFixed(0)} mils (${(estimatedDieGap / 1000).toFixed(3)}")`;
+  // Drawdown ratio follows from the gap: gap = gauge x BUR x DDR
+  const drawdown = dieGap / (gauge * bur);
+  const dieGapSetting = `${installed ? '' : '~'}${dieGap} mil gap ${installed ? 'installed' : `assumed, typical for ${material}`} (${(dieGap / 1000).toFixed(3)}", drawdown ratio ${drawdown.toFixed(1)})`;
 
   const recommendations: string[] = [
     'Measure gauge at minimum 8 points around circumference',
@@ -307,85 +311,64 @@ function calculateGaugeControl(
   return { targetVariation, dieGapSetting, recommendations };
 }
 
-// Assess bubble stability
-function assessBubbleStability(
+// Flag recommendations the selected line cannot physically deliver
+function checkEquipmentLimits(
   inputs: OptimizeInputs,
-  bur: number
-): { rating: 'stable' | 'moderate' | 'challenging'; factors: string[]; recommendations: string[] } {
-  const factors: string[] = [];
-  const recommendations: string[] = [];
-  let stabilityScore = 100;
-
-  // BUR effects on stability
-  if (bur > 3.5) {
-    stabilityScore -= 20;
-    factors.push('High BUR increases bubble sensitivity');
-    recommendations.push('Ensure uniform air ring cooling at high BUR');
-  } else if (bur < 2.0) {
-    stabilityScore -= 10;
-    factors.push('Low BUR may cause MD/TD imbalance');
-  }
-
-  // Gauge effects
-  if (inputs.targetGauge < 0.75) {
-    stabilityScore -= 25;
-    factors.push('Very thin gauge highly sensitive to disturbances');
-    recommendations.push('Minimize drafts and air currents around tower');
-    recommendations.push('Consider bubble cage or guide system');
-  } else if (inputs.targetGauge < 1.5) {
-    stabilityScore -= 10;
-    factors.push('Thin gauge moderately sensitive');
-  }
-
-  // Production rate effects
-  if (inputs.productionRate > 400) {
-    stabilityScore -= 15;
-    factors.push('High output rate can challenge stability');
-    recommendations.push('Verify adequate cooling capacity');
-  }
-
-  // Material effects
-  if (inputs.material === 'LLDPE') {
-    stabilityScore -= 5;
-    factors.push('LLDPE has higher melt strength - generally stable');
-  } else if (inputs.material === 'LDPE') {
-    factors.push('LDPE excellent bubble stability');
-  } else if (inputs.material === 'HDPE') {
-    stabilityScore -= 10;
-    factors.push('HDPE lower melt strength - monitor closely');
-    recommendations.push('Maintain consistent melt temperature');
-  } else if (inputs.material === 'EVOH') {
-    stabilityScore -= 15;
-    factors.push('EVOH narrow processing window affects stability');
-    recommendations.push('Precise temperature control essential');
-  }
-
-  // Large diameter effects
-  if (inputs.targetOD > 40) {
-    stabilityScore -= 10;
-    factors.push('Large bubble diameter more prone to oscillation');
-    recommendations.push('Consider IBC for improved stability');
-  }
-
-  // Always add baseline recommendations
-  recommendations.push('Maintain steady extruder output (consistent melt pressure)');
-
-  let rating: 'stable' | 'moderate' | 'challenging';
-  if (stabilityScore >= 75) {
-    rating = 'stable';
-  } else if (stabilityScore >= 50) {
-    rating = 'moderate';
-  } else {
-    rating = 'challenging';
+  equipment: EquipmentProfile,
+  materialProps: MaterialProperties,
+  bur: number,
+  ibcRecommended: boolean,
+  cooling: CoolingPrediction
+): string[] {
+  const warnings: string[] = [];
+  const { extruder, die } = equipment;
+
+  // Extruder output
+  const requiredRPM = calculateRPMForRate(extruder, inputs.productionRate);
+  if (requiredRPM > extruder.maxRPM) {
+    warnings.push(
+      `Rate needs ~${Math.round(requiredRPM)} RPM but extruder max is ${extruder.maxRPM} RPM (max ~${Math.round(getMaxOutput(extruder))} lbs/hr)`
+    );
+  }
+  if (
+    extruder.lengthToDiameter < 24 &&
+    (inputs.material === 'LLDPE' || inputs.material === 'HDPE' || inputs.material === 'EVOH')
+  ) {
+    warnings.push(
+      `${extruder.lengthToDiameter}:1 L/D is short for ${inputs.material} - expect poor melt homogeneity at high rate`
+    );
+  }
+
+  // Die geometry
+  if (bur < materialProps.blowUpRatioRange.min || bur > materialProps.blowUpRatioRange.max) {
+    warnings.push(
+      `Target OD on the ${die.diameter}" die gives BUR ${bur.toFixed(2)}, outside ${materialProps.name} range (${materialProps.blowUpRatioRange.min}-${materialProps.blowUpRatioRange.max})`
+    );
+  }
+  if (die.gap < inputs.targetGauge * bur) {
+    warnings.push(
+      `${die.gap} mil die gap is too narrow to reach ${inputs.targetGauge} mils at BUR ${bur.toFixed(2)} - drawdown would be below 1`
+    );
   }
 
-  return { rating, factors, recommendations };
+  // Cooling
+  const installed = AIR_RING_TYPES[equipment.airRing];
+  if (!cooling.rateAchievable) {
+    warnings.push(
+      `${installed.name} air ring can cool ~${cooling.maxCoolingRate} lbs/hr on the ${die.diameter}" die - frost line would sit at ~${Math.round(cooling.frostLineHeight)}" against a ${cooling.maxFrostLineHeight}" maximum`
+    );
+  }
+  if (ibcRecommended && !cooling.ibc) {
+    warnings.push('IBC recommended but the line has no internal bubble cooling');
+  }
+
+  return warnings;
 }
 
 // Assess confidence in recommendations
 function assessConfidence(
   inputs: OptimizeInputs
-): { level: 'high' | 'medium' | 'low'; reasons: string[] } {
+): { level: 'high' | 'medium' | 'low'; score: number; reasons: string[] } {
   const reasons: string[] = [];
   let score = 100;
 
@@ -425,12 +408,19 @@ function assessConfidence(
     reasons.push('EVOH requires careful moisture control');
   }
 
+  const blendMaterials = new Set(inputs.blend?.components.map((c) => c.material));
+  if (blendMaterials.has('EVOH') && blendMaterials.size > 1) {
+    score -= 20;
+    reasons.push('EVOH does not blend with polyolefins - settings are a rough estimate');
+  }
+
+  score = Math.max(0, score);
   if (score >= 80) {
-    return { level: 'high', reasons };
+    return { level: 'high', score, reasons };
   } else if (score >= 60) {
-    return { level: 'medium', reasons };
+    return { level: 'medium', score, reasons };
   } else {
-    return { level: 'low', reasons };
+    return { level: 'low', score, reasons };
   }
 }
 
@@ -458,6 +448,10 @@ function identifyCriticalParameters(inputs: OptimizeInputs): string[] {
     critical.push('Adequate cooling capacity');
   }
 
+  if (inputs.blend) {
+    critical.push('Blender ratio accuracy (verify gravimetric calibration)');
+  }
+
   // Always critical
   critical.push('Die gap uniformity for gauge control');
   critical.push('Frost line height consistency');
@@ -465,39 +459,210 @@ function identifyCriticalParameters(inputs: OptimizeInputs): string[] {
   return critical;
 }
 
-export function optimizeParameters(inputs: OptimizeInputs): RecommendedSettings {
-  const materialProps = getMaterial(inputs.material);
+export function optimizeParameters(optimizeInputs: OptimizeInputs): RecommendedSettings {
+  // A selected grade or blend overrides the family with its own derived window
+  const { material, properties: materialProps, blend } = resolveMaterial(optimizeInputs);
+  const inventory = optimizeInputs.dieInventory?.length ? optimizeInputs.dieInventory : undefined;
 
   // Calculate barrel temperatures (use recommended values, may adjust based on rate)
-  const tempOffset = inputs.productionRate > 300 ? 10 : 0; // Slightly higher temps for high output
+  const tempOffset = optimizeInputs.productionRate > 300 ? 10 : 0; // Slightly higher temps for high output
 
   const barrelTemps = {
     feed: materialProps.barrelTemperatures.feed.recommended,
     compression: materialProps.barrelTemperatures.compression.recommended + tempOffset,
     metering: materialProps.barrelTemperatures.metering.recommended + tempOffset,
     die: materialProps.barrelTemperatures.die.recommended + tempOffset,
+    ...optimizeInputs.barrelTemps,
+  };
+
+  // A film spec fixes the bubble OD and die size from the finished width
+  let sizing = optimizeInputs.filmSpec
+    ? sizeFromFilmSpec(
+        optimizeInputs.filmSpec,
+        materialProps,
+        optimizeInputs.productionRate,
+        inventory ? undefined : optimizeInputs.equipment?.die.diameter,
+        inventory?.map((die) => die.diameter)
+      )
+    : undefined;
+
+  // With a die inventory, the best-scoring die is mounted in place of the line's own
+  const dieSelection = inventory
+    ? selectDie(inventory, {
+        requiredOD: sizing ? sizing.requiredOD : optimizeInputs.targetOD,
+        targetGauge: optimizeInputs.targetGauge,
+        productionRate: optimizeInputs.productionRate,
+        materialProps,
+        airRing: optimizeInputs.equipment?.airRing ?? GENERIC_AIR_RING,
+        cooling: optimizeInputs.cooling,
+        meltTemp: barrelTemps.die,
+        sizing,
+        ppa: blend?.additives.ppa,
+      })
+    : undefined;
+  const mountedDie = dieSelection?.selected.die;
+  // Sized again on the mounted die, so the bubble OD and BUR are the ones it runs
+  if (sizing && mountedDie) {
+    sizing = sizeFromFilmSpec(
+      sizing.spec,
+      materialProps,
+      optimizeInputs.productionRate,
+      mountedDie.diameter,
+      inventory?.map((die) => die.diameter)
+    );
+  }
+  const equipment =
+    optimizeInputs.equipment && mountedDie
+      ? { ...optimizeInputs.equipment, die: { diameter: mountedDie.diameter, gap: mountedDie.gap } }
+      : optimizeInputs.equipment;
+
+  const targetOD = sizing ? sizing.selected.bubbleOD : optimizeInputs.targetOD;
+  const inputs = { ...optimizeInputs, material, blend, targetOD, equipment };
+
+  const installedDie = mountedDie ?? equipment?.die;
+  const startDie = sizing
+    ? sizing.selected.dieDiameter
+    : installedDie
+      ? installedDie.diameter
+      : (inputs.dieDiameter ?? getDieSize(inputs.targetOD));
+  const fixedDie = Boolean(installedDie || sizing);
+  const dieGap = installedDie?.gap ?? materialProps.typicalDieGap;
+
+  // A notional die can be swapped for any standard size that keeps the BUR in range
+  const range = materialProps.blowUpRatioRange;
+  const candidateDies = fixedDie
+    ? [startDie]
+    : [...new Set([startDie, ...STANDARD_DIE_SIZES])]
+        .filter((die) => die === startDie || (inputs.targetOD / die >= range.min && inputs.targetOD / die <= range.max))
+        .sort((a, b) => a - b);
+  const job = {
+    material,
+    blend,
+    materialProps,
+    productionRate: inputs.productionRate,
+    targetOD: inputs.targetOD,
+    gauge: inputs.targetGauge,
+    dieGap,
+    dieDiameters: candidateDies,
+    startDie,
+    dieTemp: barrelTemps.die,
+    airRing: equipment?.airRing ?? GENERIC_AIR_RING,
+    cooling: inputs.cooling,
+    additives: blend?.additives,
   };
 
-  const screwSpeed = calculateScrewSpeed(inputs.productionRate, inputs.material);
+  // An objective solves for the setpoints; film targets alone move the die
+  // (when it is not fixed), die zone and air flow to meet them
+  const { targets, rejected: rejectedTargets } = screenFilmTargets(inputs.filmTargets);
+  const setpoints = inputs.objective
+    ? solveSetpoints({ ...job, objective: inputs.objective, targets, equipment, sizing })
+    : undefined;
+  const filmTargets =
+    !setpoints && targets && hasFilmTargets(targets) ? searchFilmTargets({ ...job, targets }) : undefined;
+  // Setpoints that break a constraint are reported but not run: the rule-based
+  // setpoints and the requested rate stand
+  const applied = setpoints?.feasible ? setpoints : undefined;
+  const chosen = applied ?? filmTargets;
+  const dieSize = chosen ? chosen.dieDiameter : startDie;
+  const coolingSetup = chosen ? { ...inputs.cooling, airFlow: chosen.airFlow } : inputs.cooling;
+  if (chosen) {
+    barrelTemps.die = chosen.dieTemp;
+  }
+  // Maximum output solves for the rate; everything below runs at it, and a note says so
+  if (applied) {
+    inputs.productionRate = applied.productionRate;
+  }
+
+  const screwSpeed = calculateScrewSpeed(inputs.productionRate, materialProps, equipment?.extruder);
   const lineSpeed = calculateLineSpeed(
     inputs.productionRate,
     inputs.targetOD,
     inputs.targetGauge,
-    inputs.material
+    getMaterialDensity(materialProps)
   );
-  const meltPressure = calculateMeltPressure(inputs.productionRate, inputs.material);
-  const airRing = calculateAirRing(inputs.productionRate, inputs.material, inputs.targetOD);
-  const blowUpRatio = calculateBUR(inputs.targetOD, inputs.material);
+  const blowUpRatio = calculateBUR(inputs.targetOD, dieSize, materialProps, fixedDie);
+
+  // Head pressure from the flow path at the die melt temperature
+  const meltPressure = predictMeltPressure({
+    productionRate: inputs.productionRate,
+    meltTemp: barrelTemps.die,
+    dieDiameter: dieSize,
+    dieGap,
+    materialProps,
+    landLength: equipment?.die.landLength,
+    adapter: equipment?.adapter,
+    screwDiameter: equipment?.extruder.screwDiameter,
+  });
+  const motorLoad = estimateMotorLoad({
+    productionRate: inputs.productionRate,
+    meltTemp: barrelTemps.die,
+    headPressure: meltPressure.target,
+    materialProps,
+    extruder: equipment?.extruder,
+    barrelTemps,
+  });
+
+  // Bubble heat balance from die exit to frost line
+  const cooling = predictCooling({
+    productionRate: inputs.productionRate,
+    meltTemp: barrelTemps.die,
+    dieDiameter: dieSize,
+    dieGap,
+    bubbleOD: inputs.targetOD,
+    gauge: inputs.targetGauge,
+    materialProps,
+    airRing: equipment?.airRing ?? GENERIC_AIR_RING,
+    setup: coolingSetup,
+  });
+  // Wall shear at the die lip against the melt fracture onset
+  const dieShear = calculateDieShear({
+    productionRate: inputs.productionRate,
+    meltTemp: barrelTemps.die,
+    dieDiameter: dieSize,
+    dieGap,
+    materialProps,
+    ppa: blend?.additives.ppa,
+  });
+  // Film that comes off the bubble at this draw and frost line
+  const filmProperties = predictFilmProperties({
+    materialProps,
+    blowUpRatio,
+    gauge: inputs.targetGauge,
+    dieGap,
+    dieDiameter: dieSize,
+    frostLineHeight: cooling.frostLineHeight,
+    meltTemp: barrelTemps.die,
+    shearRisk: dieShear.risk,
+    additives: blend?.additives,
+  });
+  const airRing = calculateAirRing(inputs.productionRate, inputs.material, cooling);
 
   // New calculations
-  const frostLine = calculateFrostLine(inputs.targetOD, inputs.material, inputs.productionRate);
+  const frostLine = calculateFrostLine(dieSize, inputs.material, materialProps, cooling);
   const nipRollers = calculateNipRollers(lineSpeed, inputs.targetGauge, inputs.material);
   const ibc = calculateIBC(inputs.productionRate, inputs.targetOD, inputs.targetGauge, inputs.material);
-  const gaugeControl = calculateGaugeControl(inputs.targetGauge, inputs.targetOD, inputs.material);
-  const bubbleStability = assessBubbleStability(inputs, blowUpRatio);
+  const gaugeControl = calculateGaugeControl(
+    inputs.targetGauge,
+    dieSize,
+    blowUpRatio,
+    inputs.material,
+    dieGap,
+    Boolean(installedDie)
+  );
+  const bubbleStability = assessBubbleStability({
+    ...inputs,
+    blowUpRatio,
+    stressRatio: dieShear.stressRatio,
+    frostLineHeight: cooling.frostLineHeight,
+    frostWindow: getFrostLineWindow(dieSize, materialProps),
+    coolingUse: cooling.maxCoolingRate > 0 ? inputs.productionRate / cooling.maxCoolingRate : Infinity,
+  });
 
   const confidenceResult = assessConfidence(inputs);
   const criticalParams = identifyCriticalParameters(inputs);
+  if (dieShear.risk !== 'low') {
+    criticalParams.unshift('Die wall shear stress (melt fracture onset)');
+  }
 
   // Build notes
   const notes = [...materialProps.notes];
@@ -508,6 +673,77 @@ export function optimizeParameters(inputs: OptimizeInputs): RecommendedSettings
   // Add layflat info
   const layflat = calculateLayflat(inputs.targetOD);
   notes.unshift(`Target layflat width: ${layflat.toFixed(2)}" (${(layflat * 2).toFixed(2)}" full width)`);
+  if (!installedDie) {
+    notes.push(
+      `Assumed a ${dieGap} mil die gap, typical for ${materialProps.name} - pressure, shear and cooling follow it, so select a line profile to use the real die`
+    );
+  }
+  if (sizing) {
+    notes.unshift(
+      `Sized from film spec: ${sizing.requiredLayflat}" required layflat on the ${sizing.selected.dieDiameter}" die at BUR ${sizing.selected.blowUpRatio}, ${sizing.selected.trimWaste}% trim`
+    );
+  }
+  if (dieSelection) {
+    notes.unshift(`Die from inventory: ${dieSelection.selected.die.name} - ${dieSelection.reason}`);
+  }
+  if (setpoints) {
+    const { name, unit } = SETPOINT_OBJECTIVES[setpoints.objective];
+    const shown = (value: number) => (unit === 'score' ? `${value}/100` : unit === '%' ? `${value}%` : `${value} ${unit}`);
+    if (!applied) {
+      notes.unshift(
+        `${name}: no setpoints meet every constraint - running the rule-based setpoints at the ${optimizeInputs.productionRate} lbs/hr requested. Best point found breaks: ${setpoints.violatedConstraints.join('; ')}`
+      );
+    } else {
+      notes.unshift(
+        `${name}: ${shown(setpoints.value)} against ${shown(setpoints.baseline)} at the rule-based setpoints`
+      );
+    }
+    if (applied && applied.productionRate !== optimizeInputs.productionRate) {
+      notes.unshift(
+        `Rate set to ${applied.productionRate} lbs/hr in place of the ${optimizeInputs.productionRate} lbs/hr requested - screw speed, line speed, pressure and cooling are for ${applied.productionRate} lbs/hr`
+      );
+    }
+  }
+  notes.push(...rejectedTargets);
+  if (filmTargets) {
+    notes.unshift(
+      `Film targets ${filmTargets.met ? 'met' : 'not all met'}: ${filmTargets.dieDiameter}" die at BUR ${filmTargets.blowUpRatio}, die zone ${filmTargets.dieTemp}°F, air ring ${filmTargets.airFlow} CFM`
+    );
+  }
+  if (equipment) {
+    notes.unshift(`Line profile: ${equipment.name}`);
+  }
+
+  const equipmentWarnings = equipment
+    ? checkEquipmentLimits(inputs, equipment, materialProps, blowUpRatio, ibc.recommended, cooling)
+    : [];
+  if (meltPressure.target > meltPressure.max) {
+    notes.push(
+      `Predicted head pressure ~${meltPressure.target} PSI is above the ${meltPressure.max} PSI window - raise the die temperature or open the die gap`
+    );
+  } else if (meltPressure.target < meltPressure.min) {
+    notes.push(
+      `Predicted head pressure ~${meltPressure.target} PSI is below the ${meltPressure.min} PSI window - expect less back pressure for melt mixing`
+    );
+  }
+
+  if (motorLoad.ratedHP && motorLoad.drivePower > motorLoad.ratedHP) {
+    equipmentWarnings.push(
+      `Drive load ~${motorLoad.drivePower} HP (~${motorLoad.amps} A at ${motorLoad.voltage} V) exceeds the ${motorLoad.ratedHP} HP motor - reduce rate or raise barrel zones so the heaters carry more of the melting`
+    );
+  } else if (motorLoad.loadPercent && motorLoad.loadPercent >= 90) {
+    notes.push(`Drive load ~${motorLoad.loadPercent}% of the ${motorLoad.ratedHP} HP motor rating - little headroom for rate or colder resin`);
+  }
+
+  // Melt fracture on a real die gap is a line limit; on the assumed gap it is advice
+  if (dieShear.warning) {
+    (installedDie && dieShear.risk === 'high' ? equipmentWarnings : notes).push(dieShear.warning);
+  }
+  if (!equipment && !cooling.rateAchievable) {
+    notes.push(
+      `Rate exceeds the ~${cooling.maxCoolingRate} lbs/hr cooling limit of a generic dual-lip air ring on a ${dieSize}" die`
+    );
+  }
 
   return {
     barrelTemps,
@@ -516,13 +752,25 @@ export function optimizeParameters(inputs: OptimizeInputs): RecommendedSettings
     meltPressure,
     airRing,
     blowUpRatio,
+    dieDiameter: dieSize,
+    dieGap,
     frostLine,
+    cooling,
+    dieShear,
+    motorLoad,
+    filmProperties,
     nipRollers,
     ibc,
     gaugeControl,
     bubbleStability,
     confidence: confidenceResult.level,
+    confidenceScore: confidenceResult.score,
     notes,
     criticalParameters: criticalParams,
+    equipmentWarnings,
+    sizing,
+    dieSelection,
+    filmTargets,
+    setpoints,
   };
 }
@@ -0,0 +1,116 @@
+import type {
+  OptimizeInputs,
+  RecipeDiff,
+  RecipeDiffRow,
+  RecipeOverrides,
+  RecipeSetpointKey,
+  RecipeSetpointValue,
+  RecipeVersion,
+  RecommendedSettings,
+} from './types';
+import { getGrade } from './grades';
+import { SETPOINT_OBJECTIVES } from './setpoints';
+
+// Saved job recipes: the inputs a job was run with, the recommendation it got
+// and whatever the operator changed on the line. Setpoints are read from the
+// recommendation so two versions - or two recipes - can be compared line by line.
+
+function round(value: number, decimals = 0): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export const RECIPE_SETPOINTS: {
+  key: RecipeSetpointKey;
+  label: string;
+  unit: string;
+  read: (settings: RecommendedSettings) => number;
+}[] = [
+  { key: 'feedTemp', label: 'Feed zone', unit: '°F', read: (s) => s.barrelTemps.feed },
+  { key: 'compressionTemp', label: 'Compression zone', unit: '°F', read: (s) => s.barrelTemps.compression },
+  { key: 'meteringTemp', label: 'Metering zone', unit: '°F', read: (s) => s.barrelTemps.metering },
+  { key: 'dieTemp', label: 'Die zone', unit: '°F', read: (s) => s.barrelTemps.die },
+  { key: 'screwSpeed', label: 'Screw speed', unit: 'RPM', read: (s) => s.screwSpeed.recommended },
+  { key: 'lineSpeed', label: 'Line speed', unit: 'ft/min', read: (s) => s.lineSpeed.recommended },
+  { key: 'meltPressure', label: 'Melt pressure', unit: 'PSI', read: (s) => s.meltPressure.target },
+  { key: 'blowUpRatio', label: 'BUR', unit: '', read: (s) => round(s.blowUpRatio, 2) },
+  { key: 'dieDiameter', label: 'Die diameter', unit: 'in', read: (s) => s.dieDiameter },
+  { key: 'frostLineHeight', label: 'Frost line', unit: 'in', read: (s) => s.cooling.frostLineHeight },
+  { key: 'airFlow', label: 'Air ring flow', unit: 'CFM', read: (s) => s.cooling.airFlow },
+];
+
+export function getRecipeSetpoints(settings: RecommendedSettings, overrides: RecipeOverrides = {}): RecipeSetpointValue[] {
+  return RECIPE_SETPOINTS.map(({ key, label, unit, read }) => {
+    const recommended = read(settings);
+    const override = overrides[key];
+    return {
+      key,
+      label,
+      unit,
+      recommended,
+      value: override ?? recommended,
+      overridden: override !== undefined && override !== recommended,
+    };
+  });
+}
+
+// Material as entered: the family, the grade, or the blend recipe with its masterbatches
+function describeMaterial(inputs: OptimizeInputs): string {
+  if (inputs.blend) {
+    const resins = inputs.blend.components
+      .map((c) => `${c.fraction}% ${c.grade ? getGrade(c.grade)?.name ?? c.grade : c.material}`)
+      .join(' / ');
+    const { slip, antiblock, ppa } = inputs.blend.additives;
+    const additives = [
+      slip > 0 ? `${slip}% slip` : '',
+      antiblock > 0 ? `${antiblock}% antiblock` : '',
+      ppa > 0 ? `${ppa}% PPA` : '',
+    ].filter(Boolean);
+    return additives.length > 0 ? `${resins} + ${additives.join(', ')}` : resins;
+  }
+  return inputs.grade ? getGrade(inputs.grade)?.name ?? inputs.grade : inputs.material;
+}
+
+function describeFilmSpec(inputs: OptimizeInputs): string {
+  const spec = inputs.filmSpec;
+  if (!spec) return 'OD';
+  if (spec.type === 'layflat') return `Layflat ${spec.layflatWidth}"`;
+  if (spec.type === 'gusseted') return `Gusseted ${spec.faceWidth}" + ${spec.gussetDepth}"`;
+  return `${spec.sheets} sheet${spec.sheets > 1 ? 's' : ''} ${spec.sheetWidth}", ${spec.edgeTrim}" trim`;
+}
+
+const INPUT_ROWS: { label: string; unit: string; read: (version: RecipeVersion) => number | string }[] = [
+  { label: 'Material', unit: '', read: (v) => describeMaterial(v.inputs) },
+  { label: 'Sized from', unit: '', read: (v) => describeFilmSpec(v.inputs) },
+  { label: 'Bubble OD', unit: 'in', read: (v) => v.settings.sizing?.selected.bubbleOD ?? v.inputs.targetOD },
+  { label: 'Gauge', unit: 'mils', read: (v) => v.inputs.targetGauge },
+  { label: 'Production rate', unit: 'lbs/hr', read: (v) => v.inputs.productionRate },
+  { label: 'Line', unit: '', read: (v) => v.inputs.equipment?.name ?? 'Generic line' },
+  {
+    label: 'Objective',
+    unit: '',
+    read: (v) => (v.inputs.objective ? SETPOINT_OBJECTIVES[v.inputs.objective].name : 'Rule-based'),
+  },
+];
+
+function diffRow(label: string, unit: string, before: number | string, after: number | string): RecipeDiffRow {
+  return { label, unit, before, after, changed: before !== after };
+}
+
+// Side-by-side comparison of two saved versions; setpoints include operator overrides
+export function diffRecipeVersions(before: RecipeVersion, after: RecipeVersion): RecipeDiff {
+  const inputs = INPUT_ROWS.map(({ label, unit, read }) => diffRow(label, unit, read(before), read(after)));
+
+  const beforeSetpoints = getRecipeSetpoints(before.settings, before.overrides);
+  const afterSetpoints = getRecipeSetpoints(after.settings, after.overrides);
+  const setpoints = beforeSetpoints.map((setpoint, idx) =>
+    diffRow(setpoint.label, setpoint.unit, setpoint.value, afterSetpoints[idx].value)
+  );
+
+  return {
+    inputs,
+    setpoints,
+    notesChanged: before.notes.trim() !== after.notes.trim(),
+    changes: [...inputs, ...setpoints].filter((row) => row.changed).length,
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { MaterialType, OptimizeInputs } from './types';
+import { DEFAULT_EQUIPMENT_PROFILES } from './equipment';
+import { getAllMaterials, getMaterial } from './materials';
+import { optimizeParameters } from './optimizer';
+import { calculateDieShear, predictMeltPressure } from './rheology';
+
+// Standard film jobs: the CLI example, a mid-size job without a line, and the
+// same job on the 10" line
+const JOBS: { name: string; inputs: Omit<OptimizeInputs, 'material'> }[] = [
+  { name: '30" OD, 1.25 mil, 350 lb/hr', inputs: { targetOD: 30, targetGauge: 1.25, productionRate: 350 } },
+  { name: '20" OD, 1.5 mil, 200 lb/hr', inputs: { targetOD: 20, targetGauge: 1.5, productionRate: 200 } },
+  {
+    name: '20" OD, 1.5 mil, 200 lb/hr on line 2',
+    inputs: { targetOD: 20, targetGauge: 1.5, productionRate: 200, equipment: DEFAULT_EQUIPMENT_PROFILES[1] },
+  },
+];
+
+const CASES = JOBS.flatMap((job) => getAllMaterials().map((material) => [job.name, material, job.inputs] as const));
+
+function pressureAt(material: MaterialType, changes: Partial<Parameters<typeof predictMeltPressure>[0]> = {}) {
+  const materialProps = getMaterial(material);
+  return predictMeltPressure({
+    productionRate: 200,
+    meltTemp: materialProps.barrelTemperatures.die.recommended,
+    dieDiameter: 6,
+    dieGap: materialProps.typicalDieGap,
+    materialProps,
+    ...changes,
+  });
+}
+
+describe('predictMeltPressure', () => {
+  it.each(CASES)('%s puts %s inside its melt pressure window', (_name, material, inputs) => {
+    const { meltPressure } = optimizeParameters({ ...inputs, material });
+    const window = getMaterial(material).meltPressureRange;
+    expect(meltPressure.target).toBeGreaterThanOrEqual(window.min);
+    expect(meltPressure.target).toBeLessThanOrEqual(window.max);
+  });
+
+  it('adds up the drops along the flow path', () => {
+    const { target, drops } = pressureAt('HDPE');
+    const total = drops.screenPack + drops.adapter + drops.dieBody + drops.dieLand;
+    expect(Math.abs(total - target)).toBeLessThanOrEqual(25);
+  });
+
+  it('rises with rate and a tighter gap, falls with a hotter melt', () => {
+    const base = pressureAt('LLDPE').target;
+    expect(pressureAt('LLDPE', { productionRate: 300 }).target).toBeGreaterThan(base);
+    expect(pressureAt('LLDPE', { dieGap: 50 }).target).toBeGreaterThan(base);
+    expect(pressureAt('LLDPE', { meltTemp: 460 }).target).toBeLessThan(base);
+  });
+
+  it('drops less through a larger die at the same rate', () => {
+    expect(pressureAt('HDPE', { dieDiameter: 10 }).drops.dieLand).toBeLessThan(pressureAt('HDPE').drops.dieLand);
+  });
+});
+
+describe('calculateDieShear', () => {
+  it.each(CASES)('%s runs %s clear of shark skin', (_name, material, inputs) => {
+    const { dieShear, filmProperties } = optimizeParameters({ ...inputs, material });
+    expect(dieShear.risk).toBe('low');
+    expect(dieShear.warning).toBeUndefined();
+    expect(filmProperties.notes).not.toContain('Shark skin at the die lip roughens the surface and raises haze');
+  });
+
+  it('flags LLDPE pushed through a narrow gap and sizes a gap that clears it', () => {
+    const materialProps = getMaterial('LLDPE');
+    const inputs = { productionRate: 350, meltTemp: 425, dieDiameter: 6, dieGap: 40, materialProps };
+    const shear = calculateDieShear(inputs);
+    expect(shear.risk).toBe('high');
+    const fixGap = shear.fix?.dieGap ?? 0;
+    expect(fixGap).toBeGreaterThan(40);
+    expect(calculateDieShear({ ...inputs, dieGap: fixGap }).risk).toBe('low');
+  });
+
+  it('raises the onset with PPA', () => {
+    const materialProps = getMaterial('LLDPE');
+    const inputs = { productionRate: 200, meltTemp: 425, dieDiameter: 6, dieGap: 40, materialProps };
+    const shear = calculateDieShear(inputs);
+    const ppa = shear.fix?.ppa ?? 0;
+    expect(ppa).toBeGreaterThan(0);
+    const treated = calculateDieShear({ ...inputs, ppa });
+    expect(treated.criticalShearStress).toBeGreaterThan(shear.criticalShearStress);
+    expect(treated.risk).toBe('low');
+  });
+});
@@ -0,0 +1,224 @@
+import type { DieShear, MaterialProperties, RecommendedSettings } from './types';
+
+// Melt rheology along the flow path from the extruder to the die lip. Viscosity
+// is a Carreau model shifted to the melt temperature, so pressure and shear
+// follow temperature and geometry as well as rate.
+//
+// At the lip, the melt leaves through an annular gap that is thin against the
+// die circumference, so it is treated as slit flow. Wall shear stress above
+// the material's critical value tears the film surface - shark skin first,
+// then gross melt fracture as the stress keeps climbing.
+
+const PA_PER_PSI = 6894.76;
+const GCC_TO_LB_PER_CUIN = 0.036127;
+const GAS_CONSTANT = 0.008314; // kJ/mol·K
+
+// Polyolefin melt is about 20% less dense than the solid resin
+const MELT_DENSITY_RATIO = 0.8;
+
+// Flow path when the line profile does not give it
+export const DEFAULT_LAND_LENGTH = 1.5; // inches
+const DEFAULT_ADAPTER_LENGTH = 24; // inches
+const DEFAULT_ADAPTER_DIAMETER = 1.5; // inches, for a generic 2.5" extruder
+const ADAPTER_BORE_PER_SCREW_DIAMETER = 0.6;
+
+// Spiral mandrel and distribution channels, taken as an equivalent annular
+// slit. The spirals wrap the mandrel, so their length grows with the die.
+const DIE_BODY_GAP = 0.08; // inches
+const DIE_BODY_LENGTH_PER_DIAMETER = 1; // inches of equivalent slit per inch of die
+
+// Clean screen pack and breaker plate; the pressure transducer sits upstream of them
+const SCREEN_PACK_DROP = 300; // PSI
+
+// PPA lets the melt slip at the die wall. Each 1% masterbatch adds the base
+// onset stress again, up to 3.5x once the die surface is fully coated.
+const PPA_STRESS_GAIN = 1;
+const MAX_PPA_STRESS_FACTOR = 3.5;
+
+// Wall stress within 10% of the onset already hazes the surface
+const MODERATE_STRESS_RATIO = 0.9;
+
+// Fixes aim for the wall stress to sit 20% under the onset, clear of the haze band
+const TARGET_STRESS_RATIO = 0.8;
+
+interface DieFlowInputs {
+  productionRate: number; // lbs/hr
+  meltTemp: number; // °F
+  dieDiameter: number; // inches
+  dieGap: number; // mils
+  materialProps: MaterialProperties;
+}
+
+interface DieShearInputs extends DieFlowInputs {
+  ppa?: number; // PPA masterbatch % already in the feed
+}
+
+interface MeltPressureInputs extends DieFlowInputs {
+  landLength?: number; // inches
+  adapter?: { diameter: number; length: number }; // inches
+  screwDiameter?: number; // inches, sizes the adapter when it is not given
+}
+
+function round(value: number, decimals = 0): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// Melt pipe from extruder to die, sized from the screw when the line does not give it
+export function getDefaultAdapter(screwDiameter?: number): { diameter: number; length: number } {
+  return {
+    diameter: screwDiameter ? round(screwDiameter * ADAPTER_BORE_PER_SCREW_DIAMETER, 2) : DEFAULT_ADAPTER_DIAMETER,
+    length: DEFAULT_ADAPTER_LENGTH,
+  };
+}
+
+function toKelvin(fahrenheit: number): number {
+  return ((fahrenheit - 32) * 5) / 9 + 273.15;
+}
+
+// Arrhenius shift factor: viscosity at the melt temperature over viscosity at the reference
+export function getTemperatureShift(materialProps: MaterialProperties, meltTemp: number): number {
+  const { activationEnergy, referenceTemp } = materialProps.viscosity;
+  return Math.exp((activationEnergy / GAS_CONSTANT) * (1 / toKelvin(meltTemp) - 1 / toKelvin(referenceTemp)));
+}
+
+// Carreau viscosity (Pa·s) at a shear rate (1/s) and melt temperature
+export function getViscosity(materialProps: MaterialProperties, shearRate: number, meltTemp: number): number {
+  const { zeroShearViscosity, relaxationTime, powerLawIndex } = materialProps.viscosity;
+  const shift = getTemperatureShift(materialProps, meltTemp);
+  return (
+    shift *
+    zeroShearViscosity *
+    Math.pow(1 + Math.pow(shift * relaxationTime * shearRate, 2), (powerLawIndex - 1) / 2)
+  );
+}
+
+// Pressure measured at one melt temperature, moved to another. In the
+// shear-thinning region pressure goes as the shift factor to the n.
+export function shiftPressureToTemp(
+  pressure: number,
+  materialProps: MaterialProperties,
+  fromTemp: number,
+  toTemp: number
+): number {
+  const shift = getTemperatureShift(materialProps, toTemp) / getTemperatureShift(materialProps, fromTemp);
+  return pressure * Math.pow(shift, materialProps.viscosity.powerLawIndex);
+}
+
+// Volumetric melt flow (cu.in/s) for a mass rate
+export function getMeltVolumeFlow(productionRate: number, materialProps: MaterialProperties): number {
+  const meltDensity = materialProps.density * GCC_TO_LB_PER_CUIN * MELT_DENSITY_RATIO; // lb/cu.in
+  return productionRate / 3600 / meltDensity;
+}
+
+// Wall shear through a slit (inches); shear thinning steepens the velocity
+// profile at the wall (Rabinowitsch correction)
+function getSlitFlow(flow: number, width: number, height: number, materialProps: MaterialProperties, meltTemp: number) {
+  const n = materialProps.viscosity.powerLawIndex;
+  const apparentShearRate = (6 * flow) / (width * height * height);
+  const wallShearRate = (apparentShearRate * (2 * n + 1)) / (3 * n);
+  const viscosity = getViscosity(materialProps, wallShearRate, meltTemp);
+  return { apparentShearRate, wallShearRate, viscosity, wallShearStress: (viscosity * wallShearRate) / PA_PER_PSI };
+}
+
+// Wall shear stress (PSI) through a round bore
+function getPipeStress(flow: number, radius: number, materialProps: MaterialProperties, meltTemp: number): number {
+  const n = materialProps.viscosity.powerLawIndex;
+  const wallShearRate = ((4 * flow) / (Math.PI * Math.pow(radius, 3))) * ((3 * n + 1) / (4 * n));
+  return (getViscosity(materialProps, wallShearRate, meltTemp) * wallShearRate) / PA_PER_PSI;
+}
+
+// Head pressure as the sum of the drops through the screen pack, the adapter,
+// the die body and the lip land
+export function predictMeltPressure(inputs: MeltPressureInputs): RecommendedSettings['meltPressure'] {
+  const { productionRate, meltTemp, dieDiameter, materialProps } = inputs;
+  const flow = getMeltVolumeFlow(productionRate, materialProps);
+  const circumference = Math.PI * dieDiameter;
+  const gap = inputs.dieGap / 1000;
+  const landLength = inputs.landLength ?? DEFAULT_LAND_LENGTH;
+  const adapter = inputs.adapter ?? getDefaultAdapter(inputs.screwDiameter);
+
+  // Pressure drop is 2 x wall stress x length over the gap (slit) or radius (bore)
+  const radius = adapter.diameter / 2;
+  const adapterDrop = (2 * getPipeStress(flow, radius, materialProps, meltTemp) * adapter.length) / radius;
+  const bodyStress = getSlitFlow(flow, circumference, DIE_BODY_GAP, materialProps, meltTemp).wallShearStress;
+  const bodyDrop = (2 * bodyStress * DIE_BODY_LENGTH_PER_DIAMETER * dieDiameter) / DIE_BODY_GAP;
+  const landStress = getSlitFlow(flow, circumference, gap, materialProps, meltTemp).wallShearStress;
+  const landDrop = (2 * landStress * landLength) / gap;
+
+  return {
+    min: materialProps.meltPressureRange.min,
+    max: materialProps.meltPressureRange.max,
+    target: Math.round((SCREEN_PACK_DROP + adapterDrop + bodyDrop + landDrop) / 50) * 50,
+    drops: {
+      screenPack: SCREEN_PACK_DROP,
+      adapter: Math.round(adapterDrop),
+      dieBody: Math.round(bodyDrop),
+      dieLand: Math.round(landDrop),
+    },
+  };
+}
+
+// Usable wall stress multiplier for a PPA masterbatch level
+function getPPAFactor(ppa: number): number {
+  return Math.min(1 + PPA_STRESS_GAIN * ppa, MAX_PPA_STRESS_FACTOR);
+}
+
+export function calculateDieShear(inputs: DieShearInputs): DieShear {
+  const { productionRate, meltTemp, dieDiameter, dieGap, materialProps } = inputs;
+  const ppa = inputs.ppa ?? 0;
+  const n = materialProps.viscosity.powerLawIndex;
+
+  // Slit of width PI x D and height equal to the gap
+  const flow = getMeltVolumeFlow(productionRate, materialProps);
+  const { apparentShearRate, wallShearRate, viscosity, wallShearStress } = getSlitFlow(
+    flow,
+    Math.PI * dieDiameter,
+    dieGap / 1000,
+    materialProps,
+    meltTemp
+  );
+
+  const criticalShearStress = materialProps.criticalShearStress * getPPAFactor(ppa);
+  const stressRatio = wallShearStress / criticalShearStress;
+  const risk = stressRatio >= 1 ? 'high' : stressRatio >= MODERATE_STRESS_RATIO ? 'moderate' : 'low';
+
+  const result: DieShear = {
+    dieGap,
+    meltTemp,
+    viscosity: Math.round(viscosity),
+    apparentShearRate: Math.round(apparentShearRate),
+    wallShearRate: Math.round(wallShearRate),
+    wallShearStress: round(wallShearStress, 1),
+    criticalShearStress: round(criticalShearStress, 1),
+    stressRatio: round(stressRatio, 2),
+    risk,
+  };
+
+  const stress = `Wall shear stress ~${round(wallShearStress, 1)} PSI`;
+  if (risk === 'moderate') {
+    result.warning = `${stress} is within ${Math.round((1 - stressRatio) * 100)}% of the ~${round(criticalShearStress, 1)} PSI shark skin onset for ${materialProps.name} - surface haze likely if rate rises`;
+    return result;
+  }
+  if (risk === 'low') return result;
+
+  // In the shear-thinning region stress goes as gap^-2n at a fixed rate, so
+  // solve for the gap that meets the target
+  const targetStress = TARGET_STRESS_RATIO * criticalShearStress;
+  const fixGap = Math.ceil((dieGap * Math.pow(wallShearStress / targetStress, 1 / (2 * n))) / 5) * 5;
+
+  // PPA level that raises the onset far enough, in half-percent steps
+  const neededFactor = wallShearStress / (TARGET_STRESS_RATIO * materialProps.criticalShearStress);
+  const fixPPA =
+    neededFactor <= MAX_PPA_STRESS_FACTOR
+      ? Math.ceil(((neededFactor - 1) / PPA_STRESS_GAIN) * 2) / 2
+      : undefined;
+
+  result.fix = { dieGap: fixGap, ppa: fixPPA };
+  const ppaFix =
+    fixPPA !== undefined
+      ? ` or ${ppa > 0 ? 'raise' : 'add'} PPA masterbatch to ~${fixPPA}%`
+      : ' (PPA alone cannot cover it)';
+  result.warning = `${stress} at the ${dieGap} mil gap exceeds the ~${round(criticalShearStress, 1)} PSI melt fracture onset for ${materialProps.name} - open the die to a ${fixGap} mil gap${ppaFix}`;
+  return result;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema } from './types';
+import { coerceToSchema, validateSchema } from './schema';
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['name', 'rate'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string' },
+    rate: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+    count: { type: 'integer', minimum: 1 },
+    kind: { enum: ['a', 'b'] },
+    layers: { type: 'array', minItems: 1, items: { $ref: '#/$defs/layer' } },
+  },
+  $defs: {
+    layer: { type: 'object', required: ['share'], properties: { share: { type: 'number', minimum: 0 } } },
+  },
+};
+
+describe('validateSchema', () => {
+  it('accepts a value that fits', () => {
+    expect(validateSchema({ name: 'job', rate: 50, count: 2, kind: 'a', layers: [{ share: 1 }] }, SCHEMA)).toEqual([]);
+  });
+
+  it('reports every rejected value by its dotted path', () => {
+    const errors = validateSchema({ rate: 0, count: 1.5, kind: 'c', layers: [{ share: -1 }], extra: true }, SCHEMA);
+    expect(errors).toEqual([
+      { path: 'name', message: 'is required' },
+      { path: 'rate', message: 'must be greater than 0' },
+      { path: 'count', message: 'expected integer, got number' },
+      { path: 'kind', message: 'must be one of "a", "b"' },
+      { path: 'layers.0.share', message: 'must be at least 0' },
+      { path: 'extra', message: 'is not a known field' },
+    ]);
+  });
+
+  it('does not take names from the object prototype as schema fields', () => {
+    expect(validateSchema(JSON.parse('{"name":"job","rate":1,"constructor":1,"toString":"x"}'), SCHEMA)).toEqual([
+      { path: 'constructor', message: 'is not a known field' },
+      { path: 'toString', message: 'is not a known field' },
+    ]);
+  });
+
+  it('enforces maximums and item counts', () => {
+    expect(validateSchema({ name: 'job', rate: 101, layers: [] }, SCHEMA)).toEqual([
+      { path: 'rate', message: 'must be at most 100' },
+      { path: 'layers', message: 'needs at least 1 item' },
+    ]);
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(validateSchema({ name: 'job', rate: NaN }, SCHEMA)).toEqual([
+      { path: 'rate', message: 'expected number, got number' },
+    ]);
+  });
+});
+
+describe('coerceToSchema', () => {
+  it('turns CSV text back into the types the schema expects', () => {
+    const value = { name: '42', rate: '12.5', count: '3', layers: [{ share: '0.5' }] };
+    expect(coerceToSchema(value, SCHEMA, SCHEMA)).toEqual({ name: '42', rate: 12.5, count: 3, layers: [{ share: 0.5 }] });
+  });
+
+  it('leaves text that does not parse for the validator to reject', () => {
+    const coerced = coerceToSchema({ name: 'job', rate: 'fast' }, SCHEMA, SCHEMA);
+    expect(validateSchema(coerced, SCHEMA)).toEqual([{ path: 'rate', message: 'expected number, got string' }]);
+  });
+});
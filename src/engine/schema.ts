@@ -0,0 +1,139 @@
+import type { JsonSchema, SchemaError } from './types';
+
+// Checks values against the JSON Schema subset the exchange files are
+// described in. Errors carry the dotted path of the offending value so a
+// rejected file can be fixed without guessing.
+
+type Json = unknown;
+
+function resolve(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace('#/$defs/', '');
+  const target = root.$defs?.[name];
+  if (!target) throw new Error(`Unknown schema reference: ${schema.$ref}`);
+  return resolve(target, root);
+}
+
+function typeOf(value: Json): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function join(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+function matchesType(value: Json, type: NonNullable<JsonSchema['type']>): boolean {
+  if (type === 'integer') return typeof value === 'number' && Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  if (type === 'object') return typeOf(value) === 'object';
+  return typeOf(value) === type;
+}
+
+function check(value: Json, schema: JsonSchema, root: JsonSchema, path: string, errors: SchemaError[]) {
+  const resolved = resolve(schema, root);
+
+  if (resolved.type && !matchesType(value, resolved.type)) {
+    errors.push({ path, message: `expected ${resolved.type}, got ${typeOf(value)}` });
+    return;
+  }
+  if (resolved.const !== undefined && value !== resolved.const) {
+    errors.push({ path, message: `must be ${JSON.stringify(resolved.const)}` });
+  }
+  if (resolved.enum && !resolved.enum.includes(value as string | number | boolean)) {
+    errors.push({ path, message: `must be one of ${resolved.enum.map((v) => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (resolved.minimum !== undefined && value < resolved.minimum) {
+      errors.push({ path, message: `must be at least ${resolved.minimum}` });
+    }
+    if (resolved.exclusiveMinimum !== undefined && value <= resolved.exclusiveMinimum) {
+      errors.push({ path, message: `must be greater than ${resolved.exclusiveMinimum}` });
+    }
+    if (resolved.maximum !== undefined && value > resolved.maximum) {
+      errors.push({ path, message: `must be at most ${resolved.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (resolved.minItems !== undefined && value.length < resolved.minItems) {
+      errors.push({ path, message: `needs at least ${resolved.minItems} item${resolved.minItems === 1 ? '' : 's'}` });
+    }
+    if (resolved.items) {
+      value.forEach((item, idx) => check(item, resolved.items!, root, join(path, idx), errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, Json>;
+    for (const key of resolved.required ?? []) {
+      if (record[key] === undefined) errors.push({ path: join(path, key), message: 'is required' });
+    }
+    for (const [key, item] of Object.entries(record)) {
+      // Own fields only - "constructor" or "toString" in the data is not a property of the schema
+      const property = resolved.properties && Object.hasOwn(resolved.properties, key) ? resolved.properties[key] : undefined;
+      if (property) {
+        if (item !== undefined) check(item, property, root, join(path, key), errors);
+      } else if (resolved.additionalProperties === false) {
+        errors.push({ path: join(path, key), message: 'is not a known field' });
+      }
+    }
+  }
+
+  // Exactly one branch has to fit; report the closest one when none does
+  if (resolved.oneOf) {
+    const branches = resolved.oneOf.map((branch) => {
+      const branchErrors: SchemaError[] = [];
+      check(value, branch, root, path, branchErrors);
+      return branchErrors;
+    });
+    const fitting = branches.filter((branchErrors) => branchErrors.length === 0).length;
+    if (fitting === 0) {
+      errors.push(...branches.reduce((best, branchErrors) => (branchErrors.length < best.length ? branchErrors : best)));
+    } else if (fitting > 1) {
+      errors.push({ path, message: 'matches more than one allowed form' });
+    }
+  }
+}
+
+export function validateSchema(value: Json, schema: JsonSchema): SchemaError[] {
+  const errors: SchemaError[] = [];
+  check(value, schema, schema, '', errors);
+  return errors;
+}
+
+// Text from a flat file (CSV) back to the types the schema expects; where the
+// schema does not say, numbers and booleans are recognized by their spelling
+export function coerceToSchema(value: Json, schema: JsonSchema | undefined, root: JsonSchema): Json {
+  const resolved = schema ? resolve(schema, root) : undefined;
+
+  if (Array.isArray(value)) return value.map((item) => coerceToSchema(item, resolved?.items, root));
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, Json>;
+    const properties: Record<string, JsonSchema> = Object.assign(Object.create(null), resolved?.properties);
+    const branch = resolved?.oneOf?.find((option) =>
+      (resolve(option, root).required ?? []).every((key) => record[key] !== undefined)
+    );
+    const branchProperties: Record<string, JsonSchema> = Object.assign(
+      Object.create(null),
+      branch ? resolve(branch, root).properties : undefined
+    );
+    return Object.fromEntries(
+      Object.entries(record).map(([key, item]) => [
+        key,
+        coerceToSchema(item, properties[key] ?? branchProperties[key], root),
+      ])
+    );
+  }
+  if (typeof value !== 'string') return value;
+
+  const type = resolved?.type ?? (resolved?.const !== undefined ? typeof resolved.const : undefined);
+  if (type === 'string') return value;
+  if ((type === 'number' || type === 'integer' || !type) && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  if ((type === 'boolean' || !type) && (value === 'true' || value === 'false')) return value === 'true';
+  return value;
+}
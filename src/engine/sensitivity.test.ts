@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { OptimizeInputs } from './types';
+import { optimizeParameters } from './optimizer';
+import { analyzeSensitivity } from './sensitivity';
+
+const JOB: OptimizeInputs = { material: 'LDPE', targetOD: 20, targetGauge: 1.5, productionRate: 200 };
+
+describe('analyzeSensitivity', () => {
+  const report = analyzeSensitivity(JOB);
+
+  it('charts every output against rate, OD, gauge and each zone temperature', () => {
+    expect(report.charts.map((chart) => chart.output)).toEqual([
+      'lineSpeed',
+      'meltPressure',
+      'drivePower',
+      'frostLine',
+      'stabilityScore',
+      'confidenceScore',
+    ]);
+    report.charts.forEach((chart) =>
+      expect(chart.bars.map((bar) => bar.factor).sort()).toEqual([
+        'compressionTemp',
+        'dieTemp',
+        'feedTemp',
+        'meteringTemp',
+        'productionRate',
+        'targetGauge',
+        'targetOD',
+      ])
+    );
+  });
+
+  it('moves the die zone by a fixed number of degrees', () => {
+    const dieTemp = optimizeParameters(JOB).barrelTemps.die;
+    const held = { ...JOB, barrelTemps: { ...optimizeParameters(JOB).barrelTemps } };
+    const pressure = (die: number) =>
+      optimizeParameters({ ...held, barrelTemps: { ...held.barrelTemps, die } }).meltPressure.target;
+    const chart = report.charts.find((item) => item.output === 'meltPressure');
+    const bar = chart?.bars.find((item) => item.factor === 'dieTemp');
+
+    expect(report.zoneTempStep).toBe(10);
+    expect(bar?.low).toBe(pressure(dieTemp - 10));
+    expect(bar?.high).toBe(pressure(dieTemp + 10));
+    // A hotter die thins the melt and drops the head pressure
+    expect(bar?.high).toBeLessThan(bar?.low ?? 0);
+  });
+
+  it('moves drive power with the zones ahead of the die', () => {
+    const chart = report.charts.find((item) => item.output === 'drivePower');
+    ['feedTemp', 'compressionTemp', 'meteringTemp'].forEach((factor) => {
+      const bar = chart?.bars.find((item) => item.factor === factor);
+      // Hotter zones let the heaters carry more of the melting
+      expect(bar?.high).toBeLessThan(bar?.low ?? 0);
+    });
+  });
+
+  it('sorts each chart by the width of the swing', () => {
+    report.charts.forEach((chart) => {
+      const swings = chart.bars.map((bar) => Math.abs(bar.high - bar.low));
+      expect(swings).toEqual([...swings].sort((a, b) => b - a));
+    });
+  });
+
+  it('leaves OD out when a film spec sets it', () => {
+    const withSpec = analyzeSensitivity({ ...JOB, filmSpec: { type: 'layflat', layflatWidth: 31.4 } });
+    expect(withSpec.charts[0].bars.map((bar) => bar.factor)).not.toContain('targetOD');
+    expect(withSpec.notes).toContain('OD is set by the film spec and is not varied');
+  });
+});
@@ -0,0 +1,120 @@
+import type {
+  OptimizeInputs,
+  RecommendedSettings,
+  SensitivityBar,
+  SensitivityChart,
+  SensitivityFactor,
+  SensitivityOutput,
+  SensitivityReport,
+} from './types';
+import { optimizeParameters } from './optimizer';
+
+// What-if analysis: step each input up and down around a recommendation and
+// re-run the model to see what moves. The recommended setup is held while one
+// input moves - the rate, zone temperatures, die and air flow stay where the
+// recommendation put them - so each bar shows that input's effect alone.
+// Sizes and rate move by a share of their value; zone temperatures move by a
+// fixed number of degrees, since a share of a °F setpoint depends on where the
+// scale starts. Melt temperature follows the die zone, so the zones ahead of
+// it show up through the drive power they take off or put on the screw.
+
+const DEFAULT_STEP = 0.1;
+const ZONE_TEMP_STEP = 10; // °F either way
+
+type Zone = keyof RecommendedSettings['barrelTemps'];
+
+const FACTORS: { factor: SensitivityFactor; label: string; zone?: Zone }[] = [
+  { factor: 'productionRate', label: 'Rate' },
+  { factor: 'targetOD', label: 'OD' },
+  { factor: 'targetGauge', label: 'Gauge' },
+  { factor: 'feedTemp', label: 'Feed zone', zone: 'feed' },
+  { factor: 'compressionTemp', label: 'Compression zone', zone: 'compression' },
+  { factor: 'meteringTemp', label: 'Metering zone', zone: 'metering' },
+  { factor: 'dieTemp', label: 'Die zone', zone: 'die' },
+];
+
+const OUTPUTS: { output: SensitivityOutput; label: string; unit: string; read: (r: RecommendedSettings) => number }[] = [
+  { output: 'lineSpeed', label: 'Line speed', unit: 'ft/min', read: (r) => r.lineSpeed.recommended },
+  { output: 'meltPressure', label: 'Melt pressure', unit: 'PSI', read: (r) => r.meltPressure.target },
+  { output: 'drivePower', label: 'Drive power', unit: 'HP', read: (r) => r.motorLoad.drivePower },
+  { output: 'frostLine', label: 'Frost line', unit: 'in', read: (r) => r.cooling.frostLineHeight },
+  { output: 'stabilityScore', label: 'Stability score', unit: '', read: (r) => r.bubbleStability.score },
+  { output: 'confidenceScore', label: 'Confidence score', unit: '', read: (r) => r.confidenceScore },
+];
+
+// The recommendation with its setpoints pinned, so the solver and film target
+// search do not re-tune around each step
+function holdSetup(inputs: OptimizeInputs, base: RecommendedSettings): OptimizeInputs {
+  return {
+    ...inputs,
+    objective: undefined,
+    filmTargets: undefined,
+    productionRate: base.setpoints?.feasible ? base.setpoints.productionRate : inputs.productionRate,
+    barrelTemps: { ...base.barrelTemps },
+    cooling: { ...inputs.cooling, airFlow: base.cooling.airFlow },
+    dieDiameter: base.dieDiameter,
+  };
+}
+
+// One factor moved a step down (-1) or up (+1) from the held setup
+function stepInputs(
+  held: OptimizeInputs,
+  base: RecommendedSettings,
+  { factor, zone }: (typeof FACTORS)[number],
+  direction: -1 | 1,
+  step: number
+): OptimizeInputs {
+  if (zone) {
+    return { ...held, barrelTemps: { ...base.barrelTemps, [zone]: base.barrelTemps[zone] + direction * ZONE_TEMP_STEP } };
+  }
+  const field = factor as 'productionRate' | 'targetOD' | 'targetGauge';
+  return { ...held, [field]: held[field] * (1 + direction * step) };
+}
+
+export function analyzeSensitivity(inputs: OptimizeInputs, step = DEFAULT_STEP): SensitivityReport {
+  const held = holdSetup(inputs, optimizeParameters(inputs));
+  const base = optimizeParameters(held);
+  const notes: string[] = [];
+
+  // A film spec sets the OD from the finished width, so OD is not a free input
+  const factors = FACTORS.filter((f) => !(f.factor === 'targetOD' && inputs.filmSpec));
+  if (inputs.filmSpec) {
+    notes.push('OD is set by the film spec and is not varied');
+  }
+  if (inputs.objective || inputs.filmTargets) {
+    notes.push('Optimized setpoints are held while each input moves');
+  }
+
+  const runs = factors.map((f) => ({
+    ...f,
+    low: optimizeParameters(stepInputs(held, base, f, -1, step)),
+    high: optimizeParameters(stepInputs(held, base, f, 1, step)),
+  }));
+
+  const charts: SensitivityChart[] = OUTPUTS.map(({ output, label, unit, read }) => {
+    const bars: SensitivityBar[] = runs.map((run) => ({
+      factor: run.factor,
+      label: run.label,
+      low: read(run.low),
+      high: read(run.high),
+    }));
+    bars.sort((a, b) => Math.abs(b.high - b.low) - Math.abs(a.high - a.low));
+    return { output, label, unit, base: read(base), bars };
+  });
+
+  // Swings relative to each output's base value, summed across the outputs
+  const fragility = (run: (typeof runs)[number]) =>
+    OUTPUTS.reduce(
+      (sum, { read }) => sum + Math.abs(read(run.high) - read(run.low)) / Math.max(Math.abs(read(base)), 1),
+      0
+    );
+  const fragile = runs.reduce((most, run) => (fragility(run) > fragility(most) ? run : most));
+
+  return {
+    step,
+    zoneTempStep: ZONE_TEMP_STEP,
+    charts,
+    mostFragileTo: { factor: fragile.factor, label: fragile.label },
+    notes,
+  };
+}
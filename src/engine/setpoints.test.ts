@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { OptimizeInputs } from './types';
+import { DEFAULT_EQUIPMENT_PROFILES } from './equipment';
+import { optimizeParameters } from './optimizer';
+
+const JOB: OptimizeInputs = {
+  material: 'LLDPE',
+  targetOD: 20,
+  targetGauge: 1.5,
+  productionRate: 200,
+  equipment: DEFAULT_EQUIPMENT_PROFILES[1],
+};
+
+describe('solveSetpoints objectives', () => {
+  it('maximizes the stability score the results display', () => {
+    const settings = optimizeParameters({ ...JOB, objective: 'max-stability' });
+    expect(settings.setpoints?.value).toBe(settings.bubbleStability.score);
+    expect(settings.bubbleStability.score).toBeGreaterThanOrEqual(optimizeParameters(JOB).bubbleStability.score);
+  });
+
+  it('starts from the displayed score at the rule-based setpoints', () => {
+    const settings = optimizeParameters({ ...JOB, objective: 'max-stability' });
+    expect(settings.setpoints?.baseline).toBe(optimizeParameters(JOB).bubbleStability.score);
+  });
+
+  it('prices scrap from the displayed stability score', () => {
+    const settings = optimizeParameters({ ...JOB, objective: 'min-scrap' });
+    const scrap = Math.round((100 - settings.bubbleStability.score) * 0.1 * 10) / 10;
+    expect(settings.setpoints?.value).toBe(scrap);
+  });
+
+  it('says when maximum output moves the rate off the one requested', () => {
+    const settings = optimizeParameters({ ...JOB, objective: 'max-output' });
+    const rate = settings.setpoints?.productionRate;
+    expect(rate).toBeGreaterThan(JOB.productionRate);
+    expect(settings.notes).toContain(
+      `Rate set to ${rate} lbs/hr in place of the 200 lbs/hr requested - screw speed, line speed, pressure and cooling are for ${rate} lbs/hr`
+    );
+  });
+
+  it('keeps the requested rate and rule-based setpoints when no setpoints meet every constraint', () => {
+    const settings = optimizeParameters({ ...JOB, objective: 'max-output', filmTargets: { maxHaze: 1 } });
+    const ruleBased = optimizeParameters(JOB);
+    expect(settings.setpoints?.feasible).toBe(false);
+    expect(settings.setpoints?.violatedConstraints).toContain('Haze 7.5% against a maximum of 1%');
+    expect(settings.lineSpeed).toEqual(ruleBased.lineSpeed);
+    expect(settings.barrelTemps).toEqual(ruleBased.barrelTemps);
+    expect(settings.dieDiameter).toBe(ruleBased.dieDiameter);
+    expect(settings.cooling.airFlow).toBe(ruleBased.cooling.airFlow);
+    expect(settings.notes.some((note) => note.startsWith('Rate set to'))).toBe(false);
+    expect(settings.notes).toContain(
+      `Maximum output: no setpoints meet every constraint - running the rule-based setpoints at the 200 lbs/hr requested. Best point found breaks: ${settings.setpoints?.violatedConstraints.join('; ')}`
+    );
+  });
+
+  it('leaves the requested rate alone for the other objectives', () => {
+    const settings = optimizeParameters({ ...JOB, objective: 'min-energy' });
+    expect(settings.setpoints?.productionRate).toBe(JOB.productionRate);
+    expect(settings.notes.some((note) => note.startsWith('Rate set to'))).toBe(false);
+  });
+});
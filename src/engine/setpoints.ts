@@ -0,0 +1,406 @@
+import type {
+  AirRingType,
+  BlendInput,
+  CoolingSetup,
+  EquipmentProfile,
+  FilmProperties,
+  FilmSizing,
+  FilmTargets,
+  MaterialProperties,
+  MaterialType,
+  SetpointConstraint,
+  SetpointObjective,
+  SetpointOptimum,
+} from './types';
+import { AIR_RING_TYPES, GENERIC_SPECIFIC_OUTPUT, calculateRPMForRate, estimateMotorLoad, getMaxOutput } from './equipment';
+import { getFrostLineWindow, predictCooling } from './cooling';
+import { calculateDieShear, predictMeltPressure } from './rheology';
+import { BALANCED_ORIENTATION, predictFilmProperties } from './filmProperties';
+import { AIR_FLOW_SHARES } from './filmTargets';
+import { assessBubbleStability } from './stability';
+
+// Setpoint solver: treats rate, die zone temperature and air ring flow as
+// decision variables inside the material and equipment windows, runs the full
+// model (pressure, drive load, cooling, die shear, film properties) at every
+// trial point, and searches for the best objective that keeps every
+// constraint. Each candidate die is searched on its own since BUR is discrete.
+//
+// The search is a compass (pattern) search on the variables scaled to 0-1:
+// poll a step either way on each variable, move on any improvement, halve the
+// step when nothing improves. Feasible points always beat infeasible ones;
+// between infeasible points the smaller total violation wins.
+
+export const SETPOINT_OBJECTIVES: Record<SetpointObjective, { name: string; unit: string; maximize: boolean }> = {
+  'max-output': { name: 'Maximum output', unit: 'lbs/hr', maximize: true },
+  'min-energy': { name: 'Minimum energy', unit: 'kWh/lb', maximize: false },
+  'max-stability': { name: 'Maximum stability', unit: 'score', maximize: true },
+  'min-scrap': { name: 'Minimum scrap', unit: '%', maximize: false },
+};
+
+const INITIAL_STEP = 0.25;
+const MIN_STEP = 1 / 64;
+const MAX_POLLS = 200;
+
+// A satisfied constraint within this fraction of its limit is active
+const ACTIVE_SLACK = 0.02;
+
+// Slowest rate searched for maximum output, as a share of the requested rate
+const MIN_RATE_SHARE = 0.5;
+
+// Startup and upset scrap grows as the bubble gets less stable
+const SCRAP_PER_STABILITY_POINT = 0.1; // % per point below 100
+
+interface SetpointJob {
+  objective: SetpointObjective;
+  targets?: FilmTargets;
+  material: MaterialType;
+  blend?: BlendInput;
+  materialProps: MaterialProperties;
+  productionRate: number; // lbs/hr - fixed unless the objective is output
+  targetOD: number; // inches
+  gauge: number; // mils
+  dieGap: number; // mils
+  dieDiameters: number[]; // inches - candidate dies, one when the die is fixed
+  startDie: number; // inches - the die used by the rule-based pass
+  dieTemp: number; // °F - rule-based die zone setting
+  airRing: AirRingType;
+  cooling?: CoolingSetup;
+  additives?: BlendInput['additives'];
+  equipment?: EquipmentProfile;
+  sizing?: FilmSizing;
+}
+
+interface Variable {
+  name: string;
+  min: number;
+  max: number;
+  unit: string;
+  decimals: number;
+}
+
+interface TrialPoint {
+  die: number; // index into the candidate dies
+  x: number[]; // scaled 0-1, one per variable
+}
+
+interface Evaluation {
+  point: TrialPoint;
+  values: number[]; // variables in engineering units
+  objective: number;
+  violation: number;
+  constraints: SetpointConstraint[];
+  screwSpeed: number;
+  airFlow: number;
+  frostLineHeight: number;
+}
+
+function round(value: number, decimals = 0): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Value with its unit as it reads in recommendation text
+function formatWithUnit(value: number, unit: string): string {
+  if (unit === 'in') return `${value}"`;
+  if (unit === '°F' || unit === '%') return `${value}${unit}`;
+  return unit ? `${value} ${unit}` : String(value);
+}
+
+function makeConstraint(
+  name: string,
+  kind: 'min' | 'max',
+  value: number,
+  limit: number,
+  unit: string
+): SetpointConstraint {
+  const slack = kind === 'max' ? limit - value : value - limit;
+  const scale = Math.max(Math.abs(limit), 1e-6);
+  return {
+    name,
+    kind,
+    value,
+    limit,
+    unit,
+    satisfied: slack >= 0,
+    active: slack >= 0 && slack / scale <= ACTIVE_SLACK,
+  };
+}
+
+// Shortfall past the limit as a fraction of it
+function getViolation(constraint: SetpointConstraint): number {
+  const excess = constraint.kind === 'max' ? constraint.value - constraint.limit : constraint.limit - constraint.value;
+  return Math.max(0, excess) / Math.max(Math.abs(constraint.limit), 1e-6);
+}
+
+function getFilmConstraints(targets: FilmTargets | undefined, film: FilmProperties): SetpointConstraint[] {
+  if (!targets) return [];
+  const constraints: SetpointConstraint[] = [];
+  if (targets.minDart !== undefined) {
+    constraints.push(makeConstraint('Dart impact', 'min', film.dartImpact, targets.minDart, 'g'));
+  }
+  if (targets.maxHaze !== undefined) {
+    constraints.push(makeConstraint('Haze', 'max', film.haze, targets.maxHaze, '%'));
+  }
+  if (targets.balancedTear) {
+    constraints.push(makeConstraint('MD/TD orientation', 'min', film.orientationBalance, BALANCED_ORIENTATION.min, ''));
+    constraints.push(makeConstraint('MD/TD orientation', 'max', film.orientationBalance, BALANCED_ORIENTATION.max, ''));
+  }
+  if (targets.maxCOF !== undefined) {
+    constraints.push(makeConstraint('COF', 'max', film.cof, targets.maxCOF, ''));
+  }
+  return constraints;
+}
+
+// Deb's rules: feasible first, then the better objective, else the smaller violation
+function isBetter(a: Evaluation, b: Evaluation, maximize: boolean): boolean {
+  if (a.violation === 0 && b.violation === 0) {
+    return maximize ? a.objective > b.objective : a.objective < b.objective;
+  }
+  return a.violation < b.violation;
+}
+
+export function solveSetpoints(job: SetpointJob): SetpointOptimum {
+  const { objective, materialProps, targetOD, gauge, dieGap, equipment } = job;
+  const { maximize, unit } = SETPOINT_OBJECTIVES[objective];
+  const extruder = equipment?.extruder;
+  const ring = AIR_RING_TYPES[job.airRing];
+  const window = materialProps.barrelTemperatures.die;
+  const maxRPM = Math.min(materialProps.screwSpeedRange.max, extruder?.maxRPM ?? Infinity);
+  if (job.dieDiameters.length === 0) throw new Error('No candidate die to solve the setpoints on');
+
+  // Decision variables: die zone, air flow share, and the rate when it is the objective
+  const variables: Variable[] = [
+    { name: 'Die temperature', min: window.min, max: window.max, unit: '°F', decimals: 0 },
+    {
+      name: 'Air ring flow',
+      min: AIR_FLOW_SHARES[0],
+      max: AIR_FLOW_SHARES[AIR_FLOW_SHARES.length - 1],
+      unit: 'share',
+      decimals: 2,
+    },
+  ];
+  if (objective === 'max-output') {
+    const maxRate = extruder ? getMaxOutput(extruder) : maxRPM * GENERIC_SPECIFIC_OUTPUT;
+    variables.push({
+      name: 'Production rate',
+      min: Math.min(job.productionRate * MIN_RATE_SHARE, maxRate),
+      max: maxRate,
+      unit: 'lbs/hr',
+      decimals: 0,
+    });
+  }
+  // Scaled points may sit outside 0-1 only for the baseline, which is taken as requested
+  const toValues = (x: number[]) => variables.map((v, i) => round(v.min + x[i] * (v.max - v.min), v.decimals));
+  const toScaled = (values: number[]) =>
+    variables.map((v, i) => (v.max > v.min ? (values[i] - v.min) / (v.max - v.min) : 0));
+
+  const cache = new Map<string, Evaluation>();
+  const evaluate = (point: TrialPoint): Evaluation => {
+    const values = toValues(point.x);
+    const key = `${point.die}:${values.join(',')}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const [meltTemp, airShare] = values;
+    const productionRate = values[2] ?? job.productionRate;
+    const dieDiameter = job.dieDiameters[point.die];
+    const blowUpRatio = targetOD / dieDiameter;
+    const airFlow = Math.round((job.cooling?.airFlow ?? ring.airFlowPerInch * Math.PI * dieDiameter) * airShare);
+    const frostWindow = getFrostLineWindow(dieDiameter, materialProps);
+
+    const screwSpeed = extruder
+      ? calculateRPMForRate(extruder, productionRate)
+      : productionRate / GENERIC_SPECIFIC_OUTPUT;
+    const pressure = predictMeltPressure({
+      productionRate,
+      meltTemp,
+      dieDiameter,
+      dieGap,
+      materialProps,
+      landLength: equipment?.die.landLength,
+      adapter: equipment?.adapter,
+      screwDiameter: extruder?.screwDiameter,
+    });
+    const motorLoad = estimateMotorLoad({
+      productionRate,
+      meltTemp,
+      headPressure: pressure.target,
+      materialProps,
+      extruder,
+    });
+    const cooling = predictCooling({
+      productionRate,
+      meltTemp,
+      dieDiameter,
+      dieGap,
+      bubbleOD: targetOD,
+      gauge,
+      materialProps,
+      airRing: job.airRing,
+      setup: { ...job.cooling, airFlow },
+    });
+    const shear = calculateDieShear({
+      productionRate,
+      meltTemp,
+      dieDiameter,
+      dieGap,
+      materialProps,
+      ppa: job.additives?.ppa,
+    });
+    const film = predictFilmProperties({
+      materialProps,
+      blowUpRatio,
+      gauge,
+      dieGap,
+      dieDiameter,
+      frostLineHeight: cooling.frostLineHeight,
+      meltTemp,
+      shearRisk: shear.risk,
+      additives: job.additives,
+    });
+
+    const constraints = [
+      makeConstraint('Frost line', 'min', cooling.frostLineHeight, frostWindow.min, 'in'),
+      makeConstraint('Frost line', 'max', cooling.frostLineHeight, frostWindow.max, 'in'),
+      makeConstraint('Head pressure', 'max', pressure.target, pressure.max, 'PSI'),
+      makeConstraint('Die wall shear stress', 'max', shear.wallShearStress, shear.criticalShearStress, 'PSI'),
+      makeConstraint('Screw speed', 'max', Math.round(screwSpeed), maxRPM, 'RPM'),
+      ...(motorLoad.ratedHP ? [makeConstraint('Drive load', 'max', motorLoad.drivePower, motorLoad.ratedHP, 'HP')] : []),
+      ...getFilmConstraints(job.targets, film),
+    ];
+
+    const coolingUse = cooling.maxCoolingRate > 0 ? productionRate / cooling.maxCoolingRate : Infinity;
+    const stability = assessBubbleStability({
+      material: job.material,
+      blend: job.blend,
+      targetGauge: gauge,
+      targetOD,
+      productionRate,
+      blowUpRatio,
+      stressRatio: shear.stressRatio,
+      frostLineHeight: cooling.frostLineHeight,
+      frostWindow,
+      coolingUse,
+    }).score;
+    const trimWaste = job.sizing?.candidates.find((c) => c.dieDiameter === dieDiameter)?.trimWaste ?? 0;
+    const objectiveValue = {
+      'max-output': productionRate,
+      'min-energy': productionRate > 0 ? motorLoad.electricalPower / productionRate : Infinity,
+      'max-stability': stability,
+      'min-scrap': trimWaste + SCRAP_PER_STABILITY_POINT * (100 - stability),
+    }[objective];
+
+    const evaluation: Evaluation = {
+      point,
+      values,
+      objective: objectiveValue,
+      violation: constraints.reduce((sum, c) => sum + getViolation(c), 0),
+      constraints,
+      screwSpeed: Math.round(screwSpeed),
+      airFlow,
+      frostLineHeight: cooling.frostLineHeight,
+    };
+    cache.set(key, evaluation);
+    return evaluation;
+  };
+
+  // Rule-based setpoints: the starting point and the baseline to beat
+  const startDie = Math.max(0, job.dieDiameters.indexOf(job.startDie));
+  const startValues = [clamp(job.dieTemp, window.min, window.max), 1, job.productionRate];
+  const baseline = evaluate({ die: startDie, x: toScaled(startValues) });
+  const startX = toScaled(startValues).map((x) => clamp(x, 0, 1));
+
+  const optima = job.dieDiameters.map((_, die) => {
+    // Seed each die from the corners and middle of the box as well as the start
+    let current = evaluate({ die, x: startX });
+    const seeds = variables.reduce<number[][]>(
+      (points) => points.flatMap((point) => [0, 0.5, 1].map((value) => [...point, value])),
+      [[]]
+    );
+    seeds.forEach((x) => {
+      const seeded = evaluate({ die, x });
+      if (isBetter(seeded, current, maximize)) current = seeded;
+    });
+
+    let step = INITIAL_STEP;
+    let polls = 0;
+    while (step >= MIN_STEP && polls < MAX_POLLS) {
+      let improved = false;
+      for (let i = 0; i < variables.length && !improved; i++) {
+        for (const direction of [1, -1]) {
+          const x = [...current.point.x];
+          x[i] = clamp(x[i] + direction * step, 0, 1);
+          const trial = evaluate({ die, x });
+          polls++;
+          if (isBetter(trial, current, maximize)) {
+            current = trial;
+            improved = true;
+            break;
+          }
+        }
+      }
+      if (!improved) step /= 2;
+    }
+    return current;
+  });
+  let optimum = optima.reduce((best, current) => (isBetter(current, best, maximize) ? current : best));
+
+  // Settings that do not move the objective go back to where the rule-based pass had them
+  variables.forEach((_, i) => {
+    const x = [...optimum.point.x];
+    x[i] = startX[i];
+    const trial = evaluate({ die: optimum.point.die, x });
+    if (!isBetter(optimum, trial, maximize)) optimum = trial;
+  });
+
+  // Settings pinned at the edge of their window are active as well, when
+  // backing off the edge would cost objective or feasibility
+  const activeConstraints = optimum.constraints
+    .filter((c) => c.active)
+    .map((c) => `${c.name} at its ${c.kind === 'max' ? 'maximum' : 'minimum'} (${formatWithUnit(c.limit, c.unit)})`);
+  variables.forEach((v, i) => {
+    const value = optimum.values[i];
+    if (v.max <= v.min || (value > v.min && value < v.max)) return;
+    const x = [...optimum.point.x];
+    x[i] = clamp(x[i] + (value >= v.max ? -MIN_STEP : MIN_STEP), 0, 1);
+    if (!isBetter(optimum, evaluate({ die: optimum.point.die, x }), maximize)) return;
+    const edge = value >= v.max ? 'maximum' : 'minimum';
+    const shown = v.unit === 'share' ? `${Math.round(value * 100)}% of the ring's flow` : formatWithUnit(value, v.unit);
+    activeConstraints.push(`${v.name} at its ${edge} (${shown})`);
+  });
+  if (job.dieDiameters.length === 1) {
+    activeConstraints.push(`BUR ${round(targetOD / job.dieDiameters[0], 2)} fixed by the ${job.dieDiameters[0]}" die`);
+  }
+
+  const violatedConstraints = optimum.constraints
+    .filter((c) => !c.satisfied)
+    .map(
+      (c) =>
+        `${c.name} ${formatWithUnit(round(c.value, 2), c.unit)} against a ${c.kind === 'max' ? 'maximum' : 'minimum'} of ${formatWithUnit(c.limit, c.unit)}`
+    );
+
+  const decimals = objective === 'min-energy' ? 3 : 1;
+  return {
+    objective,
+    feasible: optimum.violation === 0,
+    value: round(optimum.objective, decimals),
+    baseline: round(baseline.objective, decimals),
+    baselineFeasible: baseline.violation === 0,
+    unit,
+    productionRate: optimum.values[2] ?? job.productionRate,
+    dieDiameter: job.dieDiameters[optimum.point.die],
+    blowUpRatio: round(targetOD / job.dieDiameters[optimum.point.die], 2),
+    dieTemp: optimum.values[0],
+    airFlow: optimum.airFlow,
+    screwSpeed: optimum.screwSpeed,
+    frostLineHeight: round(optimum.frostLineHeight, 1),
+    constraints: optimum.constraints.map((c) => ({ ...c, value: round(c.value, 2) })),
+    activeConstraints,
+    violatedConstraints,
+    evaluations: cache.size,
+  };
+}
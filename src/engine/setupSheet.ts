@@ -0,0 +1,140 @@
+import type {
+  OptimizeInputs,
+  Quantity,
+  RecommendedSettings,
+  SetupSheet,
+  SetupSheetHeader,
+  SetupSheetRow,
+  UnitSystem,
+} from './types';
+import { formatQuantity, getUnitLabel, localizeText, toDisplayUnits } from './units';
+
+// Setup sheet for the line: the recommendation laid out the way an operator
+// sets a line up - temperatures, speeds, bubble, cooling, nip - with a box next
+// to each setpoint to record what the line actually runs at, and sign-off at
+// the bottom. Values are in the chosen unit system, ready to print.
+
+export const SETUP_SHEET_SIGN_OFF = ['Set up by', 'Checked by (QC)', 'Approved by'];
+
+interface SetupSheetInputs {
+  settings: RecommendedSettings;
+  inputs: OptimizeInputs;
+  header: SetupSheetHeader;
+  materialLabel: string;
+  system: UnitSystem;
+  date?: Date;
+}
+
+function formatRange(range: { min: number; max: number }, quantity: Quantity, system: UnitSystem): string {
+  const label = getUnitLabel(quantity, system);
+  const figures = `${toDisplayUnits(range.min, quantity, system)}-${toDisplayUnits(range.max, quantity, system)}`;
+  return label.startsWith('°') ? `${figures}${label}` : `${figures} ${label}`;
+}
+
+function row(label: string, value: string, record: boolean, range?: string): SetupSheetRow {
+  return { label, value, range, record };
+}
+
+export function buildSetupSheet({ settings, inputs, header, materialLabel, system, date = new Date() }: SetupSheetInputs): SetupSheet {
+  const format = (value: number, quantity: Quantity) => formatQuantity(value, quantity, system);
+  const range = (value: { min: number; max: number }, quantity: Quantity) => formatRange(value, quantity, system);
+  const text = (value: string) => localizeText(value, system);
+  const productionRate = settings.setpoints?.feasible ? settings.setpoints.productionRate : inputs.productionRate;
+  const bubbleOD = settings.sizing?.selected.bubbleOD ?? inputs.targetOD;
+
+  const sections: SetupSheet['sections'] = [
+    {
+      title: 'Barrel & Die Temperatures',
+      rows: [
+        row('Feed zone', format(settings.barrelTemps.feed, 'temperature'), true),
+        row('Compression zone', format(settings.barrelTemps.compression, 'temperature'), true),
+        row('Metering zone', format(settings.barrelTemps.metering, 'temperature'), true),
+        row('Die zone', format(settings.barrelTemps.die, 'temperature'), true),
+      ],
+      notes: [],
+    },
+    {
+      title: 'Extruder & Line Speeds',
+      rows: [
+        row('Production rate', format(productionRate, 'massRate'), true),
+        row(
+          'Screw speed',
+          `${settings.screwSpeed.recommended} RPM`,
+          true,
+          `${settings.screwSpeed.min}-${settings.screwSpeed.max} RPM`
+        ),
+        row('Line speed', format(settings.lineSpeed.recommended, 'speed'), true, range(settings.lineSpeed, 'speed')),
+        row('Melt pressure', format(settings.meltPressure.target, 'pressure'), true, range(settings.meltPressure, 'pressure')),
+      ],
+      notes: [],
+    },
+    {
+      title: 'Die & Bubble',
+      rows: [
+        row('Die diameter', format(settings.dieDiameter, 'length'), false),
+        row('Die gap', format(settings.dieGap, 'gauge'), false),
+        row('Blow-up ratio', settings.blowUpRatio.toFixed(2), true),
+        row('Bubble OD', format(bubbleOD, 'length'), true),
+      ],
+      notes: [],
+    },
+    {
+      title: 'Air Ring & Frost Line',
+      rows: [
+        row('Air ring flow', format(settings.cooling.airFlow, 'airFlow'), true),
+        row('Lip gap', text(settings.airRing.lipGap), false),
+        row('Air velocity', text(settings.airRing.airVelocity), false),
+        row('Cooling capacity', text(settings.airRing.coolingCapacity), false),
+        row(
+          'Frost line height',
+          `~${format(settings.cooling.frostLineHeight, 'length')}`,
+          true,
+          range(settings.frostLine.heightInches, 'length')
+        ),
+      ],
+      notes: [text(settings.frostLine.notes)],
+    },
+    {
+      title: 'Nip Rollers',
+      rows: [
+        row('Speed', text(settings.nipRollers.speed), true),
+        row('Pressure', text(settings.nipRollers.pressure), true),
+        row('Temperature', text(settings.nipRollers.temperature), true),
+      ],
+      notes: [],
+    },
+    {
+      title: 'Internal Bubble Cooling',
+      rows: [
+        row('IBC', settings.ibc.recommended ? 'Recommended' : 'Not required', false),
+        row('Air flow', text(settings.ibc.airFlow), true),
+      ],
+      notes: [text(settings.ibc.notes)],
+    },
+    {
+      title: 'Gauge Control',
+      rows: [
+        row('Target variation', text(settings.gaugeControl.targetVariation), true),
+        row('Die gap setting', text(settings.gaugeControl.dieGapSetting), false),
+      ],
+      notes: settings.gaugeControl.recommendations.map(text),
+    },
+    { title: 'Critical Parameters', rows: [], notes: settings.criticalParameters.map(text) },
+  ];
+  if (settings.equipmentWarnings.length > 0) {
+    sections.push({ title: 'Equipment Limits', rows: [], notes: settings.equipmentWarnings.map(text) });
+  }
+
+  return {
+    header,
+    date: date.toLocaleDateString(),
+    job: [
+      { label: 'Material', value: materialLabel },
+      { label: 'Film', value: `${format(bubbleOD, 'length')} OD x ${format(inputs.targetGauge, 'gauge')}` },
+      { label: 'Rate', value: format(productionRate, 'massRate') },
+      { label: 'Confidence', value: settings.confidence },
+    ],
+    sections,
+    signOff: SETUP_SHEET_SIGN_OFF,
+  };
+}
@@ -0,0 +1,261 @@
+import type { SetupSheet, SetupSheetSection } from './types';
+
+// Renders a setup sheet as a PDF in memory - no server and no PDF library.
+// Uses the two built-in Helvetica faces every PDF reader carries, so the file
+// needs no embedded fonts; text widths are estimated from an average advance.
+
+const PAGE = { width: 612, height: 792 }; // US Letter, points
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE.width - 2 * MARGIN;
+const CHAR_WIDTH = 0.52; // average Helvetica advance per point of font size
+const LINE_HEIGHT = 1.25;
+
+// Table columns, from the left margin
+const VALUE_X = 130;
+const RANGE_X = 300;
+const ACTUAL_WIDTH = 110;
+
+// Characters outside Latin-1 that engine text uses, in WinAnsi or spelled out
+const WIN_ANSI: Record<string, number> = { '•': 0x95, '–': 0x96, '—': 0x97, '’': 0x92, '“': 0x93, '”': 0x94, '…': 0x85 };
+const SPELLED: Record<string, string> = { '≤': '<=', '≥': '>=', '→': '->', '≈': '~', '·': '.' };
+
+// PDF string literal body: escaped, with non-ASCII as octal WinAnsi codes
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    if (SPELLED[char]) {
+      encoded += SPELLED[char];
+      continue;
+    }
+    const code = WIN_ANSI[char] ?? char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') encoded += `\\${char}`;
+    else if (code >= 32 && code < 127) encoded += char;
+    else if (WIN_ANSI[char] || (code >= 160 && code < 256)) encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    else encoded += '?';
+  }
+  return encoded;
+}
+
+function textWidth(text: string, size: number): number {
+  return text.length * size * CHAR_WIDTH;
+}
+
+// Word wrap to a width; a single word longer than the width gets its own line
+function wrap(text: string, width: number, size: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && textWidth(candidate, size) > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [''];
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+// Page-flow drawing: each call draws at the cursor and moves it down, starting
+// a new page when the next block will not fit
+function createLayout() {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const newPage = () => {
+    ops = ['0.5 w', '0.55 G'];
+    pages.push(ops);
+    y = PAGE.height - MARGIN;
+  };
+  newPage();
+
+  const text = (x: number, baseline: number, value: string, size: number, bold = false, gray = 0) => {
+    ops.push(`${gray} g BT /${bold ? 'F2' : 'F1'} ${size} Tf ${num(x)} ${num(baseline)} Td (${encodeText(value)}) Tj ET 0 g`);
+  };
+  const box = (x: number, top: number, width: number, height: number) => {
+    ops.push(`${num(x)} ${num(top - height)} ${num(width)} ${num(height)} re S`);
+  };
+  const fill = (x: number, top: number, width: number, height: number, gray: number) => {
+    ops.push(`${gray} g ${num(x)} ${num(top - height)} ${num(width)} ${num(height)} re f 0 g`);
+  };
+  const rule = (x1: number, yLine: number, x2: number) => {
+    ops.push(`${num(x1)} ${num(yLine)} m ${num(x2)} ${num(yLine)} l S`);
+  };
+
+  return {
+    pages,
+    text,
+    box,
+    fill,
+    rule,
+    get y() {
+      return y;
+    },
+    down: (height: number) => {
+      y -= height;
+    },
+    // Start a new page unless this much height is left
+    keep: (height: number) => {
+      if (y - height < MARGIN + 20) newPage();
+    },
+  };
+}
+
+type Layout = ReturnType<typeof createLayout>;
+
+function drawHeader(layout: Layout, sheet: SetupSheet) {
+  const left = MARGIN;
+  layout.text(left, layout.y - 16, 'Blown Film Setup Sheet', 16, true);
+  const dateText = `Date: ${sheet.date}`;
+  layout.text(left + CONTENT_WIDTH - textWidth(dateText, 9), layout.y - 14, dateText, 9);
+  layout.down(28);
+
+  // Job header - blank fields print as empty boxes to fill in by hand
+  const fields = [
+    { label: 'Job #', value: sheet.header.jobNumber },
+    { label: 'Customer', value: sheet.header.customer },
+    { label: 'Line', value: sheet.header.line },
+    { label: 'Operator', value: sheet.header.operator },
+  ];
+  const gap = 8;
+  const width = (CONTENT_WIDTH - gap * (fields.length - 1)) / fields.length;
+  fields.forEach((field, idx) => {
+    const x = left + idx * (width + gap);
+    layout.box(x, layout.y, width, 34);
+    layout.text(x + 4, layout.y - 10, field.label.toUpperCase(), 7, false, 0.4);
+    layout.text(x + 4, layout.y - 26, wrap(field.value, width - 8, 11)[0], 11, true);
+  });
+  layout.down(42);
+
+  // What is being run
+  const columnWidth = CONTENT_WIDTH / sheet.job.length;
+  sheet.job.forEach((item, idx) => {
+    const x = left + idx * columnWidth;
+    layout.text(x, layout.y - 8, item.label.toUpperCase(), 7, false, 0.4);
+    layout.text(x, layout.y - 20, wrap(item.value, columnWidth - 8, 9)[0], 9, true);
+  });
+  layout.down(30);
+}
+
+function drawSection(layout: Layout, section: SetupSheetSection) {
+  const left = MARGIN;
+  const actualX = left + CONTENT_WIDTH - ACTUAL_WIDTH;
+  const hasRange = section.rows.some((row) => row.range);
+  const valueWidth = (hasRange ? RANGE_X : CONTENT_WIDTH - ACTUAL_WIDTH) - VALUE_X - 8;
+
+  // Keep the heading with its first row
+  layout.keep(56);
+  layout.fill(left, layout.y, CONTENT_WIDTH, 16, 0.9);
+  layout.text(left + 4, layout.y - 11.5, section.title, 10, true);
+  layout.down(20);
+
+  if (section.rows.length > 0) {
+    layout.text(left, layout.y - 7, 'PARAMETER', 7, false, 0.4);
+    layout.text(left + VALUE_X, layout.y - 7, 'SETPOINT', 7, false, 0.4);
+    if (hasRange) layout.text(left + RANGE_X, layout.y - 7, 'RANGE', 7, false, 0.4);
+    layout.text(actualX, layout.y - 7, 'ACTUAL', 7, false, 0.4);
+    layout.down(10);
+  }
+
+  for (const row of section.rows) {
+    const lines = wrap(row.value, valueWidth, 9);
+    const height = Math.max(18, lines.length * 9 * LINE_HEIGHT + 7);
+    layout.keep(height);
+    layout.text(left, layout.y - 12, row.label, 9);
+    lines.forEach((line, idx) => layout.text(left + VALUE_X, layout.y - 12 - idx * 9 * LINE_HEIGHT, line, 9, true));
+    if (row.range) layout.text(left + RANGE_X, layout.y - 12, row.range, 8, false, 0.3);
+    if (row.record) layout.box(actualX, layout.y - 2, ACTUAL_WIDTH, 14);
+    layout.down(height);
+    layout.rule(left, layout.y + 1, left + CONTENT_WIDTH - ACTUAL_WIDTH - 6);
+  }
+
+  for (const note of section.notes.filter(Boolean)) {
+    const lines = wrap(note, CONTENT_WIDTH - 12, 8.5);
+    layout.keep(lines.length * 8.5 * LINE_HEIGHT + 4);
+    layout.text(left, layout.y - 10, '•', 8.5);
+    lines.forEach((line, idx) => layout.text(left + 10, layout.y - 10 - idx * 8.5 * LINE_HEIGHT, line, 8.5));
+    layout.down(lines.length * 8.5 * LINE_HEIGHT + 3);
+  }
+  layout.down(10);
+}
+
+function drawSignOff(layout: Layout, roles: string[]) {
+  const left = MARGIN;
+  const gap = 10;
+  const width = (CONTENT_WIDTH - gap * (roles.length - 1)) / roles.length;
+  const height = 92;
+
+  layout.keep(height + 24);
+  layout.fill(left, layout.y, CONTENT_WIDTH, 16, 0.9);
+  layout.text(left + 4, layout.y - 11.5, 'Sign-off', 10, true);
+  layout.down(22);
+
+  roles.forEach((role, idx) => {
+    const x = left + idx * (width + gap);
+    layout.box(x, layout.y, width, height);
+    layout.text(x + 6, layout.y - 13, role, 9, true);
+    ['Name', 'Signature', 'Date / Time'].forEach((field, line) => {
+      const baseline = layout.y - 38 - line * 22;
+      layout.text(x + 6, baseline, field, 7, false, 0.4);
+      layout.rule(x + 52, baseline - 1, x + width - 6);
+    });
+  });
+  layout.down(height);
+}
+
+// Assemble the PDF objects, cross-reference table and trailer
+function writePdf(pages: string[][]): Uint8Array<ArrayBuffer> {
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, idx) => `${5 + idx * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((ops, idx) => {
+    const stream = ops.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE.width} ${PAGE.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + idx * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Everything is ASCII, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, idx) => {
+    const offset = pdf.length;
+    pdf += `${idx + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+}
+
+export function renderSetupSheetPdf(sheet: SetupSheet): Uint8Array<ArrayBuffer> {
+  const layout = createLayout();
+  drawHeader(layout, sheet);
+  sheet.sections.forEach((section) => drawSection(layout, section));
+  drawSignOff(layout, sheet.signOff);
+
+  // Footer on every page once the page count is known
+  const footer = [sheet.header.jobNumber && `Job ${sheet.header.jobNumber}`, sheet.date].filter(Boolean).join(' - ');
+  layout.pages.forEach((ops, idx) => {
+    const pageText = `Page ${idx + 1} of ${layout.pages.length}`;
+    ops.push(
+      `0.4 g BT /F1 7 Tf ${MARGIN} ${MARGIN - 16} Td (${encodeText(footer)}) Tj ET 0 g`,
+      `0.4 g BT /F1 7 Tf ${num(PAGE.width - MARGIN - textWidth(pageText, 7))} ${MARGIN - 16} Td (${encodeText(pageText)}) Tj ET 0 g`
+    );
+  });
+
+  return writePdf(layout.pages);
+}
@@ -0,0 +1,119 @@
+import type { DieSizeCandidate, FilmSizing, FilmSpec, MaterialProperties } from './types';
+
+// Inverse sizing: customer specs arrive as layflat, gusseted tube or slit sheet
+// widths, so work back from the finished width to the bubble OD and BUR.
+
+// Die sizes considered when no line is selected
+export const STANDARD_DIE_SIZES = [4, 6, 8, 10, 12];
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// Layflat width the bubble must deliver before any trim
+export function getRequiredLayflat(spec: FilmSpec): number {
+  switch (spec.type) {
+    case 'layflat':
+      return spec.layflatWidth;
+    case 'gusseted':
+      // Each tucked gusset adds its open width to the flat tube width
+      return spec.faceWidth + spec.gussetDepth;
+    case 'sheet': {
+      // Every sheet loses a trim strip on both edges
+      const sheetWidth = spec.sheetWidth + 2 * spec.edgeTrim;
+      return spec.sheets === 2 ? sheetWidth : sheetWidth / 2;
+    }
+  }
+}
+
+// OD of a bubble with the given layflat width: layflat = PI * OD / 2
+export function getODForLayflat(layflat: number): number {
+  return (2 * layflat) / Math.PI;
+}
+
+// Film width that ends up in the product (both plies of the layflat)
+function getUsableWidth(spec: FilmSpec, layflat: number): number {
+  return spec.type === 'sheet' ? spec.sheets * spec.sheetWidth : 2 * layflat;
+}
+
+// What running the spec on one die looks like. A tube must come off the die
+// at its exact width; a sheet can run a wider bubble and trim the excess.
+function evaluateDie(
+  spec: FilmSpec,
+  dieDiameter: number,
+  requiredOD: number,
+  materialProps: MaterialProperties,
+  productionRate: number
+): DieSizeCandidate {
+  const range = materialProps.blowUpRatioRange;
+  const idealBUR = requiredOD / dieDiameter;
+  let blowUpRatio = idealBUR;
+  let feasible = true;
+  let note: string;
+
+  if (idealBUR > range.max) {
+    feasible = false;
+    note = `Needs BUR ${round(idealBUR)}, above the ${materialProps.name} maximum of ${range.max}`;
+  } else if (idealBUR < range.min && spec.type !== 'sheet') {
+    feasible = false;
+    note = `Needs BUR ${round(idealBUR)}, below the ${materialProps.name} minimum of ${range.min} - a tube cannot be trimmed to width`;
+  } else if (idealBUR < range.min) {
+    blowUpRatio = range.min;
+    note = `Runs at the minimum BUR of ${range.min} and trims the wider bubble back to the sheet width`;
+  } else {
+    note = 'BUR within the material range';
+  }
+
+  const bubbleOD = dieDiameter * blowUpRatio;
+  const layflatWidth = (Math.PI * bubbleOD) / 2;
+  const trimFraction = Math.max(0, 1 - getUsableWidth(spec, getRequiredLayflat(spec)) / (2 * layflatWidth));
+
+  return {
+    dieDiameter,
+    blowUpRatio: round(blowUpRatio),
+    bubbleOD: round(bubbleOD),
+    layflatWidth: round(layflatWidth),
+    trimWaste: round(trimFraction * 100, 1),
+    trimRate: round(trimFraction * productionRate, 1),
+    feasible,
+    note,
+  };
+}
+
+// Least trim first, then the BUR nearest the middle of the material range
+function compareCandidates(a: DieSizeCandidate, b: DieSizeCandidate, materialProps: MaterialProperties): number {
+  if (a.feasible !== b.feasible) return a.feasible ? -1 : 1;
+  if (a.trimWaste !== b.trimWaste) return a.trimWaste - b.trimWaste;
+  const mid = (materialProps.blowUpRatioRange.min + materialProps.blowUpRatioRange.max) / 2;
+  return Math.abs(a.blowUpRatio - mid) - Math.abs(b.blowUpRatio - mid);
+}
+
+// Size the bubble for a film spec. An installed die is used as-is; otherwise
+// the die with the least trim is selected from the given sizes.
+export function sizeFromFilmSpec(
+  spec: FilmSpec,
+  materialProps: MaterialProperties,
+  productionRate: number,
+  installedDie?: number,
+  availableDies: number[] = STANDARD_DIE_SIZES
+): FilmSizing {
+  const requiredLayflat = getRequiredLayflat(spec);
+  const requiredOD = getODForLayflat(requiredLayflat);
+
+  const dieSizes = [...new Set(installedDie ? [installedDie, ...availableDies] : availableDies)].sort((a, b) => a - b);
+  const candidates = dieSizes.map((die) => evaluateDie(spec, die, requiredOD, materialProps, productionRate));
+
+  const selected = installedDie
+    ? candidates.find((c) => c.dieDiameter === installedDie) ??
+      evaluateDie(spec, installedDie, requiredOD, materialProps, productionRate)
+    : [...candidates].sort((a, b) => compareCandidates(a, b, materialProps))[0];
+
+  return {
+    spec,
+    requiredLayflat: round(requiredLayflat),
+    requiredOD: round(requiredOD),
+    selected,
+    candidates,
+  };
+}
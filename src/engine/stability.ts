@@ -0,0 +1,168 @@
+import type { BlendInput, MaterialType, RecommendedSettings } from './types';
+
+// Bubble stability on a 0-100 scale. The rule-based pass reports it and the
+// setpoint solver maximizes it (and prices scrap from it), so both read the
+// same score: penalties for the job itself - BUR, gauge, rate, resin and bubble
+// size - and for how it runs - wall stress near melt fracture, a frost line off
+// the middle of its window and cooling near its limit.
+
+// Running penalties, scaled so a comfortable setup scores near 100
+const SHEAR_STABILITY = { onset: 0.7, points: 25 }; // stress ratio where the melt starts to stick-slip
+const FROST_STABILITY = { onset: 0.5, points: 15 }; // share of the half-window off its middle
+const COOLING_STABILITY = { onset: 0.85, points: 20 }; // share of the cooling limit
+
+// A running penalty is named among the factors once it costs this many points
+const FACTOR_POINTS = 5;
+
+interface StabilityInputs {
+  material: MaterialType;
+  blend?: BlendInput;
+  targetGauge: number; // mils
+  targetOD: number; // inches
+  productionRate: number; // lbs/hr
+  blowUpRatio: number;
+  stressRatio: number; // die wall stress over the melt fracture onset
+  frostLineHeight: number; // inches
+  frostWindow: { min: number; max: number }; // inches
+  coolingUse: number; // rate over the air ring's cooling limit
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Points lost as a value climbs from the onset to the limit of its penalty
+function rampPenalty(value: number, { onset, points }: { onset: number; points: number }): number {
+  return points * clamp((value - onset) / (1 - onset), 0, 1);
+}
+
+// Bubble stability effect of each material family
+function getMaterialStabilityEffect(
+  material: MaterialType
+): { penalty: number; factor: string; recommendation?: string } {
+  switch (material) {
+    case 'LLDPE':
+      return { penalty: 5, factor: 'LLDPE has higher melt strength - generally stable' };
+    case 'LDPE':
+      return { penalty: 0, factor: 'LDPE excellent bubble stability' };
+    case 'HDPE':
+      return {
+        penalty: 10,
+        factor: 'HDPE lower melt strength - monitor closely',
+        recommendation: 'Maintain consistent melt temperature',
+      };
+    case 'EVOH':
+      return {
+        penalty: 15,
+        factor: 'EVOH narrow processing window affects stability',
+        recommendation: 'Precise temperature control essential',
+      };
+    case 'TIE':
+      return {
+        penalty: 10,
+        factor: 'Tie resin has low melt strength on its own',
+        recommendation: 'Run tie resins as thin layers within a coextruded structure',
+      };
+  }
+}
+
+export function assessBubbleStability(inputs: StabilityInputs): RecommendedSettings['bubbleStability'] {
+  const factors: string[] = [];
+  const recommendations: string[] = [];
+  let stabilityScore = 100;
+
+  // BUR effects on stability
+  const bur = inputs.blowUpRatio;
+  if (bur > 3.5) {
+    stabilityScore -= 20;
+    factors.push('High BUR increases bubble sensitivity');
+    recommendations.push('Ensure uniform air ring cooling at high BUR');
+  } else if (bur < 2.0) {
+    stabilityScore -= 10;
+    factors.push('Low BUR may cause MD/TD imbalance');
+  }
+
+  // Gauge effects
+  if (inputs.targetGauge < 0.75) {
+    stabilityScore -= 25;
+    factors.push('Very thin gauge highly sensitive to disturbances');
+    recommendations.push('Minimize drafts and air currents around tower');
+    recommendations.push('Consider bubble cage or guide system');
+  } else if (inputs.targetGauge < 1.5) {
+    stabilityScore -= 10;
+    factors.push('Thin gauge moderately sensitive');
+  }
+
+  // Production rate effects
+  if (inputs.productionRate > 400) {
+    stabilityScore -= 15;
+    factors.push('High output rate can challenge stability');
+    recommendations.push('Verify adequate cooling capacity');
+  }
+
+  // Material effects
+  if (inputs.blend) {
+    // Blends take the weight-averaged penalty of their components
+    const components = inputs.blend.components;
+    const penalty = components.reduce(
+      (sum, c) => sum + (c.fraction / 100) * getMaterialStabilityEffect(c.material).penalty,
+      0
+    );
+    stabilityScore -= Math.round(penalty);
+    factors.push(`Blend melt strength weighted across ${components.length} components`);
+
+    const ldpeShare = components
+      .filter((c) => c.material === 'LDPE')
+      .reduce((sum, c) => sum + c.fraction, 0);
+    if (ldpeShare >= 10 && ldpeShare < 100) {
+      stabilityScore += 5;
+      factors.push(`${Math.round(ldpeShare)}% LDPE adds melt strength to the bubble`);
+    }
+  } else {
+    const effect = getMaterialStabilityEffect(inputs.material);
+    stabilityScore -= effect.penalty;
+    factors.push(effect.factor);
+    if (effect.recommendation) {
+      recommendations.push(effect.recommendation);
+    }
+  }
+
+  // Large diameter effects
+  if (inputs.targetOD > 40) {
+    stabilityScore -= 10;
+    factors.push('Large bubble diameter more prone to oscillation');
+    recommendations.push('Consider IBC for improved stability');
+  }
+
+  // Running conditions
+  const shear = rampPenalty(inputs.stressRatio, SHEAR_STABILITY);
+  if (shear >= FACTOR_POINTS) {
+    factors.push('Die wall stress near the melt fracture onset - the melt starts to stick-slip');
+  }
+  const { min, max } = inputs.frostWindow;
+  const frostOffset = max > min ? Math.abs(inputs.frostLineHeight - (min + max) / 2) / ((max - min) / 2) : 0;
+  const frost = rampPenalty(frostOffset, FROST_STABILITY);
+  if (frost >= FACTOR_POINTS) {
+    factors.push(`Frost line ${inputs.frostLineHeight > (min + max) / 2 ? 'high' : 'low'} in its window`);
+    recommendations.push('Trim air ring flow to bring the frost line back toward the middle of its window');
+  }
+  const cooling = rampPenalty(inputs.coolingUse, COOLING_STABILITY);
+  if (cooling >= FACTOR_POINTS) {
+    factors.push('Rate close to the air ring cooling limit');
+  }
+  stabilityScore -= shear + frost + cooling;
+
+  // Always add baseline recommendations
+  recommendations.push('Maintain steady extruder output (consistent melt pressure)');
+
+  let rating: 'stable' | 'moderate' | 'challenging';
+  if (stabilityScore >= 75) {
+    rating = 'stable';
+  } else if (stabilityScore >= 50) {
+    rating = 'moderate';
+  } else {
+    rating = 'challenging';
+  }
+
+  return { rating, score: Math.round(Math.max(0, Math.min(100, stabilityScore))), factors, recommendations };
+}
@@ -1,4 +1,4 @@
-export type MaterialType = 'HDPE' | 'LDPE' | 'LLDPE' | 'EVOH';
+export type MaterialType = 'HDPE' | 'LDPE' | 'LLDPE' | 'EVOH' | 'TIE';
 
 export type DefectType =
   | 'melt_fracture'
@@ -15,6 +15,25 @@ export type DefectType =
   | 'poor_clarity'
   | 'bubble_instability';
 
+export type UnitSystem = 'imperial' | 'metric';
+
+// Kinds of value the unit layer converts between systems
+export type Quantity =
+  | 'temperature'
+  | 'temperatureDelta'
+  | 'length'
+  | 'gauge'
+  | 'dieGap'
+  | 'massRate'
+  | 'pressure'
+  | 'speed'
+  | 'specificOutput'
+  | 'outputPerLength'
+  | 'airFlow'
+  | 'heatTransfer'
+  | 'power'
+  | 'specificEnergy';
+
 export interface BarrelTemperatures {
   feed: { min: number; max: number; recommended: number };
   compression: { min: number; max: number; recommended: number };
@@ -22,6 +41,24 @@ export interface BarrelTemperatures {
   die: { min: number; max: number; recommended: number };
 }
 
+// Carreau melt viscosity with an Arrhenius temperature shift
+export interface ViscosityModel {
+  zeroShearViscosity: number; // Pa·s at the reference temperature
+  relaxationTime: number; // s - inverse of the shear rate where shear thinning sets in
+  powerLawIndex: number; // n, slope of the shear-thinning region
+  activationEnergy: number; // kJ/mol
+  referenceTemp: number; // °F
+}
+
+// Film properties at 1 mil, BUR 2.5 and balanced MD/TD orientation
+export interface FilmReference {
+  dart: number; // g, ASTM D1709 method A
+  tearMD: number; // g/mil, Elmendorf (ASTM D1922)
+  tearTD: number; // g/mil
+  haze: number; // %, ASTM D1003
+  cof: number; // kinetic film-to-film, ASTM D1894, without slip or antiblock
+}
+
 export interface MaterialProperties {
   name: string;
   fullName: string;
@@ -32,14 +69,269 @@ export interface MaterialProperties {
   meltPressureRange: { min: number; max: number };
   blowUpRatioRange: { min: number; max: number };
   frostLineHeightFactor: number;
+  crystallizationTemp: number; // °F - the bubble freezes (frost line) as the film cools through it
+  specificHeat: number; // BTU/lb·°F, melt
+  heatOfFusion: number; // BTU/lb to melt the crystalline fraction
+  viscosity: ViscosityModel;
+  criticalShearStress: number; // PSI wall shear stress at the onset of shark skin
+  typicalDieGap: number; // mils, lip gap the resin is usually run on - assumed when no die is given
+  filmReference: FilmReference;
+  density: number; // g/cc
+  meltIndex: number; // g/10 min (190°C/2.16 kg)
+  notes: string[];
+}
+
+export interface ResinGrade {
+  id: string;
+  name: string;
+  family: MaterialType;
+  meltIndex: number; // g/10 min (190°C/2.16 kg)
+  density: number; // g/cc
+  comonomer: string;
+}
+
+export type AirRingType = 'single-lip' | 'dual-lip' | 'dual-lip-ibc';
+
+export interface EquipmentProfile {
+  id: string;
+  name: string;
+  extruder: {
+    screwDiameter: number; // inches
+    lengthToDiameter: number; // L/D ratio, e.g. 24 for 24:1
+    specificOutput: { rpm: number; lbsPerHrPerRpm: number }[]; // measured curve
+    maxRPM: number;
+    motorHP: number;
+    motorVoltage?: number; // V, three-phase supply to the drive
+  };
+  die: {
+    diameter: number; // inches
+    gap: number; // mils
+    landLength?: number; // inches of parallel land at the lip
+  };
+  adapter?: { diameter: number; length: number }; // inches, bore of the melt pipe from extruder to die
+  airRing: AirRingType;
+}
+
+// Bubble cooling setup; anything omitted defaults from the air ring type
+export interface CoolingSetup {
+  airFlow?: number; // CFM through the air ring
+  airTemp?: number; // °F at the lip
+  ibc?: boolean; // internal bubble cooling running
+}
+
+export interface BubbleProfilePoint {
+  height: number; // inches above the die
+  temperature: number; // °F
+  diameter: number; // inches
+  thickness: number; // mils
+}
+
+export interface CoolingPrediction {
+  airFlow: number; // CFM
+  airTemp: number; // °F
+  ibc: boolean;
+  heatTransferCoefficient: number; // BTU/hr·ft²·°F, outside plus IBC
+  heatLoad: number; // BTU/hr removed between the die and the frost line
+  crystallizationTemp: number; // °F
+  frostLineHeight: number; // inches, predicted
+  maxFrostLineHeight: number; // inches, highest practical frost line for the die
+  maxCoolingRate: number; // lbs/hr with the frost line at its maximum
+  rateAchievable: boolean;
+  profile: BubbleProfilePoint[]; // die exit to frost line
+}
+
+export interface FilmProperties {
+  drawdownRatio: number; // die gap / (gauge x BUR) - the MD draw
+  blowUpRatio: number; // the TD draw
+  orientationBalance: number; // frozen-in MD/TD orientation, 1 = balanced
+  balance: 'MD-oriented' | 'balanced' | 'TD-oriented';
+  dartImpact: number; // g at the film gauge
+  tearMD: number; // g at the film gauge
+  tearTD: number; // g at the film gauge
+  haze: number; // %
+  clarity: 'high' | 'good' | 'fair' | 'poor';
+  cof: number; // kinetic film-to-film, once the slip has bloomed
   notes: string[];
 }
 
+export interface MotorLoad {
+  drivePower: number; // HP at the screw shaft
+  electricalPower: number; // kW drawn by the drive
+  voltage: number; // V
+  amps: number; // three-phase line current
+  specificEnergy: number; // kWh/lb of output
+  ratedHP?: number; // motor rating of the selected extruder
+  loadPercent?: number; // drive power as % of the rating
+}
+
+export interface DieShear {
+  dieGap: number; // mils
+  meltTemp: number; // °F
+  viscosity: number; // Pa·s at the wall shear rate
+  apparentShearRate: number; // 1/s, Newtonian slit estimate
+  wallShearRate: number; // 1/s, corrected for shear thinning
+  wallShearStress: number; // PSI
+  criticalShearStress: number; // PSI, raised by any PPA in the blend
+  stressRatio: number; // wall stress over critical
+  risk: 'low' | 'moderate' | 'high';
+  fix?: { dieGap: number; ppa?: number }; // gap (mils) or PPA masterbatch % that clears the onset
+  warning?: string;
+}
+
+// A die the plant owns, available to mount on a line
+export interface DieInventoryItem {
+  id: string;
+  name: string;
+  diameter: number; // inches
+  gap: number; // mils
+}
+
+export interface DieScore {
+  die: DieInventoryItem;
+  blowUpRatio: number;
+  bubbleOD: number; // inches
+  outputPerInch: number; // lbs/hr per inch of die circumference
+  frostLineHeight: { expected: number; min: number; max: number }; // inches
+  scores: { blowUpRatio: number; stability: number; output: number; frostLine: number }; // 0-100 each
+  total: number; // weighted score, 0-100
+  feasible: boolean;
+  issues: string[];
+}
+
+export interface DieSelection {
+  ranked: DieScore[]; // best first
+  selected: DieScore;
+  reason: string;
+}
+
+export interface BlendComponent {
+  material: MaterialType;
+  grade?: string; // ResinGrade id
+  fraction: number; // weight % of the resin blend
+}
+
+export interface BlendInput {
+  components: BlendComponent[];
+  additives: {
+    slip: number; // masterbatch % of total feed
+    antiblock: number; // masterbatch % of total feed
+    ppa: number; // polymer processing aid masterbatch % of total feed
+  };
+}
+
+export interface ResolvedMaterial {
+  material: MaterialType; // family used for material-specific rules (majority family for blends)
+  properties: MaterialProperties;
+  grade?: ResinGrade;
+  blend?: BlendInput; // normalized so component fractions sum to 100
+}
+
+// Finished product the bubble is sized from (all widths in inches)
+export type FilmSpec =
+  | { type: 'layflat'; layflatWidth: number }
+  // Gusset depth is the full open width of one gusset
+  | { type: 'gusseted'; faceWidth: number; gussetDepth: number }
+  // Sheets slit from the tube: 2 = both folds slit, 1 = one fold slit and opened flat
+  | { type: 'sheet'; sheetWidth: number; sheets: 1 | 2; edgeTrim: number };
+
+export interface DieSizeCandidate {
+  dieDiameter: number; // inches
+  blowUpRatio: number;
+  bubbleOD: number; // inches
+  layflatWidth: number; // inches
+  trimWaste: number; // % of film width trimmed off
+  trimRate: number; // lbs/hr of trim at the production rate
+  feasible: boolean;
+  note: string;
+}
+
+export interface FilmSizing {
+  spec: FilmSpec;
+  requiredLayflat: number; // inches
+  requiredOD: number; // inches
+  selected: DieSizeCandidate; // the die the recommendation is built on
+  candidates: DieSizeCandidate[];
+}
+
+// Film property requirements from the customer spec - each one is optional
+export interface FilmTargets {
+  minDart?: number; // g at the film gauge
+  maxHaze?: number; // %
+  balancedTear?: boolean; // MD/TD orientation inside the balanced band
+  maxCOF?: number; // kinetic film-to-film
+}
+
+export interface FilmTargetCheck {
+  target: keyof FilmTargets;
+  label: string; // the requirement, e.g. 'Dart >= 300 g'
+  value: number; // predicted at the chosen settings (MD/TD orientation for balanced tear)
+  met: boolean;
+  achievable: boolean; // met somewhere in the search on its own
+  binding?: string; // setting that stops the target being met (or met with more margin)
+}
+
+// Settings found by searching die, die temperature and air flow for the film targets
+export interface FilmTargetSearch {
+  met: boolean; // every target met at once
+  dieDiameter: number; // inches
+  blowUpRatio: number;
+  dieTemp: number; // °F
+  airFlow: number; // CFM
+  frostLineHeight: number; // inches
+  checks: FilmTargetCheck[];
+  conflicts: string[]; // targets that are each achievable but not together
+  evaluated: number; // settings combinations tried
+}
+
+// What the setpoint solver drives towards
+export type SetpointObjective = 'max-output' | 'min-energy' | 'max-stability' | 'min-scrap';
+
+export interface SetpointConstraint {
+  name: string;
+  kind: 'min' | 'max';
+  value: number; // at the optimum
+  limit: number;
+  unit: string; // imperial unit string, e.g. 'PSI'
+  satisfied: boolean;
+  active: boolean; // at or within a whisker of its limit - it shapes the optimum
+}
+
+// Setpoints chosen by the solver and the constraints that hold them there
+export interface SetpointOptimum {
+  objective: SetpointObjective;
+  feasible: boolean; // every constraint satisfied
+  value: number; // objective at the optimum
+  baseline: number; // objective at the rule-based setpoints
+  baselineFeasible: boolean;
+  unit: string; // of the objective
+  productionRate: number; // lbs/hr
+  dieDiameter: number; // inches
+  blowUpRatio: number;
+  dieTemp: number; // °F
+  airFlow: number; // CFM
+  screwSpeed: number; // RPM
+  frostLineHeight: number; // inches
+  constraints: SetpointConstraint[];
+  activeConstraints: string[]; // constraints and setting limits the optimum sits on
+  violatedConstraints: string[]; // constraints the best point found still breaks - empty when feasible
+  evaluations: number;
+}
+
 export interface OptimizeInputs {
   material: MaterialType;
-  targetOD: number; // inches
+  grade?: string; // ResinGrade id - when set, the grade's family is used as the material
+  blend?: BlendInput; // when set, replaces material and grade
+  targetOD: number; // inches - ignored when filmSpec is set
+  filmSpec?: FilmSpec; // size the bubble from a layflat, gusset or sheet spec instead of OD
+  dieInventory?: DieInventoryItem[]; // when set, the best-scoring die is chosen and mounted on the line
+  cooling?: CoolingSetup;
   targetGauge: number; // mils (thousandths of inch)
   productionRate: number; // lbs/hr
+  equipment?: EquipmentProfile; // selected line - omit for generic die and screw assumptions
+  filmTargets?: FilmTargets; // search BUR, frost line and die temperature to meet them
+  objective?: SetpointObjective; // solve for the setpoints instead of the rule-based pass; film targets become constraints
+  barrelTemps?: Partial<RecommendedSettings['barrelTemps']>; // zone settings held in place of the recommended ones
+  dieDiameter?: number; // inches - die to run when no line profile, inventory or film spec fixes it
 }
 
 export interface RecommendedSettings {
@@ -51,18 +343,30 @@ export interface RecommendedSettings {
   };
   screwSpeed: { min: number; max: number; recommended: number };
   lineSpeed: { min: number; max: number; recommended: number };
-  meltPressure: { min: number; max: number; target: number };
+  meltPressure: {
+    min: number;
+    max: number;
+    target: number; // predicted head pressure ahead of the screen pack
+    drops: { screenPack: number; adapter: number; dieBody: number; dieLand: number }; // PSI along the flow path
+  };
   airRing: {
     lipGap: string;
     airVelocity: string;
     coolingCapacity: string;
   };
   blowUpRatio: number;
+  dieDiameter: number; // inches - the die the settings are built on
+  dieGap: number; // mils - installed, or the material's typical gap when no die is given
   frostLine: {
     heightRange: string;
     heightInches: { min: number; max: number };
+    predictedInches: number; // from the bubble cooling model
     notes: string;
   };
+  cooling: CoolingPrediction;
+  dieShear: DieShear;
+  motorLoad: MotorLoad;
+  filmProperties: FilmProperties;
   nipRollers: {
     speed: string;
     pressure: string;
@@ -80,36 +384,449 @@ export interface RecommendedSettings {
   };
   bubbleStability: {
     rating: 'stable' | 'moderate' | 'challenging';
+    score: number; // 0-100 behind the rating
     factors: string[];
     recommendations: string[];
   };
   confidence: 'high' | 'medium' | 'low';
+  confidenceScore: number; // 0-100 behind the confidence level
   notes: string[];
   criticalParameters: string[];
+  equipmentWarnings: string[]; // recommendations the selected line cannot deliver
+  sizing?: FilmSizing; // present when the job was sized from a film spec
+  dieSelection?: DieSelection; // present when dies were chosen from an inventory
+  filmTargets?: FilmTargetSearch; // present when film property targets were given without an objective
+  setpoints?: SetpointOptimum; // present when an objective was given
+}
+
+// Actual setpoints of a recipe being audited
+export interface RecipeSetpoints {
+  barrelTemps: {
+    feed: number;
+    compression: number;
+    metering: number;
+    die: number;
+  };
+  screwSpeed: number; // RPM
+  lineSpeed: number; // ft/min
+  meltPressure: number; // PSI
+  blowUpRatio: number;
+  frostLineHeight: number; // inches
+}
+
+export interface RecipeAuditInputs extends OptimizeInputs {
+  recipe: RecipeSetpoints;
+}
+
+export type AuditStatus = 'pass' | 'warn' | 'fail';
+
+export interface RecipeAuditCheck {
+  parameter: string;
+  actual: number;
+  unit: string;
+  window: { min: number; max: number }; // material window, or mass-balance / frost line range
+  recommended: { min: number; max: number; target: number }; // from optimizeParameters
+  deviation: number; // actual - recommended target
+  status: AuditStatus;
+  message: string;
+}
+
+export interface RecipeAuditResult {
+  overall: AuditStatus;
+  summary: Record<AuditStatus, number>;
+  checks: RecipeAuditCheck[];
+  recommended: RecommendedSettings;
+}
+
+// Setpoints kept with a saved recipe - the recommendation, or the operator's override of it
+export type RecipeSetpointKey =
+  | 'feedTemp'
+  | 'compressionTemp'
+  | 'meteringTemp'
+  | 'dieTemp'
+  | 'screwSpeed'
+  | 'lineSpeed'
+  | 'meltPressure'
+  | 'blowUpRatio'
+  | 'dieDiameter'
+  | 'frostLineHeight'
+  | 'airFlow';
+
+export type RecipeOverrides = Partial<Record<RecipeSetpointKey, number>>;
+
+export interface RecipeSetpointValue {
+  key: RecipeSetpointKey;
+  label: string;
+  unit: string; // imperial unit string, '' for ratios
+  recommended: number;
+  value: number; // the override when one is set
+  overridden: boolean;
+}
+
+export interface RecipeVersion {
+  version: number; // 1 for the first save
+  savedAt: string; // ISO timestamp
+  inputs: OptimizeInputs; // as run, including the line profile and die inventory
+  settings: RecommendedSettings;
+  overrides: RecipeOverrides;
+  notes: string;
+}
+
+export interface SavedRecipe {
+  id: string;
+  name: string;
+  versions: RecipeVersion[]; // oldest first
+}
+
+export interface RecipeDiffRow {
+  label: string;
+  unit: string;
+  before: number | string;
+  after: number | string;
+  changed: boolean;
+}
+
+export interface RecipeDiff {
+  inputs: RecipeDiffRow[];
+  setpoints: RecipeDiffRow[];
+  notesChanged: boolean;
+  changes: number; // changed inputs and setpoints
+}
+
+// Job header for the printed setup sheet; blank fields print as write-in boxes
+export interface SetupSheetHeader {
+  jobNumber: string;
+  customer: string;
+  line: string;
+  operator: string;
+}
+
+export interface SetupSheetRow {
+  label: string;
+  value: string; // in the chosen unit system
+  range?: string;
+  record: boolean; // leave a box for the operator to record the running value
+}
+
+export interface SetupSheetSection {
+  title: string;
+  rows: SetupSheetRow[];
+  notes: string[];
+}
+
+export interface SetupSheet {
+  header: SetupSheetHeader;
+  date: string;
+  job: { label: string; value: string }[]; // what is being run
+  sections: SetupSheetSection[];
+  signOff: string[]; // roles that sign the sheet
+}
+
+// The subset of JSON Schema (2020-12) the exchange schemas are written in
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string; // '#/$defs/name' only
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  enum?: (string | number | boolean)[];
+  const?: string | number | boolean;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  oneOf?: JsonSchema[];
+}
+
+export interface SchemaError {
+  path: string; // dotted path to the value, '' for the document itself
+  message: string;
+}
+
+export type ExchangeKind = 'optimize' | 'diagnose';
+
+// Files handed to MES and quality systems: inputs and the result they produced,
+// in imperial units, under a schema name and version
+export interface OptimizeExchange {
+  schema: 'parameterpath.optimize';
+  version: number;
+  units: 'imperial';
+  exportedAt: string; // ISO timestamp
+  inputs: OptimizeInputs;
+  result: RecommendedSettings;
+}
+
+export interface DiagnoseExchange {
+  schema: 'parameterpath.diagnose';
+  version: number;
+  units: 'imperial';
+  exportedAt: string;
+  inputs: DiagnoseInputs | MultiDiagnoseInputs;
+  result: DiagnoseResult | MultiDiagnoseResult;
+}
+
+export type ExchangeDocument = OptimizeExchange | DiagnoseExchange;
+
+export interface ExchangeCompareRow {
+  label: string;
+  unit: string;
+  stored: number | string;
+  current: number | string; // re-run with the current rules
+  changed: boolean;
+}
+
+export interface ExchangeImport {
+  format: 'json' | 'csv';
+  errors: SchemaError[]; // empty when the file is valid
+  document?: ExchangeDocument; // present when valid
+  comparison: ExchangeCompareRow[];
+  matches: boolean; // the stored result agrees with the current rules
+}
+
+export interface CoexLayer {
+  material: MaterialType;
+  thicknessPercent: number; // % of total film thickness
+}
+
+export interface CoextrusionInputs {
+  layers: CoexLayer[]; // listed outside to inside
+  targetOD: number; // inches
+  targetGauge: number; // total mils
+  productionRate: number; // total lbs/hr
+}
+
+export interface CoexExtruderSettings {
+  layer: number; // 1 = outside layer
+  material: MaterialType;
+  thicknessPercent: number;
+  layerGauge: number; // mils
+  rateShare: number; // % of total mass output
+  productionRate: number; // lbs/hr
+  barrelTemps: {
+    feed: number;
+    compression: number;
+    metering: number;
+  };
+  screwSpeed: { min: number; max: number; recommended: number };
+  meltPressure: { min: number; max: number; target: number };
+  motorLoad: MotorLoad;
+}
+
+export interface CoexDieCheck {
+  layer: number;
+  material: MaterialType;
+  dieRange: { min: number; max: number };
+  status: 'ok' | 'warning' | 'fail';
+  message: string;
+}
+
+// Inputs a what-if run moves, and the results it watches
+export type SensitivityFactor =
+  | 'productionRate'
+  | 'targetOD'
+  | 'targetGauge'
+  | 'feedTemp'
+  | 'compressionTemp'
+  | 'meteringTemp'
+  | 'dieTemp';
+export type SensitivityOutput =
+  | 'lineSpeed'
+  | 'meltPressure'
+  | 'drivePower'
+  | 'frostLine'
+  | 'stabilityScore'
+  | 'confidenceScore';
+
+export interface SensitivityBar {
+  factor: SensitivityFactor;
+  label: string;
+  low: number; // output with the factor stepped down
+  high: number; // output with the factor stepped up
+}
+
+// One tornado chart: how far each factor swings one output
+export interface SensitivityChart {
+  output: SensitivityOutput;
+  label: string;
+  unit: string; // imperial unit string, '' for scores
+  base: number;
+  bars: SensitivityBar[]; // widest swing first
+}
+
+export interface SensitivityReport {
+  step: number; // fraction rate, OD and gauge move either way, 0.1 = ±10%
+  zoneTempStep: number; // °F each zone temperature moves either way
+  charts: SensitivityChart[];
+  mostFragileTo: { factor: SensitivityFactor; label: string }; // widest swing across every output
+  notes: string[];
+}
+
+// Layers that cannot be run (none, or no usable thickness) come back with
+// their reasons in warnings and no settings
+export interface CoextrusionResult {
+  structure: string;
+  extruders: CoexExtruderSettings[];
+  dieTemp?: {
+    window: { min: number; max: number } | null; // overlap of all layer die windows
+    recommended: number;
+  };
+  layerChecks: CoexDieCheck[];
+  unusedLayers: { layer: number; material: MaterialType }[]; // 0% layers - left out, their extruders not set up
+  lineSpeed?: { min: number; max: number; recommended: number };
+  bubble?: Pick<
+    RecommendedSettings,
+    'blowUpRatio' | 'airRing' | 'frostLine' | 'ibc' | 'gaugeControl' | 'bubbleStability'
+  >;
+  warnings: string[];
+}
+
+// Measured line state; every value is optional and only used when entered
+export interface LineMeasurements {
+  meltPressure?: number; // PSI
+  meltPressureSwing?: number; // PSI peak-to-peak over a few minutes
+  motorLoad?: number; // % of rated motor load
+  dieDiameter?: number; // inches - needed to judge frost line height
+  blowUpRatio?: number;
+  frostLineHeight?: number; // inches above the die
+  airRingVariation?: number; // % spread in lip air velocity around the circumference
+  ibcRunning?: boolean;
+  nipPressure?: number; // PSI
+  resinMoisture?: number; // % by weight at the hopper
+  ambientHumidity?: number; // % RH
 }
 
 export interface DiagnoseInputs {
   material: MaterialType;
+  grade?: string; // ResinGrade id - when set, the grade's family is used as the material
+  blend?: BlendInput; // when set, replaces material and grade
   currentSettings: {
     meltTemp: number;
     screwSpeed: number;
     lineSpeed: number;
     dieTemp: number;
+    meteringTemp?: number; // metering zone setpoint; needed to compute new barrel setpoints
   };
+  measurements?: LineMeasurements;
   defect: DefectType;
 }
 
+export type RootCause =
+  | 'excessive_output'
+  | 'low_melt_temp'
+  | 'overheating'
+  | 'unsteady_extrusion'
+  | 'die_temp_variation'
+  | 'cooling_imbalance'
+  | 'bur_frost_line'
+  | 'contamination'
+  | 'screen_pack'
+  | 'moisture'
+  | 'additives'
+  | 'resin_grade'
+  | 'web_tension';
+
+// Process observations that a cause's likelihood depends on
+export type DiagnosticSignal =
+  | 'melt_temp_low'
+  | 'melt_temp_high'
+  | 'die_temp_low'
+  | 'die_temp_high'
+  | 'screw_speed_high'
+  | 'melt_pressure_high'
+  | 'melt_pressure_low'
+  | 'melt_pressure_unsteady'
+  | 'motor_load_high'
+  | 'bur_out_of_range'
+  | 'frost_line_low'
+  | 'frost_line_high'
+  | 'air_ring_imbalance'
+  | 'ibc_running'
+  | 'nip_pressure_low'
+  | 'nip_pressure_high'
+  | 'resin_moisture_high'
+  | 'ambient_humidity_high'
+  | 'ambient_humidity_low'
+  | 'hygroscopic_material'
+  | 'fractional_melt_grade'
+  | 'no_antiblock'
+  | 'high_slip'
+  | 'no_ppa';
+
+export interface CauseLikelihood {
+  signal: DiagnosticSignal;
+  ratio: number; // likelihood ratio applied when the signal is observed
+  ratioIfAbsent?: number; // applied when the signal was checked and not observed
+}
+
+// Setpoints an adjustment can act on
+export type SetpointParameter = 'meteringTemp' | 'dieTemp' | 'screwSpeed' | 'lineSpeed' | 'winderTension';
+
+export interface SetpointChange {
+  parameter: SetpointParameter;
+  direction: 'increase' | 'decrease';
+  magnitude: { min: number; max: number };
+  unit: '°F' | '%'; // °F is an absolute step, % is relative to the current setpoint
+  settlingMinutes: number; // wait before judging the effect
+}
+
+export interface Adjustment {
+  text: string;
+  change?: SetpointChange;
+}
+
+export interface ResolvedAdjustment extends Adjustment {
+  // Resulting setpoint range, when the current value of the parameter is known
+  setpoint?: { label: string; current: number; target: { min: number; max: number }; unit: string };
+}
+
 export interface DefectCause {
   cause: string;
-  probability: 'high' | 'medium' | 'low';
-  adjustments: string[];
+  rootCause?: RootCause; // shared cause key for correlating across defects
+  prior: number; // relative weight before current settings are considered
+  likelihoods?: CauseLikelihood[];
+  adjustments: Adjustment[];
   explanation: string;
 }
 
+export interface CauseEvidence {
+  signal: DiagnosticSignal;
+  observed: boolean;
+  ratio: number;
+  detail: string;
+}
+
+export interface DiagnosedCause extends Omit<DefectCause, 'prior' | 'likelihoods' | 'adjustments'> {
+  prior: number; // normalized across the defect's causes
+  adjustments: ResolvedAdjustment[];
+  score: number; // normalized posterior, 0-1
+  probability: 'high' | 'medium' | 'low'; // display band derived from score
+  evidence: CauseEvidence[];
+}
+
 export interface DiagnoseResult {
   defect: DefectType;
   defectName: string;
   description: string;
-  causes: DefectCause[];
+  causes: DiagnosedCause[];
+  generalRecommendations: string[];
+}
+
+export interface MultiDiagnoseInputs extends Omit<DiagnoseInputs, 'defect'> {
+  defects: DefectType[];
+}
+
+export interface CorrelatedCause extends DiagnosedCause {
+  explainsDefects: DefectType[];
+}
+
+export interface MultiDiagnoseResult {
+  defects: { defect: DefectType; defectName: string; description: string }[];
+  causes: CorrelatedCause[];
   generalRecommendations: string[];
 }
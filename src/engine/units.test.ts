@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { optimizeParameters } from './optimizer';
+import { fromDisplayUnits, localizeText, toDisplayUnits } from './units';
+
+describe('localizeText', () => {
+  it('leaves imperial text alone', () => {
+    expect(localizeText('Raise the die by 10°F to 420°F', 'imperial')).toBe('Raise the die by 10°F to 420°F');
+  });
+
+  it('converts setpoints as temperatures and worded changes as differences', () => {
+    expect(localizeText('Raise the die by 10-20°F to 420°F', 'metric')).toBe('Raise the die by 6-11°C to 216°C');
+    expect(localizeText('Hold die temperatures within ±5°F', 'metric')).toBe('Hold die temperatures within ±3°C');
+    expect(localizeText('Die 18°F above the LDPE window', 'metric')).toBe('Die 10°C above the LDPE window');
+  });
+
+  it('reads small figures that are not worded as a change as temperatures', () => {
+    expect(localizeText('Ambient (60-75°F) - prevent moisture pickup', 'metric')).toBe(
+      'Ambient (16-24°C) - prevent moisture pickup'
+    );
+    expect(localizeText('Dew point at 20°F', 'metric')).toBe('Dew point at -7°C');
+  });
+
+  it('converts die gaps to mm and film gauge to µm', () => {
+    expect(localizeText('~65 mil gap assumed for 1.5 mils', 'metric')).toBe('~1.65 mm gap assumed for 38.1 µm');
+    expect(localizeText('the 40 mil die gap is too narrow for 2 mils', 'metric')).toBe(
+      'the 1.02 mm die gap is too narrow for 50.8 µm'
+    );
+  });
+
+  it('shows the assumed die gap of a job in mm', () => {
+    const settings = optimizeParameters({ material: 'LLDPE', targetOD: 20, targetGauge: 1.5, productionRate: 200 });
+    expect(localizeText(settings.gaugeControl.dieGapSetting, 'metric')).toMatch(/^~2\.54 mm gap assumed/);
+  });
+});
+
+describe('display units', () => {
+  it('round-trips a die gap through mm', () => {
+    expect(toDisplayUnits(65, 'dieGap', 'metric')).toBe(1.65);
+    expect(fromDisplayUnits(toDisplayUnits(65, 'dieGap', 'metric', true), 'dieGap', 'metric')).toBeCloseTo(65, 1);
+  });
+});
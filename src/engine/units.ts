@@ -0,0 +1,176 @@
+import type { Quantity, UnitSystem } from './types';
+
+// The engine works in imperial units throughout; metric is a conversion layer
+// applied to inputs on the way in and to results and text on the way out.
+
+export const UNIT_LABELS: Record<Quantity, Record<UnitSystem, string>> = {
+  temperature: { imperial: '°F', metric: '°C' },
+  temperatureDelta: { imperial: '°F', metric: '°C' },
+  length: { imperial: 'in', metric: 'mm' },
+  gauge: { imperial: 'mils', metric: 'µm' },
+  dieGap: { imperial: 'mils', metric: 'mm' },
+  massRate: { imperial: 'lbs/hr', metric: 'kg/h' },
+  pressure: { imperial: 'PSI', metric: 'bar' },
+  speed: { imperial: 'ft/min', metric: 'm/min' },
+  specificOutput: { imperial: 'lbs/hr/RPM', metric: 'kg/h/RPM' },
+  outputPerLength: { imperial: 'lbs/hr/in', metric: 'kg/h/cm' },
+  airFlow: { imperial: 'CFM', metric: 'm³/h' },
+  heatTransfer: { imperial: 'BTU/hr·ft²·°F', metric: 'W/m²·K' },
+  power: { imperial: 'HP', metric: 'kW' },
+  specificEnergy: { imperial: 'kWh/lb', metric: 'kWh/kg' },
+};
+
+const TO_METRIC: Record<Quantity, (value: number) => number> = {
+  temperature: (f) => ((f - 32) * 5) / 9,
+  temperatureDelta: (f) => (f * 5) / 9,
+  length: (inches) => inches * 25.4,
+  gauge: (mils) => mils * 25.4,
+  dieGap: (mils) => mils * 0.0254,
+  massRate: (lbs) => lbs * 0.453592,
+  pressure: (psi) => psi * 0.0689476,
+  speed: (ftMin) => ftMin * 0.3048,
+  specificOutput: (lbs) => lbs * 0.453592,
+  outputPerLength: (lbsPerIn) => (lbsPerIn * 0.453592) / 2.54,
+  airFlow: (cfm) => cfm * 1.69901,
+  heatTransfer: (btu) => btu * 5.67826,
+  power: (hp) => hp * 0.7457,
+  specificEnergy: (kwhPerLb) => kwhPerLb / 0.453592,
+};
+
+const FROM_METRIC: Record<Quantity, (value: number) => number> = {
+  temperature: (c) => (c * 9) / 5 + 32,
+  temperatureDelta: (c) => (c * 9) / 5,
+  length: (mm) => mm / 25.4,
+  gauge: (um) => um / 25.4,
+  dieGap: (mm) => mm / 0.0254,
+  massRate: (kg) => kg / 0.453592,
+  pressure: (bar) => bar / 0.0689476,
+  speed: (mMin) => mMin / 0.3048,
+  specificOutput: (kg) => kg / 0.453592,
+  outputPerLength: (kgPerCm) => (kgPerCm * 2.54) / 0.453592,
+  airFlow: (m3h) => m3h / 1.69901,
+  heatTransfer: (watts) => watts / 5.67826,
+  power: (kw) => kw / 0.7457,
+  specificEnergy: (kwhPerKg) => kwhPerKg * 0.453592,
+};
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+// Keep about three significant figures; temperatures are always whole degrees
+function roundForDisplay(value: number, quantity: Quantity): number {
+  if (quantity === 'temperature' || quantity === 'temperatureDelta') return Math.round(value);
+  const magnitude = Math.abs(value);
+  if (magnitude >= 100) return Math.round(value);
+  if (magnitude >= 10) return roundTo(value, 1);
+  if (magnitude >= 1) return roundTo(value, 2);
+  return roundTo(value, 3);
+}
+
+export function getUnitLabel(quantity: Quantity, system: UnitSystem): string {
+  return UNIT_LABELS[quantity][system];
+}
+
+// Engine value to display value. `precise` keeps enough digits for form inputs
+// to round-trip without the field jumping while the operator types.
+export function toDisplayUnits(value: number, quantity: Quantity, system: UnitSystem, precise = false): number {
+  if (system === 'imperial') return value;
+  const converted = TO_METRIC[quantity](value);
+  return precise ? roundTo(converted, 4) : roundForDisplay(converted, quantity);
+}
+
+// Display value back to the engine's imperial units
+export function fromDisplayUnits(value: number, quantity: Quantity, system: UnitSystem): number {
+  return system === 'imperial' ? value : FROM_METRIC[quantity](value);
+}
+
+export function formatQuantity(value: number, quantity: Quantity, system: UnitSystem): string {
+  const label = getUnitLabel(quantity, system);
+  const display = toDisplayUnits(value, quantity, system);
+  return label.startsWith('°') ? `${display}${label}` : `${display} ${label}`;
+}
+
+// Imperial unit strings used on engine output, mapped back to their quantity
+export function getQuantityForUnit(unit: string): Quantity | undefined {
+  switch (unit) {
+    case '°F':
+      return 'temperature';
+    case 'in':
+    case '"':
+      return 'length';
+    case 'mils':
+      return 'gauge';
+    case 'lbs/hr':
+      return 'massRate';
+    case 'lbs/hr/in':
+      return 'outputPerLength';
+    case 'CFM':
+      return 'airFlow';
+    case 'PSI':
+      return 'pressure';
+    case 'ft/min':
+      return 'speed';
+    case 'HP':
+      return 'power';
+    default:
+      return undefined;
+  }
+}
+
+const NUMBER = '\\d+(?:\\.\\d+)?|\\.\\d+';
+
+// Convert a number or "min-max" range matched in text
+function convertMatch(min: string, max: string | undefined, quantity: Quantity): string {
+  const convert = (value: string) => String(toDisplayUnits(parseFloat(value), quantity, 'metric'));
+  return max === undefined ? convert(min) : `${convert(min)}-${convert(max)}`;
+}
+
+// A °F figure in prose is a temperature change, not a setpoint, when it is
+// written as ±, follows "by"/"within", or is followed by "above"/"below" -
+// engine text words every change that way, whatever its size
+function isTemperatureDelta(text: string, offset: number, match: string, prefix: string): boolean {
+  if (prefix === '±') return true;
+  const before = text.slice(Math.max(0, offset - 8), offset);
+  const after = text.slice(offset + match.length, offset + match.length + 12);
+  if (/\b(by|within)\s*\(?$/i.test(before)) return true;
+  return /^\s*(above|below|higher|lower|hotter|cooler|apart|variation)/i.test(after);
+}
+
+// Rewrite the imperial figures embedded in recommendation text for the chosen system
+export function localizeText(text: string, system: UnitSystem): string {
+  if (system === 'imperial') return text;
+
+  const temperature = new RegExp(`(±)?(-?(?:${NUMBER}))(?:-(${NUMBER}))?°F`, 'g');
+  let result = text.replace(
+    temperature,
+    (match, prefix: string | undefined, min: string, max: string | undefined, offset: number) => {
+      const delta = isTemperatureDelta(text, offset, match, prefix ?? '');
+      return `${prefix ?? ''}${convertMatch(min, max, delta ? 'temperatureDelta' : 'temperature')}°C`;
+    }
+  );
+
+  // Die gaps are written "N mil gap" or "N mil die gap" and go out in mm, so
+  // they are taken before the remaining mils are read as film gauge
+  const replacements: [RegExp, Quantity, string][] = [
+    [new RegExp(`(${NUMBER})(?:-(${NUMBER}))?\\s*mils?(?=\\s+(?:die\\s+)?gap\\b)`, 'g'), 'dieGap', ' mm'],
+    [new RegExp(`(${NUMBER})(?:-(${NUMBER}))?"`, 'g'), 'length', ' mm'],
+    [new RegExp(`(${NUMBER})(?:-(${NUMBER}))?\\s*mils?\\b`, 'g'), 'gauge', ' µm'],
+    [new RegExp(`(${NUMBER})(?:-(${NUMBER}))?\\s*PSI`, 'g'), 'pressure', ' bar'],
+    [new RegExp(`(${NUMBER})(?:-(${NUMBER}))?\\s*lbs/hr/in\\b`, 'g'), 'outputPerLength', ' kg/h/cm'],
+    [new RegExp(`(${NUMBER})(?:-(${NUMBER}))?\\s*lbs/hr`, 'g'), 'massRate', ' kg/h'],
+    [new RegExp(`(${NUMBER})(?:-(${NUMBER}))?\\s*ft/min`, 'g'), 'speed', ' m/min'],
+    [new RegExp(`(${NUMBER})(?:-(${NUMBER}))?\\s*HP\\b`, 'g'), 'power', ' kW'],
+    [new RegExp(`(${NUMBER})(?:-(${NUMBER}))?\\s*CFM\\b`, 'g'), 'airFlow', ' m³/h'],
+  ];
+  replacements.forEach(([pattern, quantity, label]) => {
+    result = result.replace(
+      pattern,
+      (_match, min: string, max: string | undefined) => `${convertMatch(min, max, quantity)}${label}`
+    );
+  });
+
+  // Unit names left without a number, e.g. "lbs/hr/RPM" in a column heading
+  return result.replace(/\blbs\/hr\b/g, 'kg/h').replace(/\bft\/min\b/g, 'm/min').replace(/\bPSI\b/g, 'bar');
+}
@@ -0,0 +1,9 @@
+import { createContext } from 'react';
+import type { UnitSystem } from '../engine';
+
+export const UNIT_SYSTEM_STORAGE_KEY = 'parameterpath.unitSystem';
+
+export const UnitSystemContext = createContext<{
+  system: UnitSystem;
+  setSystem: (system: UnitSystem) => void;
+}>({ system: 'imperial', setSystem: () => {} });
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import type { DieInventoryItem } from '../engine';
+import { DEFAULT_DIE_INVENTORY } from '../engine';
+
+const STORAGE_KEY = 'parameterpath.dieInventory';
+
+function loadInventory(): DieInventoryItem[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as DieInventoryItem[]) : DEFAULT_DIE_INVENTORY;
+  } catch {
+    return DEFAULT_DIE_INVENTORY;
+  }
+}
+
+// Dies the plant owns, saved in browser local storage
+export function useDieInventory() {
+  const [dies, setDies] = useState<DieInventoryItem[]>(loadInventory);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(dies));
+  }, [dies]);
+
+  const saveDie = (die: DieInventoryItem) => {
+    setDies((prev) => (prev.some((d) => d.id === die.id) ? prev.map((d) => (d.id === die.id ? die : d)) : [...prev, die]));
+  };
+
+  const deleteDie = (id: string) => {
+    setDies((prev) => prev.filter((d) => d.id !== id));
+  };
+
+  return { dies, saveDie, deleteDie };
+}
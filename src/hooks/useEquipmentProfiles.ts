@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import type { EquipmentProfile } from '../engine';
+import { DEFAULT_EQUIPMENT_PROFILES } from '../engine';
+
+const STORAGE_KEY = 'parameterpath.equipmentProfiles';
+
+function loadProfiles(): EquipmentProfile[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as EquipmentProfile[]) : DEFAULT_EQUIPMENT_PROFILES;
+  } catch {
+    return DEFAULT_EQUIPMENT_PROFILES;
+  }
+}
+
+// Line profiles saved in browser local storage
+export function useEquipmentProfiles() {
+  const [profiles, setProfiles] = useState<EquipmentProfile[]>(loadProfiles);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  }, [profiles]);
+
+  const saveProfile = (profile: EquipmentProfile) => {
+    setProfiles((prev) =>
+      prev.some((p) => p.id === profile.id)
+        ? prev.map((p) => (p.id === profile.id ? profile : p))
+        : [...prev, profile]
+    );
+  };
+
+  const deleteProfile = (id: string) => {
+    setProfiles((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  return { profiles, saveProfile, deleteProfile };
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import type { RecipeVersion, SavedRecipe } from '../engine';
+
+const STORAGE_KEY = 'parameterpath.recipes';
+
+function loadRecipes(): SavedRecipe[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as SavedRecipe[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Job recipes saved in browser local storage. Saving under an existing name
+// adds a version to that recipe; earlier versions are kept.
+export function useRecipes() {
+  const [recipes, setRecipes] = useState<SavedRecipe[]>(loadRecipes);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+  }, [recipes]);
+
+  const saveRecipe = (name: string, snapshot: Omit<RecipeVersion, 'version' | 'savedAt'>) => {
+    const savedAt = new Date().toISOString();
+    setRecipes((prev) => {
+      const existing = prev.find((r) => r.name.trim().toLowerCase() === name.trim().toLowerCase());
+      if (!existing) {
+        return [...prev, { id: `recipe-${Date.now()}`, name: name.trim(), versions: [{ ...snapshot, version: 1, savedAt }] }];
+      }
+      const version = existing.versions[existing.versions.length - 1].version + 1;
+      return prev.map((r) =>
+        r.id === existing.id ? { ...r, versions: [...r.versions, { ...snapshot, version, savedAt }] } : r
+      );
+    });
+  };
+
+  const deleteRecipe = (id: string) => {
+    setRecipes((prev) => prev.filter((r) => r.id !== id));
+  };
+
+  return { recipes, saveRecipe, deleteRecipe };
+}
@@ -0,0 +1,41 @@
+import { useContext } from 'react';
+import type { Quantity } from '../engine';
+import {
+  formatQuantity,
+  fromDisplayUnits,
+  getQuantityForUnit,
+  getUnitLabel,
+  localizeText,
+  toDisplayUnits,
+} from '../engine';
+import { UnitSystemContext } from './unitSystemContext';
+
+// Unit conversion bound to the unit system chosen in the header.
+// Component state stays imperial; only what is shown and typed is converted.
+export function useUnits() {
+  const { system, setSystem } = useContext(UnitSystemContext);
+
+  return {
+    system,
+    setSystem,
+    label: (quantity: Quantity) => getUnitLabel(quantity, system),
+    show: (value: number, quantity: Quantity) => toDisplayUnits(value, quantity, system),
+    format: (value: number, quantity: Quantity) => formatQuantity(value, quantity, system),
+    // For controlled number inputs: value shown, and typed value back to imperial
+    input: (value: number | undefined, quantity: Quantity) =>
+      value === undefined ? undefined : toDisplayUnits(value, quantity, system, true),
+    parse: (value: number, quantity: Quantity) => fromDisplayUnits(value, quantity, system),
+    // Engine-reported unit string ('°F', 'PSI', ...) to the chosen system
+    unit: (unit: string) => {
+      const quantity = getQuantityForUnit(unit);
+      return quantity ? getUnitLabel(quantity, system) : unit;
+    },
+    // Engine-reported value with its imperial unit string
+    value: (value: number, unit: string, delta = false) => {
+      const quantity = getQuantityForUnit(unit);
+      if (!quantity) return value;
+      return toDisplayUnits(value, delta && quantity === 'temperature' ? 'temperatureDelta' : quantity, system);
+    },
+    text: (text: string) => localizeText(text, system),
+  };
+}
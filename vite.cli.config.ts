@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite'
+
+// Command-line build: the engine and cli/ bundled into one Node script
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/parameterpath.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'parameterpath.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})